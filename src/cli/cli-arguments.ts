@@ -0,0 +1,247 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import {
+  BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  type IBarrelGenerationOptions,
+  ImportCycleCheck,
+} from '../types/index.js';
+import { withDefaults } from '../utils/object.js';
+
+/**
+ * Commands understood by the command line interface.
+ */
+export enum CliCommand {
+  Generate = 'generate',
+  Help = 'help',
+}
+
+/**
+ * A parsed command line invocation.
+ */
+export interface CliInvocation {
+  command: CliCommand;
+  /** Absolute path of the directory to generate barrels in. */
+  directory: string;
+  /** Generation options taken from the flags. */
+  options: IBarrelGenerationOptions;
+  /** Whether the planned changes are checked against the barrels on disk instead of listed. */
+  check: boolean;
+}
+
+/** Usage text printed by `barrel-roll help`. */
+export const CLI_USAGE = [
+  'Usage: barrel-roll generate [directory] [options]',
+  '',
+  'Generates or updates barrel files using the same engine as the Barrel Roll extension.',
+  'Per-directory .barrelrc.json files and barrelRoll keys in package.json are applied.',
+  '',
+  'Options:',
+  '  -r, --recursive               Generate barrels for every subdirectory',
+  `  --mode <mode>                 ${Object.values(BarrelGenerationMode).join(' | ')}`,
+  '  --preview                     List the changes of the mode without writing',
+  '  --check                       List the barrels the mode would create or update with a',
+  '                                diff and exit with code 1 if there are any, without writing',
+  '  --root <directory>            Directory glob patterns are matched against',
+  '                                (default: the nearest folder with .git or package.json)',
+  '  --index-filename <name>       Barrel filename (default: index.ts)',
+  '  --export-extension <ext>      Extension used in export specifiers (default: auto)',
+  `  --parse-mode <mode>           ${Object.values(ExportParseMode).join(' | ')}`,
+  `  --collision-strategy <name>   ${Object.values(ExportCollisionStrategy).join(' | ')}`,
+  `  --import-cycle-check <check>  ${Object.values(ImportCycleCheck).join(' | ')}`,
+  `  --output-style <style>        ${Object.values(BarrelOutputStyle).join(' | ')}`,
+  `  --grouping <grouping>         ${Object.values(BarrelGrouping).join(' | ')}`,
+  '  --header <template>           Header written above the exports; supports ${directory},',
+  '                                ${path}, ${date} and ${year}',
+  '  --no-gitignore                Do not skip paths ignored by .gitignore files',
+  '  -h, --help                    Show this help',
+].join('\n');
+
+/**
+ * Validates that a flag value is one of the allowed values.
+ * @param flag The flag name, without leading dashes.
+ * @param value The value given on the command line.
+ * @param allowed The allowed values.
+ * @returns The value, or undefined when the flag was not given.
+ * @throws Error if the value is not allowed.
+ */
+function parseEnumFlag<T extends string>(
+  flag: string,
+  value: string | undefined,
+  allowed: readonly T[],
+): T | undefined {
+  if (value === undefined || allowed.includes(value as T)) {
+    return value as T | undefined;
+  }
+  throw new Error(
+    `Invalid value for --${flag}: "${value}". Expected one of: ${allowed.join(', ')}.`,
+  );
+}
+
+/** Flags understood by `barrel-roll generate`. */
+const CLI_FLAGS = {
+  recursive: { type: 'boolean', short: 'r' },
+  mode: { type: 'string' },
+  preview: { type: 'boolean' },
+  check: { type: 'boolean' },
+  root: { type: 'string' },
+  'index-filename': { type: 'string' },
+  'export-extension': { type: 'string' },
+  'parse-mode': { type: 'string' },
+  'collision-strategy': { type: 'string' },
+  'import-cycle-check': { type: 'string' },
+  'output-style': { type: 'string' },
+  grouping: { type: 'string' },
+  header: { type: 'string' },
+  'no-gitignore': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/**
+ * Flag values parsed from the command line.
+ */
+interface CliFlagValues {
+  recursive?: boolean;
+  mode?: string;
+  preview?: boolean;
+  check?: boolean;
+  root?: string;
+  'index-filename'?: string;
+  'export-extension'?: string;
+  'parse-mode'?: string;
+  'collision-strategy'?: string;
+  'import-cycle-check'?: string;
+  'output-style'?: string;
+  grouping?: string;
+  header?: string;
+  'no-gitignore'?: boolean;
+}
+
+/**
+ * Parses the command line arguments of the CLI.
+ * Options left off the command line are omitted so the generator defaults and
+ * `.barrelrc.json` files decide them, exactly as in the extension.
+ * @param argv The arguments after the executable and script path.
+ * @param cwd The working directory relative paths are resolved against.
+ * @returns The parsed invocation.
+ * @throws Error if the arguments are invalid.
+ */
+export function parseCliArguments(argv: string[], cwd: string): CliInvocation {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: CLI_FLAGS,
+  });
+
+  const command = parseCommand(positionals[0], values.help === true);
+  if (command === CliCommand.Help) {
+    return { command, directory: cwd, options: {}, check: false };
+  }
+  assertSingleDirectory(positionals);
+
+  return {
+    command,
+    directory: path.resolve(cwd, positionals[1] ?? '.'),
+    options: withDefaults<IBarrelGenerationOptions>({}, parseGenerationOptions(values, cwd)),
+    check: values.check === true,
+  };
+}
+
+/**
+ * Determines the command from the first positional argument.
+ * @param command The first positional argument, if any.
+ * @param help Whether the help flag was given.
+ * @returns The command; help when no command is given.
+ * @throws Error if the command is unknown.
+ */
+function parseCommand(command: string | undefined, help: boolean): CliCommand {
+  if (help || command === undefined || command === CliCommand.Help.toString()) {
+    return CliCommand.Help;
+  }
+  if (command !== CliCommand.Generate.toString()) {
+    throw new Error(`Unknown command "${command}". Run "barrel-roll help" for usage.`);
+  }
+  return CliCommand.Generate;
+}
+
+/**
+ * Ensures no more than one directory follows the command.
+ * @param positionals The positional arguments: the command and an optional directory.
+ * @throws Error if more than one directory is given.
+ */
+function assertSingleDirectory(positionals: string[]): void {
+  if (positionals.length > 2) {
+    throw new Error(`Unexpected argument "${positionals[2]}". Only one directory can be given.`);
+  }
+}
+
+/**
+ * Maps the flag values to generation options.
+ * @param values The parsed flag values.
+ * @param cwd The working directory relative paths are resolved against.
+ * @returns The generation options, with undefined values for flags that were not given.
+ * @throws Error if an enumerated flag has an unknown value.
+ */
+function parseGenerationOptions(values: CliFlagValues, cwd: string): IBarrelGenerationOptions {
+  return {
+    recursive: values.recursive === true,
+    mode: parseEnumFlag('mode', values.mode, Object.values(BarrelGenerationMode)),
+    dryRun: parseDryRun(values),
+    indexFilename: values['index-filename'],
+    exportExtension: values['export-extension'],
+    parseMode: parseEnumFlag('parse-mode', values['parse-mode'], Object.values(ExportParseMode)),
+    collisionStrategy: parseEnumFlag(
+      'collision-strategy',
+      values['collision-strategy'],
+      Object.values(ExportCollisionStrategy),
+    ),
+    importCycleCheck: parseEnumFlag(
+      'import-cycle-check',
+      values['import-cycle-check'],
+      Object.values(ImportCycleCheck),
+    ),
+    outputStyle: parseEnumFlag(
+      'output-style',
+      values['output-style'],
+      Object.values(BarrelOutputStyle),
+    ),
+    grouping: parseEnumFlag('grouping', values.grouping, Object.values(BarrelGrouping)),
+    header: values.header,
+    respectGitignore: values['no-gitignore'] === true ? false : undefined,
+    rootPath: values.root === undefined ? undefined : path.resolve(cwd, values.root),
+  };
+}
+
+/**
+ * Determines from the `--preview` and `--check` flags whether the run only plans its changes.
+ * @param values The parsed flag values.
+ * @returns True for a dry run, or undefined when neither flag was given.
+ * @throws Error if both flags are given.
+ */
+function parseDryRun(values: CliFlagValues): boolean | undefined {
+  if (values.preview === true && values.check === true) {
+    throw new Error('--check cannot be combined with --preview.');
+  }
+  return values.preview === true || values.check === true ? true : undefined;
+}
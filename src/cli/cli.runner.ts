@@ -0,0 +1,162 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+import { BarrelFileGenerator } from '../core/barrel/barrel-file.generator.js';
+import { formatStaleBarrels } from '../core/barrel/barrel-verification.js';
+import type { IBarrelFileChange, IBarrelGenerationOptions } from '../types/index.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { CLI_USAGE, CliCommand, type CliInvocation, parseCliArguments } from './cli-arguments.js';
+import { findProjectRoot } from './project-root.js';
+
+/**
+ * Destination for the messages printed by the CLI.
+ */
+export interface CliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Dependencies of a CLI run, replaceable in tests.
+ */
+export interface CliEnvironment {
+  /** Working directory relative paths are resolved against. */
+  cwd: string;
+  output: CliOutput;
+  generator: Pick<BarrelFileGenerator, 'generateBarrelFile'>;
+}
+
+/**
+ * Runs the command line interface.
+ * Barrels are written straight to disk through the generator's default file system sink,
+ * so the output is byte-identical to what the extension writes for the same options. Without
+ * `--root`, globs and header paths are resolved against the project root, as the extension
+ * resolves them against the workspace folder.
+ * With `--check` nothing is written and the exit code is 1 when any barrel is stale or missing.
+ * @param argv The arguments after the executable and script path.
+ * @param environment Optional overrides for the working directory, output and generator.
+ * @returns Promise resolving to the process exit code.
+ */
+export async function runCli(
+  argv: string[],
+  environment: Partial<CliEnvironment> = {},
+): Promise<number> {
+  const { cwd, output, generator } = resolveEnvironment(environment);
+
+  try {
+    const invocation = parseCliArguments(argv, cwd);
+    if (invocation.command === CliCommand.Help) {
+      output.log(CLI_USAGE);
+      return 0;
+    }
+
+    const changes = await generator.generateBarrelFile(
+      { fsPath: invocation.directory },
+      await withRootPath(invocation),
+    );
+    if (invocation.check) {
+      return reportVerification(changes, { cwd, output });
+    }
+    reportChanges(changes, invocation, { cwd, output });
+    return 0;
+  } catch (error) {
+    output.error(`barrel-roll: ${getErrorMessage(error)}`);
+    return 1;
+  }
+}
+
+/**
+ * Defaults the glob root of an invocation to the project root of its directory.
+ * @param invocation The parsed invocation.
+ * @returns The generation options with a root path.
+ */
+async function withRootPath(invocation: CliInvocation): Promise<IBarrelGenerationOptions> {
+  const rootPath = invocation.options.rootPath ?? (await findProjectRoot(invocation.directory));
+  return { ...invocation.options, rootPath };
+}
+
+/**
+ * Fills in the environment defaults for a CLI run.
+ * @param environment The overrides given by the caller.
+ * @returns The complete environment.
+ */
+function resolveEnvironment(environment: Partial<CliEnvironment>): CliEnvironment {
+  return {
+    cwd: environment.cwd ?? process.cwd(),
+    output: environment.output ?? console,
+    generator: environment.generator ?? new BarrelFileGenerator(),
+  };
+}
+
+/**
+ * Prints the stale and missing barrels of a verification run with a diff for each.
+ * @param changes The barrels whose content differs from the generated content.
+ * @param environment The working directory and output.
+ * @returns The exit code: 0 when every barrel is up to date, otherwise 1.
+ */
+function reportVerification(
+  changes: IBarrelFileChange[],
+  { cwd, output }: Pick<CliEnvironment, 'cwd' | 'output'>,
+): number {
+  if (changes.length === 0) {
+    output.log('All barrels are up to date.');
+    return 0;
+  }
+
+  output.log(formatStaleBarrels(changes, cwd));
+  output.error(`barrel-roll: ${changes.length} barrel(s) are stale or missing.`);
+  return 1;
+}
+
+/**
+ * Prints one line per changed barrel, relative to the working directory.
+ * @param changes The changed barrels.
+ * @param invocation The parsed invocation.
+ * @param environment The working directory and output.
+ */
+function reportChanges(
+  changes: IBarrelFileChange[],
+  invocation: CliInvocation,
+  { cwd, output }: Pick<CliEnvironment, 'cwd' | 'output'>,
+): void {
+  if (changes.length === 0) {
+    output.log('No barrel changes.');
+    return;
+  }
+
+  const isPreview = invocation.options.dryRun === true;
+  for (const change of changes) {
+    const action = describeChange(change, isPreview);
+    output.log(`${action} ${path.relative(cwd, change.filePath).replaceAll('\\', '/')}`);
+  }
+}
+
+/**
+ * Describes what happened, or would happen in preview mode, to a barrel.
+ * @param change The barrel change.
+ * @param isPreview Whether the run only planned the change.
+ * @returns The description.
+ */
+function describeChange(change: IBarrelFileChange, isPreview: boolean): string {
+  const isNew = change.originalContent === undefined;
+  if (isPreview) {
+    return isNew ? 'Would create' : 'Would update';
+  }
+  return isNew ? 'Created' : 'Updated';
+}
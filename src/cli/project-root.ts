@@ -0,0 +1,65 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import * as path from 'node:path';
+
+import { FileSystemService } from '../core/io/file-system.service.js';
+
+const GIT_DIRECTORY = '.git';
+const PACKAGE_JSON_FILENAME = 'package.json';
+
+/**
+ * Finds the project root of a directory, the folder an editor opens as the workspace folder:
+ * the nearest folder with a `.git` entry, or else the nearest one holding a package.json.
+ * @param directoryPath The absolute directory to start from.
+ * @param fileSystem Optional file system used to look for the marker entries.
+ * @returns The project root, or the directory itself when no marker exists above it.
+ */
+export async function findProjectRoot(
+  directoryPath: string,
+  fileSystem: Pick<FileSystemService, 'fileExists'> = new FileSystemService(),
+): Promise<string> {
+  return (
+    (await findNearestContaining(directoryPath, GIT_DIRECTORY, fileSystem)) ??
+    (await findNearestContaining(directoryPath, PACKAGE_JSON_FILENAME, fileSystem)) ??
+    directoryPath
+  );
+}
+
+/**
+ * Walks up from a directory looking for an entry.
+ * @param directoryPath The directory to start from.
+ * @param entryName The file or directory name to look for.
+ * @param fileSystem File system used to check for the entry.
+ * @returns The nearest directory containing the entry, or undefined if none does.
+ */
+async function findNearestContaining(
+  directoryPath: string,
+  entryName: string,
+  fileSystem: Pick<FileSystemService, 'fileExists'>,
+): Promise<string | undefined> {
+  let current = directoryPath;
+
+  while (!(await fileSystem.fileExists(path.join(current, entryName)))) {
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+
+  return current;
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { IBarrelFileChange } from '../../types/index.js';
+
+/**
+ * Collects the barrel file changes produced by a single generation run.
+ * Lets later steps of the run treat planned barrels as existing before they are on disk.
+ */
+export class BarrelChangeSet {
+  private readonly changes = new Map<string, IBarrelFileChange>();
+
+  /**
+   * Records a change, replacing any earlier change to the same file.
+   * @param change The change to record.
+   */
+  add(change: IBarrelFileChange): void {
+    this.changes.set(change.filePath, change);
+  }
+
+  /**
+   * Checks whether a change has been recorded for a file.
+   * @param filePath The absolute file path.
+   * @returns True if the file has a recorded change; otherwise false.
+   */
+  has(filePath: string): boolean {
+    return this.changes.has(filePath);
+  }
+
+  /**
+   * Returns the recorded changes ordered by file path.
+   * @returns The recorded changes.
+   */
+  toArray(): IBarrelFileChange[] {
+    return [...this.changes.values()].sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+}
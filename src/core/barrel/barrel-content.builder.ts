@@ -23,11 +23,53 @@ import {
   BarrelEntryKind,
   BarrelExport,
   BarrelExportKind,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  DEFAULT_BARREL_FORMAT,
   DEFAULT_EXPORT_NAME,
+  type IBarrelContentOptions,
+  INDEX_FILENAME,
+  type NamedBarrelExport,
   PARENT_DIRECTORY_SEGMENT,
+  SUPPORTED_SOURCE_EXTENSIONS,
 } from '../../types/index.js';
+import { withDefaults } from '../../utils/object.js';
 import { sortAlphabetically } from '../../utils/string.js';
 import { FileSystemService } from '../io/file-system.service.js';
+import { hasSourceExtension, toSpecifierPath } from '../io/source-extensions.js';
+import { type EntryStatements, layoutSections } from './barrel-sections.js';
+import { isNamespaceMember } from './export-collision.resolver.js';
+import { requiresNamedExports } from './output-style.js';
+import { formatStatement } from './statement-format.js';
+
+/**
+ * Values shared by every module path resolved while building a single barrel.
+ */
+interface ModulePathContext extends Required<IBarrelContentOptions> {
+  exportExtension: string;
+  directoryPath: string;
+}
+
+/**
+ * Content options applied when the caller leaves them out.
+ */
+const DEFAULT_CONTENT_OPTIONS: Readonly<Required<IBarrelContentOptions>> = {
+  indexFilename: INDEX_FILENAME,
+  outputStyle: BarrelOutputStyle.Mixed,
+  grouping: BarrelGrouping.None,
+  format: DEFAULT_BARREL_FORMAT,
+  header: '',
+};
+
+/**
+ * A barrel entry for a file.
+ */
+type FileBarrelEntry = Extract<BarrelEntry, { kind: BarrelEntryKind.File }>;
+
+/**
+ * A barrel entry for a subdirectory.
+ */
+type DirectoryBarrelEntry = Extract<BarrelEntry, { kind: BarrelEntryKind.Directory }>;
 
 /**
  * Service to build the content of a barrel file from exports.
@@ -47,39 +89,66 @@ export class BarrelContentBuilder {
    * @param entries Map of file paths to export arrays.
    * @param directoryPath The directory path for relative imports.
    * @param exportExtension The file extension to use for exports (e.g., '.js' or '').
+   * @param options Optional content options (e.g., barrel filename for directory exports).
    * @returns The barrel file content as a string.
    */
   buildContent(
     entries: Map<string, string[]>,
     directoryPath: string,
     exportExtension?: string,
+    options?: IBarrelContentOptions,
   ): Promise<string>;
   /**
    * Builds the content of a barrel file from export entries.
    * @param entries Map of file paths to barrel entries.
    * @param directoryPath The directory path for relative imports.
    * @param exportExtension The file extension to use for exports (e.g., '.js' or '').
+   * @param options Optional content options (e.g., barrel filename for directory exports).
    * @returns The barrel file content as a string.
    */
   buildContent(
     entries: Map<string, BarrelEntry>,
     directoryPath: string,
     exportExtension?: string,
+    options?: IBarrelContentOptions,
   ): Promise<string>;
   /**
    * Builds the content of a barrel file from export entries.
    * @param entries Map of file paths to barrel entries or export arrays.
    * @param directoryPath The directory path for relative imports.
    * @param exportExtension The file extension to use for exports (e.g., '.js' or '').
+   * @param options Optional content options (e.g., barrel filename for directory exports).
    * @returns The barrel file content as a string.
    */
   async buildContent(
     entries: Map<string, BarrelEntry | string[]>,
     directoryPath: string,
     exportExtension = '',
+    options?: IBarrelContentOptions,
   ): Promise<string> {
-    const lines: string[] = [];
     const normalizedEntries = this.normalizeEntries(entries);
+    const context = this.createModulePathContext(directoryPath, exportExtension, options);
+    const statements = await this.createEntryStatements(normalizedEntries, context);
+    const formattedLines = layoutSections(statements, context.grouping).map((line) =>
+      formatStatement(line, context.format),
+    );
+    const headerLines = context.header ? [context.header] : [];
+
+    // Add newline at end of file
+    return [...headerLines, ...formattedLines].join(NEWLINE) + NEWLINE;
+  }
+
+  /**
+   * Creates the export statements of every entry, ordered by path.
+   * @param normalizedEntries Map of relative paths to barrel entries.
+   * @param context The module path context.
+   * @returns The unformatted statements of each entry that has any.
+   */
+  private async createEntryStatements(
+    normalizedEntries: Map<string, BarrelEntry>,
+    context: ModulePathContext,
+  ): Promise<EntryStatements[]> {
+    const statements: EntryStatements[] = [];
 
     // Sort files alphabetically for consistent output
     const sortedPaths = sortAlphabetically(normalizedEntries.keys());
@@ -90,21 +159,30 @@ export class BarrelContentBuilder {
         continue;
       }
 
-      const exportLines = await this.createLinesForEntry(
-        relativePath,
-        entry,
-        exportExtension,
-        directoryPath,
-      );
+      const exportLines = await this.createLinesForEntry(relativePath, entry, context);
       if (exportLines.length === 0) {
         continue;
       }
 
-      lines.push(...exportLines);
+      statements.push({ relativePath, kind: entry.kind, lines: exportLines });
     }
 
-    // Add newline at end of file
-    return lines.join(NEWLINE) + NEWLINE;
+    return statements;
+  }
+
+  /**
+   * Creates the module path context shared by all entries of a barrel.
+   * @param directoryPath The directory path for relative imports.
+   * @param exportExtension The file extension to use for exports.
+   * @param options Optional content options.
+   * @returns The module path context.
+   */
+  private createModulePathContext(
+    directoryPath: string,
+    exportExtension: string,
+    options?: IBarrelContentOptions,
+  ): ModulePathContext {
+    return { exportExtension, directoryPath, ...withDefaults(DEFAULT_CONTENT_OPTIONS, options) };
   }
 
   /**
@@ -146,58 +224,61 @@ export class BarrelContentBuilder {
    * Creates export lines for a given entry.
    * @param relativePath The entry path
    * @param entry The entry metadata
-   * @param exportExtension The file extension to use for exports
-   * @param directoryPath The directory path for resolving relative paths
+   * @param context The module path context for the barrel being built
    * @returns export lines for the entry
    */
   private async createLinesForEntry(
     relativePath: string,
     entry: BarrelEntry,
-    exportExtension: string,
-    directoryPath: string,
+    context: ModulePathContext,
   ): Promise<string[]> {
     if (entry.kind === BarrelEntryKind.Directory) {
-      return this.buildDirectoryExportLines(relativePath, exportExtension, directoryPath);
+      return this.buildDirectoryExportLines(relativePath, entry, context);
     }
 
-    return this.buildFileExportLines(relativePath, entry.exports, exportExtension, directoryPath);
+    return this.buildFileExportLines(relativePath, entry, context);
   }
 
   /**
-   * Builds export statement(s) for a directory entry.
+   * Builds export statement(s) for a directory entry: `export * as` for a namespace, a named
+   * list when the directory's exports are known, and `export *` otherwise.
    * @param relativePath The directory path
-   * @param exportExtension The file extension to use for exports
-   * @param directoryPath The directory path for resolving relative paths
+   * @param entry The directory entry
+   * @param context The module path context for the barrel being built
    * @returns The export statement(s)
    */
   private async buildDirectoryExportLines(
     relativePath: string,
-    exportExtension: string,
-    directoryPath: string,
+    entry: DirectoryBarrelEntry,
+    context: ModulePathContext,
   ): Promise<string[]> {
-    const modulePath = await this.getModulePath(relativePath, exportExtension, directoryPath);
+    const modulePath = await this.getModulePath(relativePath, context, entry.barrelFilename);
     if (modulePath.startsWith(PARENT_DIRECTORY_SEGMENT)) {
       return [];
     }
+    if (entry.namespace) {
+      return [`export * as ${entry.namespace} from './${modulePath}';`];
+    }
+    if (entry.exports) {
+      return this.generateExportStatements(modulePath, entry.exports);
+    }
     return [`export * from './${modulePath}';`];
   }
 
   /**
    * Builds export statement(s) for a file and its exports.
    * @param filePath The file path
-   * @param exports The exports from the file
-   * @param exportExtension The file extension to use for exports
-   * @param directoryPath The directory path for resolving relative paths
+   * @param entry The file entry
+   * @param context The module path context for the barrel being built
    * @returns The export statement(s)
    */
   private async buildFileExportLines(
     filePath: string,
-    exports: BarrelExport[],
-    exportExtension: string,
-    directoryPath: string,
+    entry: FileBarrelEntry,
+    context: ModulePathContext,
   ): Promise<string[]> {
-    const cleanedExports = exports.filter((exp) =>
-      exp.kind === BarrelExportKind.Default ? true : !exp.name.includes(PARENT_DIRECTORY_SEGMENT),
+    const cleanedExports = entry.exports.filter((exp) =>
+      'name' in exp ? !exp.name.includes(PARENT_DIRECTORY_SEGMENT) : true,
     );
 
     // Skip files with no exports
@@ -206,14 +287,59 @@ export class BarrelContentBuilder {
     }
 
     // Convert file path to module path (remove .ts extension and normalize)
-    const modulePath = await this.getModulePath(filePath, exportExtension, directoryPath);
+    const modulePath = await this.getModulePath(filePath, context);
 
     // Skip if this references a parent folder
     if (modulePath.startsWith(PARENT_DIRECTORY_SEGMENT)) {
       return [];
     }
 
-    return this.generateExportStatements(modulePath, cleanedExports);
+    return this.generateFileStatements(modulePath, entry, cleanedExports, context.outputStyle);
+  }
+
+  /**
+   * Generates the statements of a file in the output style of the barrel. A file with a
+   * namespace is wrapped in it, and the wildcard style uses `export *` unless the exports must be
+   * listed by name.
+   * @param modulePath The module path
+   * @param entry The file entry
+   * @param exports The exports to re-export
+   * @param outputStyle The output style of the barrel
+   * @returns The export statement(s)
+   */
+  private generateFileStatements(
+    modulePath: string,
+    entry: FileBarrelEntry,
+    exports: BarrelExport[],
+    outputStyle: BarrelOutputStyle,
+  ): string[] {
+    if (entry.namespace) {
+      return this.generateModuleStatements(modulePath, exports, `* as ${entry.namespace}`);
+    }
+    if (outputStyle === BarrelOutputStyle.Wildcard && !requiresNamedExports(entry)) {
+      return this.generateModuleStatements(modulePath, exports, '*');
+    }
+    return this.generateExportStatements(modulePath, exports);
+  }
+
+  /**
+   * Generates the statements that re-export a whole module with `export *` or `export * as`.
+   * Default exports are not forwarded by `export *`, so they keep their own statement.
+   * @param modulePath The module path
+   * @param exports The exports
+   * @param clause The export clause, such as `*` or `* as name`
+   * @returns The export statement(s)
+   */
+  private generateModuleStatements(
+    modulePath: string,
+    exports: BarrelExport[],
+    clause: string,
+  ): string[] {
+    const lines = exports.some((exp) => isNamespaceMember(exp))
+      ? [`export ${clause} from './${modulePath}';`]
+      : [];
+    lines.push(...this.buildDefaultExportLines(modulePath, exports));
+    return lines.length > 0 ? lines : this.buildSideEffectImportLines(modulePath, exports);
   }
 
   /**
@@ -230,7 +356,6 @@ export class BarrelContentBuilder {
 
     const valueNames = this.getExportNames(exports, BarrelExportKind.Value);
     const typeNames = this.getExportNames(exports, BarrelExportKind.Type);
-    const hasDefault = exports.some((exp) => exp.kind === BarrelExportKind.Default);
 
     // If we have both values and types, combine them using TypeScript 4.5+ syntax
     if (valueNames.length > 0 && typeNames.length > 0) {
@@ -244,11 +369,52 @@ export class BarrelContentBuilder {
       lines.push(`export type { ${typeNames.join(', ')} } from './${modulePath}';`);
     }
 
-    if (hasDefault) {
-      lines.push(`export { default } from './${modulePath}';`);
+    lines.push(...this.buildDefaultExportLines(modulePath, exports));
+    lines.push(...this.buildStarExportLines(modulePath, exports));
+    return lines.length > 0 ? lines : this.buildSideEffectImportLines(modulePath, exports);
+  }
+
+  /**
+   * Builds the line that re-exports the default export of a file, under its alias when it has one.
+   * @param modulePath The module path
+   * @param exports The exports
+   * @returns The default export line, or no lines when the file has no default export
+   */
+  private buildDefaultExportLines(modulePath: string, exports: BarrelExport[]): string[] {
+    const defaultExport = exports.find((exp) => exp.kind === BarrelExportKind.Default);
+    if (defaultExport?.kind !== BarrelExportKind.Default) {
+      return [];
     }
+    const specifier = this.formatSpecifier(DEFAULT_EXPORT_NAME, defaultExport.alias);
+    return [`export { ${specifier} } from './${modulePath}';`];
+  }
 
-    return lines;
+  /**
+   * Builds a side-effect import for a file that only augments other modules or the global scope.
+   * Files with exports are loaded by their export lines, so they never need one.
+   * @param modulePath The module path
+   * @param exports The exports
+   * @returns The import line, or no lines when the file has no side effect to keep
+   */
+  private buildSideEffectImportLines(modulePath: string, exports: BarrelExport[]): string[] {
+    const hasSideEffect = exports.some((exp) => exp.kind === BarrelExportKind.SideEffect);
+    return hasSideEffect ? [`import './${modulePath}';`] : [];
+  }
+
+  /**
+   * Builds the `export *` line for a file that forwards other modules with `export *`.
+   * A value star export also forwards types, so a type-only one is only emitted on its own.
+   * @param modulePath The module path
+   * @param exports The exports
+   * @returns The `export *` line, or no lines when the file has no star export
+   */
+  private buildStarExportLines(modulePath: string, exports: BarrelExport[]): string[] {
+    const starExport = exports.find((exp) => exp.kind === BarrelExportKind.Star);
+    if (starExport?.kind !== BarrelExportKind.Star) {
+      return [];
+    }
+    const keyword = starExport.typeOnly ? 'export type *' : 'export *';
+    return [`${keyword} from './${modulePath}';`];
   }
 
   /**
@@ -260,31 +426,45 @@ export class BarrelContentBuilder {
   ): string[] {
     return sortAlphabetically(
       exports
-        .filter((exp): exp is BarrelExport & { name: string } => exp.kind === kind && 'name' in exp)
-        .map((exp) => exp.name),
+        .filter(
+          (exp): exp is NamedBarrelExport & { name: string } => exp.kind === kind && 'name' in exp,
+        )
+        .map((exp) => this.formatSpecifier(exp.name, exp.alias)),
     );
   }
 
+  /**
+   * Formats an export specifier, renaming it when an alias is given.
+   * @param name The export name.
+   * @param alias Optional alias the export is re-exported as.
+   * @returns The export specifier.
+   */
+  private formatSpecifier(name: string, alias?: string): string {
+    return alias ? `${name} as ${alias}` : name;
+  }
+
   /**
    * Converts a file path to a module path with the appropriate extension.
    * @param filePath The file path
-   * @param exportExtension The extension to use for exports (e.g., '.js' or '')
-   * @param directoryPath The directory path for resolving relative paths
+   * @param context The module path context for the barrel being built
+   * @param barrelFilename The barrel filename used when the path is a directory
    * @returns The module path
    */
   private async getModulePath(
     filePath: string,
-    exportExtension: string,
-    directoryPath: string,
+    context: ModulePathContext,
+    barrelFilename = context.indexFilename,
   ): Promise<string> {
+    const { exportExtension, directoryPath } = context;
     const isDirectory = await this.isDirectory(filePath, directoryPath);
-    // For directories, append /index + extension if extension is specified
+    // For directories, import the barrel file unless it is imported without an extension
     if (isDirectory) {
-      return exportExtension ? `${filePath}/index${exportExtension}` : filePath;
+      const barrelPath = toSpecifierPath(`${filePath}/${barrelFilename}`, exportExtension);
+      return path.extname(barrelPath) ? barrelPath : filePath;
     }
 
-    // For files, remove .ts/.tsx extension and replace with the desired export extension
-    const modulePath = filePath.replace(/\.tsx?$/, '') + exportExtension;
+    // For files, replace the source extension with the extension it is imported by
+    const modulePath = toSpecifierPath(filePath, exportExtension);
     // Normalize path separators for cross-platform compatibility
     return modulePath.replaceAll('\\', '/');
   }
@@ -298,7 +478,7 @@ export class BarrelContentBuilder {
   private async isDirectory(filePath: string, directoryPath: string): Promise<boolean> {
     // For test compatibility, if directoryPath is empty, assume directories based on file extension
     if (!directoryPath) {
-      return !/\.tsx?$/.test(filePath);
+      return !hasSourceExtension(filePath, SUPPORTED_SOURCE_EXTENSIONS);
     }
 
     // Resolve the full path to check if it's a directory
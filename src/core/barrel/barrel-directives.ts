@@ -0,0 +1,184 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { type BarrelEntry, BarrelEntryKind } from '../../types/index.js';
+import { getOriginalName, isNamedExport } from './export-collision.resolver.js';
+import {
+  type BarrelModuleStatement,
+  findBarrelModuleStatements,
+  normalizeExportPath,
+} from './export-patterns.js';
+
+/** Matches `// barrel-roll-ignore ./path`. */
+const IGNORE_DIRECTIVE_PATTERN = /^\/\/\s*barrel-roll-ignore\s+(\S+)\s*$/;
+
+/** Matches `// barrel-roll-alias ./path Name as Alias`. */
+const ALIAS_DIRECTIVE_PATTERN = /^\/\/\s*barrel-roll-alias\s+(\S+)\s+(\S+)\s+as\s+(\S+)\s*$/;
+
+/** Matches `// barrel-roll-keep`. */
+const KEEP_DIRECTIVE_PATTERN = /^\/\/\s*barrel-roll-keep\s*$/;
+
+/**
+ * A `// barrel-roll-alias` directive that re-exports one export of a module under another name.
+ */
+export interface BarrelAliasDirective {
+  /** Normalized module path, as returned by `normalizeExportPath`. */
+  modulePath: string;
+  /** Name of the export in the module, or `default`. */
+  name: string;
+  /** Name the barrel re-exports it under. */
+  alias: string;
+}
+
+/**
+ * Control comments read from an existing barrel.
+ */
+export interface BarrelDirectives {
+  /** Normalized module paths that `// barrel-roll-ignore` keeps out of the barrel. */
+  ignoredPaths: Set<string>;
+  /** Normalized module paths of the manual statements that follow `// barrel-roll-keep`. */
+  keptPaths: Set<string>;
+  /** Aliases requested with `// barrel-roll-alias`. */
+  aliases: BarrelAliasDirective[];
+}
+
+/**
+ * Checks whether a line is the `// barrel-roll-keep` directive, which pins the next statement.
+ * @param line The trimmed line.
+ * @returns True if the line is the keep directive.
+ */
+export function isKeepDirective(line: string): boolean {
+  return KEEP_DIRECTIVE_PATTERN.test(line);
+}
+
+/**
+ * Checks whether a re-export or side-effect import is pinned by a `// barrel-roll-keep` comment
+ * on the lines before it.
+ * @param statement The statement.
+ * @returns True if the statement is pinned.
+ */
+export function isPinnedStatement(statement: BarrelModuleStatement): boolean {
+  return statement.leadingComments.some((comment) => isKeepDirective(comment.trim()));
+}
+
+/**
+ * Normalizes the module path of a directive or barrel entry so both compare equal regardless of
+ * a leading `./`, extension, or `/index` suffix.
+ * @param modulePath The module path.
+ * @returns The normalized path.
+ */
+function normalizeDirectivePath(modulePath: string): string {
+  const slashed = modulePath.replaceAll('\\', '/');
+  return normalizeExportPath(slashed.startsWith('.') ? slashed : `./${slashed}`);
+}
+
+/**
+ * Records the directive on a line, if any.
+ * @param directives The directives read so far.
+ * @param line The trimmed line.
+ */
+function readDirective(directives: BarrelDirectives, line: string): void {
+  const ignore = IGNORE_DIRECTIVE_PATTERN.exec(line);
+  if (ignore) {
+    directives.ignoredPaths.add(normalizeDirectivePath(ignore[1]));
+    return;
+  }
+  const alias = ALIAS_DIRECTIVE_PATTERN.exec(line);
+  if (alias) {
+    const [, modulePath, name, aliasName] = alias;
+    directives.aliases.push({
+      modulePath: normalizeDirectivePath(modulePath),
+      name,
+      alias: aliasName,
+    });
+  }
+}
+
+/**
+ * Reads the control comments of an existing barrel:
+ * `// barrel-roll-ignore ./path` keeps a module out of the barrel,
+ * `// barrel-roll-alias ./path Name as Alias` re-exports one of its exports under another name, and
+ * `// barrel-roll-keep` pins the manual statement that follows it, so the module it refers to is
+ * not generated again.
+ * @param content The existing barrel content.
+ * @returns The directives found in the barrel.
+ */
+export function parseBarrelDirectives(content: string): BarrelDirectives {
+  const directives: BarrelDirectives = {
+    ignoredPaths: new Set(),
+    keptPaths: new Set(),
+    aliases: [],
+  };
+  for (const line of content.split('\n')) {
+    readDirective(directives, line.trim());
+  }
+  for (const statement of findBarrelModuleStatements(content)) {
+    if (isPinnedStatement(statement)) {
+      directives.keptPaths.add(normalizeExportPath(statement.modulePath));
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Applies the directives of a barrel to its entries: ignored and pinned modules are removed and
+ * requested aliases are set on the matching file exports.
+ * @param entries The entries of the barrel, keyed by barrel-relative path.
+ * @param directives The directives read from the existing barrel.
+ * @returns The alias directives that match no export of the barrel.
+ */
+export function applyBarrelDirectives(
+  entries: Map<string, BarrelEntry>,
+  directives: BarrelDirectives,
+): BarrelAliasDirective[] {
+  for (const relativePath of entries.keys()) {
+    const modulePath = normalizeDirectivePath(relativePath);
+    if (directives.ignoredPaths.has(modulePath) || directives.keptPaths.has(modulePath)) {
+      entries.delete(relativePath);
+    }
+  }
+  return directives.aliases.filter((directive) => !applyAliasDirective(entries, directive));
+}
+
+/**
+ * Sets the alias of an alias directive on the export it names.
+ * @param entries The entries of the barrel.
+ * @param directive The alias directive.
+ * @returns True if a matching export was found.
+ */
+function applyAliasDirective(
+  entries: Map<string, BarrelEntry>,
+  directive: BarrelAliasDirective,
+): boolean {
+  for (const [relativePath, entry] of entries) {
+    if (
+      entry.kind !== BarrelEntryKind.File ||
+      normalizeDirectivePath(relativePath) !== directive.modulePath
+    ) {
+      continue;
+    }
+    const target = entry.exports
+      .filter(isNamedExport)
+      .find((exp) => getOriginalName(exp) === directive.name);
+    if (target) {
+      target.alias = directive.alias;
+      return true;
+    }
+  }
+  return false;
+}
@@ -17,28 +17,75 @@
 
 import * as path from 'node:path';
 
-import type { Uri } from 'vscode';
-
 import {
+  AUTO_EXPORT_EXTENSION,
   type BarrelEntry,
   BarrelEntryKind,
   BarrelExport,
   BarrelExportKind,
   BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  CRLF,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_CONCURRENCY_LIMIT,
+  DEFAULT_EXCLUDE_PATTERNS,
+  DEFAULT_EXPORT_EXTENSION,
   DEFAULT_EXPORT_NAME,
+  DEFAULT_IGNORE_TAGS,
+  DEFAULT_INCLUDE_PATTERNS,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_SOURCE_EXTENSIONS,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  type IBarrelFileChange,
   type IBarrelGenerationOptions,
+  type IBarrelOutputSink,
+  type IDirectoryLocation,
+  type IExportCollision,
+  type IImportCycle,
+  type IImportCycleReporter,
+  ImportCycleCheck,
   INDEX_FILENAME,
   type IParsedExport,
   type LoggerInstance,
+  NEWLINE,
   type NormalizedBarrelGenerationOptions,
+  ParsedExportKind,
 } from '../../types/index.js';
+import { withDefaults } from '../../utils/object.js';
 import { processConcurrently } from '../../utils/semaphore.js';
+import { BarrelConfigLoader } from '../config/barrel-config.loader.js';
+import { BarrelFormatResolver } from '../config/barrel-format.resolver.js';
+import { ExportExtensionResolver } from '../config/export-extension.resolver.js';
 import { FileSystemService } from '../io/file-system.service.js';
+import { FileSystemSink } from '../io/file-system.sink.js';
+import { GitignoreMatcher } from '../io/gitignore-matcher.js';
+import { resolveBarrelFilename } from '../io/source-extensions.js';
 import { ExportParser } from '../parser/export.parser.js';
+import { ImportParser } from '../parser/import.parser.js';
+import { SemanticExportParser } from '../parser/semantic-export.parser.js';
+import { BarrelChangeSet } from './barrel-change-set.js';
 import { BarrelContentBuilder } from './barrel-content.builder.js';
+import { applyBarrelDirectives, parseBarrelDirectives } from './barrel-directives.js';
+import { findBarrelHeaders, getHeaderDates, renderBarrelHeader } from './barrel-header.js';
 import { BarrelContentSanitizer } from './content-sanitizer.js';
 import { ExportCache } from './export-cache.js';
+import {
+  createCollisionAlias,
+  type DirectoryExportNames,
+  ExportCollisionResolver,
+} from './export-collision.resolver.js';
 import { detectExtensionFromBarrelContent, extractAllExportPaths } from './export-patterns.js';
+import { ImportCycleDetector } from './import-cycle.detector.js';
+import {
+  assignNamespaces,
+  type DirectoryExportLists,
+  listDirectoryExports,
+  listForwardedExports,
+  toForwardedExports,
+} from './output-style.js';
+import { applyEndOfLine } from './statement-format.js';
 
 type NormalizedGenerationOptions = NormalizedBarrelGenerationOptions;
 
@@ -50,6 +97,30 @@ interface DirectoryInfo {
   subdirectories: string[];
 }
 
+/**
+ * State shared by every directory processed during a single generation run.
+ */
+interface GenerationRun {
+  changeSet: BarrelChangeSet;
+  outputSink: IBarrelOutputSink;
+  /** Names each barrel generated in the run exports through `export *`, keyed by barrel path. */
+  barrelExportNames: Map<string, ReadonlySet<string>>;
+  /**
+   * Exports each barrel generated in the run forwards to a parent barrel, keyed by barrel path;
+   * undefined when the barrel forwards names that are not known.
+   */
+  barrelExports: Map<string, BarrelExport[] | undefined>;
+  cycleReporter?: IImportCycleReporter;
+}
+
+/**
+ * Options and run state shared by the steps that process a single directory.
+ */
+interface GenerationContext {
+  options: NormalizedGenerationOptions;
+  run: GenerationRun;
+}
+
 /**
  * Service to generate or update a barrel (index.ts) file in a directory.
  */
@@ -58,6 +129,16 @@ export class BarrelFileGenerator {
   private readonly fileSystemService: FileSystemService;
   private readonly contentSanitizer: BarrelContentSanitizer;
   private readonly exportCache: ExportCache;
+  private readonly configLoader: BarrelConfigLoader;
+  private readonly gitignoreMatcher: GitignoreMatcher;
+  private readonly fileSystemSink: FileSystemSink;
+  private readonly exportParser: ExportParser;
+  private readonly semanticExportParser: SemanticExportParser;
+  private readonly collisionResolver: ExportCollisionResolver;
+  private readonly importCycleDetector: ImportCycleDetector;
+  private readonly exportExtensionResolver = new ExportExtensionResolver();
+  private readonly barrelFormatResolver: BarrelFormatResolver;
+  private readonly logger?: LoggerInstance;
 
   /**
    * Creates a new BarrelFileGenerator instance.
@@ -65,50 +146,107 @@ export class BarrelFileGenerator {
    * @param exportParser Optional export parser instance.
    * @param barrelContentBuilder Optional barrel content builder instance.
    * @param logger Optional logger instance for debug output.
+   * @param configLoader Optional loader for per-directory configuration files.
    */
   constructor(
     fileSystemService?: FileSystemService,
     exportParser?: ExportParser,
     barrelContentBuilder?: BarrelContentBuilder,
     logger?: LoggerInstance,
+    configLoader?: BarrelConfigLoader,
   ) {
     this.barrelContentBuilder = barrelContentBuilder || new BarrelContentBuilder();
     this.fileSystemService = fileSystemService || new FileSystemService();
     this.contentSanitizer = new BarrelContentSanitizer(logger);
-    this.exportCache = new ExportCache(this.fileSystemService, exportParser || new ExportParser());
+    this.exportParser = exportParser || new ExportParser();
+    this.exportCache = new ExportCache(this.fileSystemService, this.exportParser);
+    this.semanticExportParser = new SemanticExportParser(this.exportParser);
+    this.configLoader = configLoader || new BarrelConfigLoader(this.fileSystemService);
+    this.gitignoreMatcher = new GitignoreMatcher(this.fileSystemService);
+    this.fileSystemSink = new FileSystemSink(this.fileSystemService);
+    this.collisionResolver = new ExportCollisionResolver();
+    this.importCycleDetector = new ImportCycleDetector(this.fileSystemService, new ImportParser());
+    this.barrelFormatResolver = new BarrelFormatResolver();
+    this.logger = logger;
   }
 
   /**
    * Generates or updates an index.ts barrel file in the specified directory.
-   * @param directoryUri The URI of the directory where the barrel file should be created/updated.
+   * Changed barrels are handed to the output sink only once the whole run has succeeded, so a
+   * failing run leaves no barrel half-written. In a dry run nothing is written and the returned
+   * changes describe the planned writes.
+   * @param directoryUri The directory where the barrel file should be created/updated.
    * @param options Behavioral options for generation.
-   * @returns Promise that resolves when barrel files have been created/updated.
+   * @param outputSink Optional sink receiving changed barrels; defaults to writing them to disk.
+   * @param cycleReporter Optional reporter receiving the import cycles closed by generated barrels.
+   * @returns Promise resolving to the barrel files whose content changed, ordered by path.
    */
-  async generateBarrelFile(directoryUri: Uri, options?: IBarrelGenerationOptions): Promise<void> {
-    const normalizedOptions = this.normalizeOptions(options);
-    await this.generateBarrelFileFromPath(directoryUri.fsPath, normalizedOptions);
+  async generateBarrelFile(
+    directoryUri: IDirectoryLocation,
+    options?: IBarrelGenerationOptions,
+    outputSink?: IBarrelOutputSink,
+    cycleReporter?: IImportCycleReporter,
+  ): Promise<IBarrelFileChange[]> {
+    const normalizedOptions = this.normalizeOptions(options, directoryUri.fsPath);
+    const run: GenerationRun = {
+      changeSet: new BarrelChangeSet(),
+      outputSink: outputSink ?? this.fileSystemSink,
+      barrelExportNames: new Map(),
+      barrelExports: new Map(),
+      cycleReporter,
+    };
+    this.configLoader.clearCache();
+    this.exportExtensionResolver.clearCache();
+    await this.barrelFormatResolver.clearCache();
+    this.gitignoreMatcher.clearCache();
+    this.importCycleDetector.clearCache();
+    try {
+      await this.generateBarrelFileFromPath(directoryUri.fsPath, normalizedOptions, run);
+    } finally {
+      // Type checker projects hold whole programs in memory, so they are not kept between runs
+      this.semanticExportParser.clear();
+    }
+
+    const changes = run.changeSet.toArray();
+    if (!normalizedOptions.dryRun) {
+      for (const change of changes) {
+        await run.outputSink.write(change);
+      }
+    }
+    return changes;
   }
 
   /**
    * Generates or updates a barrel file from a given directory path.
+   * Options from `.barrelrc.json` files in the directory and its ancestors are applied
+   * on top of the inherited options before anything is read or written.
    * @param directoryPath The directory path
-   * @param options Generation options
+   * @param inheritedOptions Generation options inherited from the caller
+   * @param run State shared by every directory of the run
    * @param depth Current recursion depth (default: 0)
    * @returns Promise that resolves when the barrel file has been created/updated.
    */
   private async generateBarrelFileFromPath(
     directoryPath: string,
-    options: NormalizedGenerationOptions,
+    inheritedOptions: NormalizedGenerationOptions,
+    run: GenerationRun,
     depth = 0,
   ): Promise<void> {
-    const barrelFilePath = path.join(directoryPath, INDEX_FILENAME);
-    const { tsFiles, subdirectories } = await this.readDirectoryInfo(directoryPath);
+    const options = await this.resolveDirectoryOptions(directoryPath, inheritedOptions);
+    const { tsFiles, subdirectories } = await this.readDirectoryInfo(directoryPath, options);
+    const barrelFilePath = path.join(
+      directoryPath,
+      resolveBarrelFilename(options.indexFilename, tsFiles),
+    );
 
     if (options.recursive) {
-      await this.processChildDirectories(subdirectories, options, depth);
+      await this.processChildDirectories(subdirectories, options, run, depth);
     }
 
-    const entries = await this.collectEntries(directoryPath, tsFiles, subdirectories);
+    const entries = await this.collectEntries(barrelFilePath, tsFiles, subdirectories, {
+      options,
+      run,
+    });
 
     const hasExistingIndex = await this.fileSystemService.fileExists(barrelFilePath);
     if (!this.shouldWriteBarrel(entries, options, hasExistingIndex)) {
@@ -120,16 +258,104 @@ export class BarrelFileGenerator {
       entries,
       barrelFilePath,
       hasExistingIndex,
+      options,
+    );
+    await this.checkImportCycles(barrelFilePath, barrelContent, { options, run });
+    const originalContent = hasExistingIndex
+      ? await this.fileSystemService.readFile(barrelFilePath)
+      : undefined;
+    this.commitChange(
+      { filePath: barrelFilePath, originalContent, newContent: barrelContent },
+      run,
     );
-    await this.fileSystemService.writeFile(barrelFilePath, barrelContent);
+  }
+
+  /**
+   * Records a changed barrel in the change set of the run.
+   * Barrels whose content is unchanged are not recorded.
+   * @param change The barrel change.
+   * @param run State shared by every directory of the run.
+   */
+  private commitChange(change: IBarrelFileChange, run: GenerationRun): void {
+    if (change.newContent !== change.originalContent) {
+      run.changeSet.add(change);
+    }
+  }
+
+  /**
+   * Reports the import cycle a barrel would close and refuses to write it when configured to.
+   * @param barrelFilePath The barrel file path.
+   * @param content The content the barrel will have.
+   * @param context Normalized generation options and the state of the run.
+   * @returns Promise that resolves when the barrel has been checked.
+   * @throws Error describing the cycle when the check is set to `fail`.
+   */
+  private async checkImportCycles(
+    barrelFilePath: string,
+    content: string,
+    { options, run }: GenerationContext,
+  ): Promise<void> {
+    if (options.importCycleCheck === ImportCycleCheck.Off) {
+      return;
+    }
+
+    const cyclePath = await this.importCycleDetector.findCycle(
+      barrelFilePath,
+      content,
+      options.rootPath,
+    );
+    if (!cyclePath) {
+      return;
+    }
+
+    const cycle: IImportCycle = { barrelPath: barrelFilePath, path: cyclePath };
+    run.cycleReporter?.report(cycle);
+    const message = `${this.formatRelativePath(barrelFilePath, options)} closes an import cycle: ${this.formatCyclePath(cycle, options)}`;
+    if (options.importCycleCheck === ImportCycleCheck.Fail) {
+      throw new Error(message);
+    }
+    this.warn(message);
+  }
+
+  /**
+   * Formats an import cycle as a chain of paths relative to the root path.
+   * @param cycle The import cycle.
+   * @param options Normalized generation options.
+   * @returns The formatted cycle.
+   */
+  private formatCyclePath(cycle: IImportCycle, options: NormalizedGenerationOptions): string {
+    return cycle.path.map((filePath) => this.formatRelativePath(filePath, options)).join(' -> ');
+  }
+
+  /**
+   * Formats a path relative to the root path with forward slashes.
+   * @param filePath The file path.
+   * @param options Normalized generation options.
+   * @returns The relative path.
+   */
+  private formatRelativePath(filePath: string, options: NormalizedGenerationOptions): string {
+    return path.relative(options.rootPath, filePath).replaceAll('\\', '/');
+  }
+
+  /**
+   * Checks whether a barrel exists on disk or has been planned earlier in the run.
+   * @param barrelFilePath The barrel file path.
+   * @param run State shared by every directory of the run.
+   * @returns True if the barrel exists or is planned; otherwise false.
+   */
+  private async barrelExists(barrelFilePath: string, run: GenerationRun): Promise<boolean> {
+    return run.changeSet.has(barrelFilePath) || this.fileSystemService.fileExists(barrelFilePath);
   }
 
   /**
    * Builds the final barrel content, including sanitization of existing content when updating.
+   * The content is formatted from the project's Prettier and EditorConfig settings, and a barrel
+   * that already uses CRLF line endings keeps them.
    * @param directoryPath The directory path.
    * @param entries The collected entries.
    * @param barrelFilePath The path to the barrel file.
    * @param hasExistingIndex Whether an existing index file exists.
+   * @param options Normalized generation options.
    * @returns The final barrel content.
    */
   private async buildBarrelContent(
@@ -137,74 +363,152 @@ export class BarrelFileGenerator {
     entries: Map<string, BarrelEntry>,
     barrelFilePath: string,
     hasExistingIndex: boolean,
+    options: NormalizedGenerationOptions,
   ): Promise<string> {
-    const exportExtension = await this.determineExportExtension(barrelFilePath, hasExistingIndex);
+    const exportExtension = await this.determineExportExtension(
+      barrelFilePath,
+      hasExistingIndex,
+      options.exportExtension,
+    );
 
+    const format = await this.barrelFormatResolver.resolve(barrelFilePath);
+    const existingContent = hasExistingIndex
+      ? await this.fileSystemService.readFile(barrelFilePath)
+      : '';
+    const normalizedContent = existingContent.replaceAll(CRLF, NEWLINE);
+    const header = this.renderHeader(barrelFilePath, normalizedContent, options);
     const newContent = await this.barrelContentBuilder.buildContent(
       entries,
       directoryPath,
       exportExtension,
+      {
+        indexFilename: options.indexFilename,
+        outputStyle: options.outputStyle,
+        grouping: options.grouping,
+        format,
+        header,
+      },
     );
 
-    if (!hasExistingIndex) {
-      return newContent;
+    const content = hasExistingIndex
+      ? this.mergeWithSanitizedExistingContent(newContent, normalizedContent, header, options)
+      : newContent;
+    return applyEndOfLine(content, existingContent.includes(CRLF) ? CRLF : format.endOfLine);
+  }
+
+  /**
+   * Renders the header template for a barrel. An existing header keeps the dates it was
+   * written with, so regenerating the barrel does not change it.
+   * @param barrelFilePath The path to the barrel file.
+   * @param existingContent The existing barrel content with LF line endings, or empty.
+   * @param options Normalized generation options.
+   * @returns The rendered header, or an empty string without a header template.
+   */
+  private renderHeader(
+    barrelFilePath: string,
+    existingContent: string,
+    options: NormalizedGenerationOptions,
+  ): string {
+    if (!options.header) {
+      return '';
     }
 
-    return this.mergeWithSanitizedExistingContent(newContent, barrelFilePath);
+    const directoryPath = path.dirname(barrelFilePath);
+    const [existingHeader] = findBarrelHeaders(existingContent, options.header);
+    return renderBarrelHeader(options.header, {
+      directory: path.basename(directoryPath),
+      path: this.formatRelativePath(directoryPath, options) || '.',
+      ...withDefaults(getHeaderDates(new Date()), existingHeader?.dates),
+    });
   }
 
   /**
    * Merges new content with sanitized existing barrel content.
    * Preserves direct definitions (functions, types, constants, etc.) while sanitizing re-exports.
+   * Re-exports of modules kept out with `// barrel-roll-ignore` are removed as well.
+   * The header takes the place of the existing one, or follows the comments that open the file.
+   * Preserved lines keep their blank lines, except those removed statements leave behind.
    * @param newContent The newly generated content.
-   * @param barrelFilePath The path to the existing barrel file.
+   * @param existingContent The existing barrel content with LF line endings.
+   * @param header The rendered header that opens the new content, or an empty string.
+   * @param options Normalized generation options.
    * @returns The merged content.
    */
-  private async mergeWithSanitizedExistingContent(
+  private mergeWithSanitizedExistingContent(
     newContent: string,
-    barrelFilePath: string,
-  ): Promise<string> {
-    const existingContent = await this.fileSystemService.readFile(barrelFilePath);
-    const newContentPaths = extractAllExportPaths(newContent);
+    existingContent: string,
+    header: string,
+    options: NormalizedGenerationOptions,
+  ): string {
+    const { ignoredPaths } = parseBarrelDirectives(existingContent);
+    const strippedPaths = new Set([...extractAllExportPaths(newContent), ...ignoredPaths]);
 
-    const { preservedLines } = this.contentSanitizer.preserveDefinitionsAndSanitizeExports(
-      existingContent,
-      newContentPaths,
-    );
+    const { preservedLines, headerIndex } =
+      this.contentSanitizer.preserveDefinitionsAndSanitizeExports(
+        existingContent,
+        strippedPaths,
+        options.header,
+      );
 
     const newContentLines = newContent.trim() ? newContent.trim().split('\n') : [];
-    const allLines = [...preservedLines, ...newContentLines];
-    const filteredLines = allLines.filter((line) => line.trim().length > 0);
+    const headerLineCount = header.split('\n').filter(Boolean).length;
+    const allLines = [
+      ...preservedLines.slice(0, headerIndex),
+      ...newContentLines.slice(0, headerLineCount),
+      ...preservedLines.slice(headerIndex),
+      ...newContentLines.slice(headerLineCount),
+    ];
 
-    return filteredLines.length > 0 ? filteredLines.join('\n') + '\n' : '\n';
+    return allLines.length > 0 ? allLines.join('\n') + '\n' : '\n';
   }
 
   /**
    * Determines what file extension to use for export statements in barrel files.
+   * A configured extension always applies. `auto` derives it from the nearest tsconfig.json;
+   * without one, an existing barrel keeps its extension and a new barrel uses `.js`.
    * @param barrelFilePath The path to the barrel file.
    * @param hasExistingIndex Whether an existing index file exists.
+   * @param configuredExtension The configured extension, or `auto`.
    * @returns The extension to use (e.g., '.js' or '').
    */
   private async determineExportExtension(
     barrelFilePath: string,
     hasExistingIndex: boolean,
+    configuredExtension: string,
   ): Promise<string> {
-    if (!hasExistingIndex) {
-      return '.js';
+    if (configuredExtension !== AUTO_EXPORT_EXTENSION) {
+      return configuredExtension;
+    }
+
+    const derivedExtension = this.exportExtensionResolver.resolve(path.dirname(barrelFilePath));
+    if (derivedExtension !== undefined) {
+      return derivedExtension;
     }
 
-    const existingContent = await this.fileSystemService.readFile(barrelFilePath);
-    const extension = detectExtensionFromBarrelContent(existingContent);
-    return extension ?? '.js';
+    const existingExtension = hasExistingIndex
+      ? detectExtensionFromBarrelContent(await this.fileSystemService.readFile(barrelFilePath))
+      : null;
+    return existingExtension ?? DEFAULT_EXPORT_EXTENSION;
   }
 
   /**
    * Reads directory info for TypeScript files and subdirectories.
    */
-  private async readDirectoryInfo(directoryPath: string): Promise<DirectoryInfo> {
+  private async readDirectoryInfo(
+    directoryPath: string,
+    options: NormalizedGenerationOptions,
+  ): Promise<DirectoryInfo> {
+    const discoveryOptions = {
+      indexFilename: options.indexFilename,
+      sourceExtensions: options.sourceExtensions,
+      include: options.include,
+      exclude: options.exclude,
+      rootPath: options.rootPath,
+      ignoreMatcher: options.respectGitignore ? this.gitignoreMatcher : undefined,
+    };
     const [tsFiles, subdirectories] = await Promise.all([
-      this.fileSystemService.getTypeScriptFiles(directoryPath),
-      this.fileSystemService.getSubdirectories(directoryPath),
+      this.fileSystemService.getTypeScriptFiles(directoryPath, discoveryOptions),
+      this.fileSystemService.getSubdirectories(directoryPath, discoveryOptions),
     ]);
     return { tsFiles, subdirectories };
   }
@@ -213,15 +517,17 @@ export class BarrelFileGenerator {
    * Processes child directories recursively if recursive option is enabled.
    * @param subdirectories Array of subdirectory paths.
    * @param options Normalized generation options.
+   * @param run State shared by every directory of the run.
    * @param depth Current recursion depth.
    * @returns Promise that resolves when all child directories have been processed.
    */
   private async processChildDirectories(
     subdirectories: string[],
     options: NormalizedGenerationOptions,
+    run: GenerationRun,
     depth: number,
   ): Promise<void> {
-    const maxDepth = 20;
+    const { maxDepth } = options;
 
     if (depth >= maxDepth) {
       console.warn(
@@ -232,39 +538,281 @@ export class BarrelFileGenerator {
 
     for (const subdirectoryPath of subdirectories) {
       if (options.mode !== BarrelGenerationMode.UpdateExisting) {
-        await this.generateBarrelFileFromPath(subdirectoryPath, options, depth + 1);
+        await this.generateBarrelFileFromPath(subdirectoryPath, options, run, depth + 1);
         continue;
       }
 
       const hasIndex = await this.fileSystemService.fileExists(
-        path.join(subdirectoryPath, INDEX_FILENAME),
+        await this.getBarrelFilePath(subdirectoryPath, options),
       );
       if (!hasIndex) {
         continue;
       }
 
-      await this.generateBarrelFileFromPath(subdirectoryPath, options, depth + 1);
+      await this.generateBarrelFileFromPath(subdirectoryPath, options, run, depth + 1);
     }
   }
 
   /**
    * Collects all export entries from TypeScript files and subdirectories.
-   * @param directoryPath The directory path being processed.
-   * @param tsFiles Array of TypeScript file paths.
+   * The control comments of the existing barrel are applied before collisions are resolved,
+   * so ignoring or aliasing a module can settle a collision. Namespaces are assigned before
+   * collisions are resolved too, as they replace the names of the files they wrap.
+   * @param barrelFilePath The path of the barrel being generated.
+   * @param tsFiles Array of source file paths.
    * @param subdirectories Array of subdirectory paths.
+   * @param context Normalized generation options and the state of the run.
    * @returns Promise resolving to a map of relative paths to barrel entries.
    */
   private async collectEntries(
-    directoryPath: string,
+    barrelFilePath: string,
     tsFiles: string[],
     subdirectories: string[],
+    context: GenerationContext,
   ): Promise<Map<string, BarrelEntry>> {
+    const directoryPath = path.dirname(barrelFilePath);
     const entries = new Map<string, BarrelEntry>();
 
-    await this.addFileEntries(directoryPath, tsFiles, entries);
-    await this.addSubdirectoryEntries(directoryPath, subdirectories, entries);
+    await this.addFileEntries(directoryPath, tsFiles, entries, context.options);
+    await this.addSubdirectoryEntries(directoryPath, subdirectories, entries, context);
+
+    const directives = parseBarrelDirectives(await this.readExistingBarrel(barrelFilePath));
+    for (const directive of applyBarrelDirectives(entries, directives)) {
+      this.warn(
+        `${this.formatRelativePath(barrelFilePath, context.options)}: barrel-roll-alias for ${directive.name} in ${directive.modulePath} matches no export.`,
+      );
+    }
+
+    if (context.options.outputStyle === BarrelOutputStyle.Namespace) {
+      assignNamespaces(entries);
+    }
+    const resolvedEntries = await this.resolveExportCollisions(barrelFilePath, entries, context);
+    await this.listSubdirectoryExports(barrelFilePath, resolvedEntries, context);
+    return resolvedEntries;
+  }
+
+  /**
+   * Lists the exports of subdirectory barrels by name when the output style is `named`, and
+   * records the exports the barrel forwards for its parent directory.
+   * @param barrelFilePath The path of the barrel being generated.
+   * @param entries The resolved entries, updated in place.
+   * @param context Normalized generation options and the state of the run.
+   * @returns Promise that resolves when the entries have been updated.
+   */
+  private async listSubdirectoryExports(
+    barrelFilePath: string,
+    entries: Map<string, BarrelEntry>,
+    { options, run }: GenerationContext,
+  ): Promise<void> {
+    if (options.outputStyle === BarrelOutputStyle.Named) {
+      const directoryPath = path.dirname(barrelFilePath);
+      listDirectoryExports(
+        entries,
+        await this.getDirectoryExportLists(directoryPath, entries, { options, run }),
+      );
+    }
+    run.barrelExports.set(barrelFilePath, listForwardedExports(entries));
+  }
+
+  /**
+   * Looks up the exports each subdirectory entry forwards through its barrel.
+   * Barrels generated earlier in the run are taken from the run; others are parsed from disk.
+   * @param directoryPath The directory path being processed.
+   * @param entries The collected entries.
+   * @param context Normalized generation options and the state of the run.
+   * @returns Promise resolving to the exports keyed by barrel-relative path.
+   */
+  private async getDirectoryExportLists(
+    directoryPath: string,
+    entries: Map<string, BarrelEntry>,
+    { options, run }: GenerationContext,
+  ): Promise<DirectoryExportLists> {
+    const directoryExports: DirectoryExportLists = new Map();
+
+    for (const [relativePath, entry] of entries) {
+      if (entry.kind !== BarrelEntryKind.Directory) {
+        continue;
+      }
+
+      const barrelPath = await this.getBarrelFilePath(
+        path.join(directoryPath, relativePath),
+        options,
+      );
+      const exports = run.barrelExports.has(barrelPath)
+        ? run.barrelExports.get(barrelPath)
+        : await this.readBarrelExports(barrelPath);
+      directoryExports.set(relativePath, exports);
+    }
+
+    return directoryExports;
+  }
+
+  /**
+   * Parses the exports an existing barrel forwards to a parent barrel.
+   * @param barrelPath The barrel file path.
+   * @returns Promise resolving to the exports, or undefined when the barrel has `export *` lines.
+   */
+  private async readBarrelExports(barrelPath: string): Promise<BarrelExport[] | undefined> {
+    const content = await this.fileSystemService.readFile(barrelPath);
+    return toForwardedExports(this.exportParser.extractBarrelExports(content, barrelPath));
+  }
+
+  /**
+   * Reads the barrel on disk, if there is one.
+   * @param barrelFilePath The barrel file path.
+   * @returns Promise resolving to the barrel content, or an empty string when it does not exist.
+   */
+  private async readExistingBarrel(barrelFilePath: string): Promise<string> {
+    const exists = await this.fileSystemService.fileExists(barrelFilePath);
+    return exists ? this.fileSystemService.readFile(barrelFilePath) : '';
+  }
+
+  /**
+   * Detects export names exported by more than one entry, including names pulled in through
+   * `export *` from subdirectory barrels, and applies the configured collision strategy.
+   * The names the resulting barrel exports are recorded for its parent directory.
+   * @param barrelFilePath The path of the barrel being generated.
+   * @param entries The collected entries.
+   * @param context Normalized generation options and the state of the run.
+   * @returns Promise resolving to the entries after the strategy has been applied.
+   * @throws Error listing every collision when the strategy is `fail`.
+   */
+  private async resolveExportCollisions(
+    barrelFilePath: string,
+    entries: Map<string, BarrelEntry>,
+    { options, run }: GenerationContext,
+  ): Promise<Map<string, BarrelEntry>> {
+    const directoryPath = path.dirname(barrelFilePath);
+    const directoryExports = await this.getDirectoryExportNames(directoryPath, entries, {
+      options,
+      run,
+    });
+    const resolution = this.collisionResolver.resolve(
+      entries,
+      directoryExports,
+      options.collisionStrategy,
+    );
+
+    if (options.collisionStrategy === ExportCollisionStrategy.Fail) {
+      this.throwIfCollisions(directoryPath, resolution.collisions);
+    } else {
+      this.warnAboutCollisions(directoryPath, resolution.collisions, resolution.unresolved);
+    }
+
+    run.barrelExportNames.set(
+      barrelFilePath,
+      this.collisionResolver.getExportedNames(resolution.entries, directoryExports),
+    );
+    return resolution.entries;
+  }
+
+  /**
+   * Looks up the names each subdirectory entry exports through its barrel.
+   * Barrels generated earlier in the run are taken from the run; others are parsed from disk.
+   * @param directoryPath The directory path being processed.
+   * @param entries The collected entries.
+   * @param context Normalized generation options and the state of the run.
+   * @returns Promise resolving to the names keyed by barrel-relative path.
+   */
+  private async getDirectoryExportNames(
+    directoryPath: string,
+    entries: Map<string, BarrelEntry>,
+    { options, run }: GenerationContext,
+  ): Promise<DirectoryExportNames> {
+    const directoryExports: DirectoryExportNames = new Map();
+
+    for (const [relativePath, entry] of entries) {
+      if (entry.kind !== BarrelEntryKind.Directory) {
+        continue;
+      }
+
+      const barrelPath = await this.getBarrelFilePath(
+        path.join(directoryPath, relativePath),
+        options,
+      );
+      const names =
+        run.barrelExportNames.get(barrelPath) ?? (await this.readBarrelExportNames(barrelPath));
+      directoryExports.set(relativePath, names);
+    }
+
+    return directoryExports;
+  }
+
+  /**
+   * Parses the names an existing barrel exports, leaving out its default export.
+   * @param barrelPath The barrel file path.
+   * @returns Promise resolving to the exported names.
+   */
+  private async readBarrelExportNames(barrelPath: string): Promise<ReadonlySet<string>> {
+    const content = await this.fileSystemService.readFile(barrelPath);
+    const names = new Set(this.exportParser.extractBarrelExportNames(content, barrelPath));
+    names.delete(DEFAULT_EXPORT_NAME);
+    return names;
+  }
+
+  /**
+   * Throws an error listing every export name collision of a barrel.
+   * @param directoryPath The directory path being processed.
+   * @param collisions The detected collisions.
+   * @throws Error if there is at least one collision.
+   */
+  private throwIfCollisions(directoryPath: string, collisions: IExportCollision[]): void {
+    if (collisions.length === 0) {
+      return;
+    }
+
+    throw new Error(
+      `Export name collisions in ${directoryPath}: ${this.formatCollisions(collisions)}. ` +
+        'Choose a collision strategy to skip, keep or alias the duplicates.',
+    );
+  }
+
+  /**
+   * Logs the collisions a strategy resolved and the ones it could not resolve.
+   * @param directoryPath The directory path being processed.
+   * @param collisions The detected collisions.
+   * @param unresolved The collisions whose name still reaches the barrel through `export *`.
+   */
+  private warnAboutCollisions(
+    directoryPath: string,
+    collisions: IExportCollision[],
+    unresolved: IExportCollision[],
+  ): void {
+    const resolved = collisions.filter((collision) => !unresolved.includes(collision));
+    if (resolved.length > 0) {
+      this.warn(
+        `Resolved export name collisions in ${directoryPath}: ${this.formatCollisions(resolved)}`,
+      );
+    }
+    if (unresolved.length > 0) {
+      this.warn(
+        `Unable to resolve export name collisions forwarded by export * entries in ${directoryPath}: ` +
+          this.formatCollisions(unresolved),
+      );
+    }
+  }
+
+  /**
+   * Formats collisions as a readable list naming every source of each name.
+   * @param collisions The collisions.
+   * @returns The formatted list.
+   */
+  private formatCollisions(collisions: IExportCollision[]): string {
+    return collisions
+      .map((collision) => `"${collision.name}" is exported by ${collision.sources.join(' and ')}`)
+      .join('; ');
+  }
 
-    return entries;
+  /**
+   * Logs a warning through the logger when one was provided, otherwise to the console.
+   * @param message The warning message.
+   */
+  private warn(message: string): void {
+    if (this.logger) {
+      this.logger.warn(message);
+      return;
+    }
+    console.warn(message);
   }
 
   /**
@@ -272,29 +820,28 @@ export class BarrelFileGenerator {
    * @param directoryPath The directory path containing the files.
    * @param tsFiles Array of TypeScript file paths.
    * @param entries The map to add entries to.
+   * @param options Normalized generation options.
    * @returns Promise that resolves when all file entries have been added.
    */
   private async addFileEntries(
     directoryPath: string,
     tsFiles: string[],
     entries: Map<string, BarrelEntry>,
+    options: NormalizedGenerationOptions,
   ): Promise<void> {
-    const concurrencyLimit = 10;
-    const batchSize = 50;
+    const { concurrencyLimit, batchSize } = options;
 
     for (let i = 0; i < tsFiles.length; i += batchSize) {
       const batch = tsFiles.slice(i, i + batchSize);
       const results = await processConcurrently(batch, concurrencyLimit, async (filePath) => {
         try {
-          const parsedExports = await this.exportCache.getExports(filePath);
-          const exports = this.normalizeParsedExports(parsedExports);
-
-          if (exports.length === 0) {
-            return null;
-          }
-
           const relativePath = path.relative(directoryPath, filePath);
-          return { relativePath, entry: { kind: BarrelEntryKind.File, exports } };
+          const entry = this.createFileEntry(
+            await this.readExports(filePath, options),
+            relativePath,
+            options.ignoreTags,
+          );
+          return entry ? { relativePath, entry } : null;
         } catch (error) {
           console.warn(`Failed to process file ${filePath}:`, error);
           return null;
@@ -311,26 +858,88 @@ export class BarrelFileGenerator {
     }
   }
 
+  /**
+   * Creates the entry of a file from its parsed exports. A file whose exports are partly left
+   * out by ignore tags is marked so its exports are listed by name.
+   * @param parsedExports The parsed exports of the file.
+   * @param relativePath Path of the file relative to the barrel directory.
+   * @param ignoreTags JSDoc tag names, without `@`, that keep a declaration out of the barrel.
+   * @returns The entry, or null when the file has nothing to re-export.
+   */
+  private createFileEntry(
+    parsedExports: IParsedExport[],
+    relativePath: string,
+    ignoreTags: string[],
+  ): BarrelEntry | null {
+    const includedExports = this.omitIgnoredExports(parsedExports, ignoreTags);
+    const exports = this.normalizeParsedExports(includedExports, relativePath);
+    if (exports.length === 0) {
+      return null;
+    }
+    return includedExports.length < parsedExports.length
+      ? { kind: BarrelEntryKind.File, exports, explicit: true }
+      : { kind: BarrelEntryKind.File, exports };
+  }
+
+  /**
+   * Reads the exports of a file with the configured parse mode.
+   * Semantic results depend on other files, so they bypass the per-file export cache.
+   * Files read by a source file handler, such as components, are always parsed syntactically.
+   * @param filePath The file path.
+   * @param options Normalized generation options.
+   * @returns Promise resolving to the parsed exports.
+   */
+  private readExports(
+    filePath: string,
+    options: NormalizedGenerationOptions,
+  ): Promise<IParsedExport[]> {
+    if (
+      options.parseMode === ExportParseMode.Semantic &&
+      !this.exportParser.hasSourceFileHandler(filePath)
+    ) {
+      return Promise.resolve(this.semanticExportParser.extractExports(filePath));
+    }
+    return this.exportCache.getExports(filePath);
+  }
+
+  /**
+   * Drops exports whose declaration carries one of the ignored JSDoc tags.
+   * @param exports The parsed exports of a file.
+   * @param ignoreTags JSDoc tag names, without `@`, that keep a declaration out of the barrel.
+   * @returns The exports that belong in the barrel.
+   */
+  private omitIgnoredExports(exports: IParsedExport[], ignoreTags: string[]): IParsedExport[] {
+    return exports.filter((exp) => !exp.tags?.some((tag) => ignoreTags.includes(tag)));
+  }
+
   /**
    * Adds export entries for subdirectories that have index files to the entries map.
    * @param directoryPath The directory path containing the subdirectories.
    * @param subdirectories Array of subdirectory paths.
    * @param entries The map to add entries to.
+   * @param context Normalized generation options and the state of the run.
    * @returns Promise that resolves when all subdirectory entries have been added.
    */
   private async addSubdirectoryEntries(
     directoryPath: string,
     subdirectories: string[],
     entries: Map<string, BarrelEntry>,
+    { options, run }: GenerationContext,
   ): Promise<void> {
     for (const subdirectoryPath of subdirectories) {
-      const barrelPath = path.join(subdirectoryPath, INDEX_FILENAME);
-      if (!(await this.fileSystemService.fileExists(barrelPath))) {
+      const barrelPath = await this.getBarrelFilePath(subdirectoryPath, options);
+      if (!(await this.barrelExists(barrelPath, run))) {
         continue;
       }
 
       const relativePath = path.relative(directoryPath, subdirectoryPath);
-      entries.set(relativePath, { kind: BarrelEntryKind.Directory });
+      const barrelFilename = path.basename(barrelPath);
+      entries.set(
+        relativePath,
+        barrelFilename === options.indexFilename
+          ? { kind: BarrelEntryKind.Directory }
+          : { kind: BarrelEntryKind.Directory, barrelFilename },
+      );
     }
   }
 
@@ -369,34 +978,125 @@ export class BarrelFileGenerator {
     }
   }
 
+  /**
+   * Applies the configuration files that affect a directory on top of the given options.
+   * @param directoryPath The directory to resolve options for.
+   * @param options The options inherited from the caller or parent directory.
+   * @returns The options that apply to the directory.
+   */
+  private async resolveDirectoryOptions(
+    directoryPath: string,
+    options: NormalizedGenerationOptions,
+  ): Promise<NormalizedGenerationOptions> {
+    const directoryOptions = await this.configLoader.resolve(directoryPath);
+    return withDefaults(options, directoryOptions);
+  }
+
+  /**
+   * Gets the barrel file path of a directory, honoring its configured barrel filename and
+   * the JavaScript barrel of a JavaScript-only directory.
+   * @param directoryPath The directory path.
+   * @param options The options inherited from the parent directory.
+   * @returns The barrel file path.
+   */
+  private async getBarrelFilePath(
+    directoryPath: string,
+    options: NormalizedGenerationOptions,
+  ): Promise<string> {
+    const directoryOptions = await this.resolveDirectoryOptions(directoryPath, options);
+    const { tsFiles } = await this.readDirectoryInfo(directoryPath, directoryOptions);
+    return path.join(directoryPath, resolveBarrelFilename(directoryOptions.indexFilename, tsFiles));
+  }
+
   /**
    * Normalizes generation options with default values.
    * @param options Optional generation options.
+   * @param directoryPath The target directory, used as the glob root when none is given.
    * @returns Normalized generation options with defaults applied.
    */
-  private normalizeOptions(options?: IBarrelGenerationOptions): NormalizedGenerationOptions {
-    return {
-      recursive: options?.recursive ?? false,
-      mode: options?.mode ?? BarrelGenerationMode.CreateOrUpdate,
-    };
+  private normalizeOptions(
+    options: IBarrelGenerationOptions | undefined,
+    directoryPath: string,
+  ): NormalizedGenerationOptions {
+    return withDefaults<NormalizedGenerationOptions>(
+      {
+        recursive: false,
+        mode: BarrelGenerationMode.CreateOrUpdate,
+        dryRun: false,
+        indexFilename: INDEX_FILENAME,
+        exportExtension: AUTO_EXPORT_EXTENSION,
+        sourceExtensions: [...DEFAULT_SOURCE_EXTENSIONS],
+        maxDepth: DEFAULT_MAX_DEPTH,
+        concurrencyLimit: DEFAULT_CONCURRENCY_LIMIT,
+        batchSize: DEFAULT_BATCH_SIZE,
+        include: [...DEFAULT_INCLUDE_PATTERNS],
+        exclude: [...DEFAULT_EXCLUDE_PATTERNS],
+        parseMode: ExportParseMode.Syntactic,
+        ignoreTags: [...DEFAULT_IGNORE_TAGS],
+        collisionStrategy: ExportCollisionStrategy.Fail,
+        importCycleCheck: ImportCycleCheck.Warn,
+        outputStyle: BarrelOutputStyle.Mixed,
+        grouping: BarrelGrouping.None,
+        header: '',
+        respectGitignore: true,
+        rootPath: directoryPath,
+      },
+      options,
+    );
   }
 
   /**
    * Normalizes parsed exports into BarrelExport objects.
+   * A namespace re-export (export * as ns from ...) is already a binding of the file, so the
+   * barrel re-exports it by name instead of wrapping the file in another namespace.
    * @param exports Array of parsed exports.
+   * @param relativePath Path of the exporting file relative to the barrel directory.
    * @returns Array of normalized BarrelExport objects.
    */
-  private normalizeParsedExports(exports: IParsedExport[]): BarrelExport[] {
+  private normalizeParsedExports(exports: IParsedExport[], relativePath: string): BarrelExport[] {
     return exports.map((exp) => {
-      if (exp.name === DEFAULT_EXPORT_NAME) {
-        return { kind: BarrelExportKind.Default };
+      if (exp.kind === ParsedExportKind.Star) {
+        return { kind: BarrelExportKind.Star, typeOnly: exp.typeOnly };
+      }
+      if (exp.kind === ParsedExportKind.Augmentation) {
+        return { kind: BarrelExportKind.SideEffect };
+      }
+      if (exp.kind === ParsedExportKind.ExportAssignment) {
+        return this.normalizeExportAssignment(exp, relativePath);
       }
+      if (exp.kind === ParsedExportKind.Component) {
+        return { kind: BarrelExportKind.Default, alias: exp.name };
+      }
+      return this.normalizeNamedExport(exp);
+    });
+  }
 
-      const entry: BarrelExport = exp.typeOnly
-        ? { kind: BarrelExportKind.Type, name: exp.name }
-        : { kind: BarrelExportKind.Value, name: exp.name };
+  /**
+   * Normalizes an `export =` assignment into a default-interop re-export, named after the
+   * assigned identifier or, when none exists, after the module path.
+   * @param exp The parsed export assignment.
+   * @param relativePath Path of the exporting file relative to the barrel directory.
+   * @returns The default barrel export with its alias.
+   */
+  private normalizeExportAssignment(exp: IParsedExport, relativePath: string): BarrelExport {
+    const alias =
+      exp.name === DEFAULT_EXPORT_NAME
+        ? createCollisionAlias(DEFAULT_EXPORT_NAME, relativePath)
+        : exp.name;
+    return { kind: BarrelExportKind.Default, alias };
+  }
 
-      return entry;
-    });
+  /**
+   * Normalizes a named or default export of an ES module.
+   * @param exp The parsed export.
+   * @returns The normalized BarrelExport.
+   */
+  private normalizeNamedExport(exp: IParsedExport): BarrelExport {
+    if (exp.name === DEFAULT_EXPORT_NAME) {
+      return { kind: BarrelExportKind.Default };
+    }
+    return exp.typeOnly
+      ? { kind: BarrelExportKind.Type, name: exp.name }
+      : { kind: BarrelExportKind.Value, name: exp.name };
   }
 }
@@ -0,0 +1,169 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import { NEWLINE } from '../../types/constants.js';
+
+/**
+ * Values substituted for the `${name}` placeholders of a header template.
+ */
+export interface BarrelHeaderValues {
+  /** Name of the barrel's directory. */
+  directory: string;
+  /** Path of the barrel's directory relative to the root path, with forward slashes. */
+  path: string;
+  /** Date the header was first written, as `YYYY-MM-DD`. */
+  date: string;
+  /** Year the header was first written. */
+  year: string;
+}
+
+/**
+ * A header found in existing barrel content.
+ */
+export interface BarrelHeaderMatch {
+  start: number;
+  end: number;
+  /** Dates recorded in the header, which are kept when it is rendered again. */
+  dates: Partial<Pick<BarrelHeaderValues, 'date' | 'year'>>;
+}
+
+type BarrelHeaderPlaceholder = keyof BarrelHeaderValues;
+
+const PLACEHOLDER_PATTERN = /\$\{(directory|path|date|year)\}/;
+
+/** Patterns matching the values of each placeholder in an existing header. */
+const PLACEHOLDER_VALUE_PATTERNS: Readonly<Record<BarrelHeaderPlaceholder, string>> = {
+  directory: '[^\\n]*?',
+  path: '[^\\n]*?',
+  date: '\\d{4}-\\d{2}-\\d{2}',
+  year: '\\d{4}',
+};
+
+/**
+ * Renders a header template. Templates that are not comments already become `//` line comments,
+ * and blank lines are dropped so the header survives the updates of an existing barrel.
+ * @param template The header template.
+ * @param values The placeholder values.
+ * @returns The header comment.
+ */
+export function renderBarrelHeader(template: string, values: BarrelHeaderValues): string {
+  return toHeaderLines(template)
+    .join(NEWLINE)
+    .replaceAll(
+      new RegExp(PLACEHOLDER_PATTERN, 'g'),
+      (_match, name: BarrelHeaderPlaceholder) => values[name],
+    );
+}
+
+/**
+ * Finds the headers rendered from a template in barrel content, whatever values their
+ * placeholders were rendered with.
+ * @param content The barrel content with LF line endings.
+ * @param template The header template.
+ * @returns The headers found, in order.
+ */
+export function findBarrelHeaders(content: string, template: string): BarrelHeaderMatch[] {
+  return [...content.matchAll(createHeaderPattern(template))].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    dates: { date: match.groups?.date, year: match.groups?.year },
+  }));
+}
+
+/**
+ * Returns today's header dates in UTC.
+ * @param now The current time.
+ * @returns The date and year placeholders.
+ */
+export function getHeaderDates(now: Date): Pick<BarrelHeaderValues, 'date' | 'year'> {
+  const date = now.toISOString().slice(0, 10);
+  return { date, year: date.slice(0, 4) };
+}
+
+/**
+ * Splits a template into the lines of the header comment. Lines outside a comment become line
+ * comments, while the lines of a block comment are kept as they are.
+ * @param template The header template.
+ * @returns The non-blank comment lines.
+ */
+function toHeaderLines(template: string): string[] {
+  const lines: string[] = [];
+  let inBlockComment = false;
+  for (const line of template.split(/\r?\n/).map((text) => text.trimEnd())) {
+    if (line.trim().length > 0) {
+      lines.push(inBlockComment || /^\s*\/[/*]/.test(line) ? line : `// ${line}`);
+      inBlockComment = isInBlockCommentAfter(line, inBlockComment);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Checks whether a block comment is still open at the end of a header line.
+ * @param line The header line.
+ * @param inBlockComment Whether a block comment was open before the line.
+ * @returns True when the line opens or continues a block comment without closing it.
+ */
+function isInBlockCommentAfter(line: string, inBlockComment: boolean): boolean {
+  if (!inBlockComment && !line.trimStart().startsWith('/*')) {
+    return false;
+  }
+  const closing = line.lastIndexOf('*/');
+  return closing === -1 || line.lastIndexOf('/*') > closing;
+}
+
+/**
+ * Creates a pattern matching the header lines rendered from a template. The first occurrence of
+ * a placeholder captures its value and later ones must repeat it.
+ * @param template The header template.
+ * @returns A global, multiline pattern.
+ */
+function createHeaderPattern(template: string): RegExp {
+  const captured = new Set<string>();
+  const source = toHeaderLines(template)
+    .join(NEWLINE)
+    .split(PLACEHOLDER_PATTERN)
+    .map((part, index) =>
+      index % 2 === 0 ? escapeRegExp(part) : capturePlaceholder(part, captured),
+    )
+    .join('');
+  return new RegExp(`^${source}(?:\\n|$)`, 'gm');
+}
+
+/**
+ * Returns the pattern of a placeholder, as a named group the first time it appears and as a
+ * backreference afterwards.
+ * @param name The placeholder name.
+ * @param captured Placeholders already captured.
+ * @returns The placeholder pattern.
+ */
+function capturePlaceholder(name: string, captured: Set<string>): string {
+  if (captured.has(name)) {
+    return `\\k<${name}>`;
+  }
+
+  captured.add(name);
+  return `(?<${name}>${PLACEHOLDER_VALUE_PATTERNS[name as BarrelHeaderPlaceholder]})`;
+}
+
+/**
+ * Escapes the characters of a string that have a meaning in regular expressions.
+ * @param text The literal text.
+ * @returns The escaped text.
+ */
+function escapeRegExp(text: string): string {
+  return text.replaceAll(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,104 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import { BarrelEntryKind, BarrelGrouping } from '../../types/index.js';
+
+/**
+ * The statements generated for one entry of a barrel.
+ */
+export interface EntryStatements {
+  relativePath: string;
+  kind: BarrelEntryKind;
+  lines: string[];
+}
+
+/**
+ * A section of a grouped barrel; sections are ordered by rank, then by first appearance.
+ */
+interface BarrelSection {
+  rank: number;
+  label: string;
+}
+
+type SectionClassifier = (statements: EntryStatements, line: string) => BarrelSection;
+
+const TYPES_SECTION: BarrelSection = { rank: 0, label: 'Types' };
+const VALUES_SECTION: BarrelSection = { rank: 1, label: 'Values' };
+const SUBDIRECTORIES_SECTION: BarrelSection = { rank: 2, label: 'Subdirectories' };
+const FILES_SECTION: BarrelSection = { rank: 0, label: 'Files' };
+
+/** Matches the section label comments written by {@link layoutSections}, with their line break. */
+const SECTION_LABEL_PATTERN = /^[ \t]*\/\/ --- .+ ---[ \t]*(?:\n|$)/gm;
+
+const SECTION_CLASSIFIERS: Readonly<
+  Record<Exclude<BarrelGrouping, BarrelGrouping.None>, SectionClassifier>
+> = {
+  [BarrelGrouping.Kind]: ({ kind }, line) => {
+    if (kind === BarrelEntryKind.Directory) {
+      return SUBDIRECTORIES_SECTION;
+    }
+    return line.startsWith('export type ') ? TYPES_SECTION : VALUES_SECTION;
+  },
+  [BarrelGrouping.Folder]: ({ kind, relativePath }) =>
+    kind === BarrelEntryKind.Directory ? { rank: 1, label: `${relativePath}/` } : FILES_SECTION,
+};
+
+/**
+ * Lays out the statements of a barrel. Without grouping they are listed in path order; otherwise
+ * each section starts with a label comment and sections are separated by a blank line. Statements
+ * keep their path order within a section, so the layout is deterministic.
+ * @param statements The statements of each entry, in path order.
+ * @param grouping How statements are grouped.
+ * @returns The lines of the barrel body.
+ */
+export function layoutSections(statements: EntryStatements[], grouping: BarrelGrouping): string[] {
+  if (grouping === BarrelGrouping.None) {
+    return statements.flatMap(({ lines }) => lines);
+  }
+
+  const classify = SECTION_CLASSIFIERS[grouping];
+  const sections = new Map<string, BarrelSection & { lines: string[] }>();
+  for (const entry of statements) {
+    for (const line of entry.lines) {
+      const section = classify(entry, line);
+      const key = `${section.rank}:${section.label}`;
+      const sectionLines = sections.get(key) ?? { ...section, lines: [] };
+      sectionLines.lines.push(line);
+      sections.set(key, sectionLines);
+    }
+  }
+
+  return [...sections.values()]
+    .sort((a, b) => a.rank - b.rank)
+    .flatMap(({ label, lines }, index) => [
+      ...(index > 0 ? [''] : []),
+      `// --- ${label} ---`,
+      ...lines,
+    ]);
+}
+
+/**
+ * Finds the section label comments of barrel content, so they are replaced on update instead of
+ * piling up, including after grouping is turned off.
+ * @param content The barrel content with LF line endings.
+ * @returns The start and end offsets of each label line.
+ */
+export function findSectionLabels(content: string): Array<[number, number]> {
+  return [...content.matchAll(SECTION_LABEL_PATTERN)].map((match): [number, number] => [
+    match.index,
+    match.index + match[0].length,
+  ]);
+}
@@ -0,0 +1,44 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+import type { IBarrelFileChange } from '../../types/index.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+
+/**
+ * Formats a barrel that differs from its generated content as a status line followed by a unified diff.
+ * @param change The planned change to the barrel.
+ * @param basePath Directory the reported paths are relative to.
+ * @returns `missing: <path>` or `stale: <path>` followed by the diff from disk to the expected content.
+ */
+export function formatStaleBarrel(change: IBarrelFileChange, basePath: string): string {
+  const relativePath = path.relative(basePath, change.filePath).replaceAll('\\', '/');
+  const status = change.originalContent === undefined ? 'missing' : 'stale';
+  const diff = createUnifiedDiff(relativePath, change.originalContent, change.newContent);
+  return `${status}: ${relativePath}\n${diff}`;
+}
+
+/**
+ * Formats every barrel that differs from its generated content, separated by blank lines.
+ * @param changes The planned changes of a verification run.
+ * @param basePath Directory the reported paths are relative to.
+ * @returns The report of stale and missing barrels.
+ */
+export function formatStaleBarrels(changes: IBarrelFileChange[], basePath: string): string {
+  return changes.map((change) => formatStaleBarrel(change, basePath)).join('\n\n');
+}
@@ -15,32 +15,177 @@
  *
  */
 
+import { ts } from 'ts-morph';
+
 import type { LoggerInstance } from '../../types/index.js';
+import { isPinnedStatement } from './barrel-directives.js';
+import { findBarrelHeaders } from './barrel-header.js';
+import { findSectionLabels } from './barrel-sections.js';
 import {
-  extractExportPath,
-  isMultilineExportEnd,
-  isMultilineExportStart,
+  type BarrelModuleStatement,
+  findBarrelModuleStatements,
   normalizeExportPath,
 } from './export-patterns.js';
 
 /**
- * State object for tracking multiline export parsing.
+ * Result of content sanitization.
  */
-interface MultilineState {
-  buffer: string[];
-  inMultiline: boolean;
+export interface SanitizationResult {
+  preservedLines: string[];
+  /**
+   * Index in `preservedLines` at which the generated header belongs: where the header stood
+   * before, or else after the comments that open the file, such as a license.
+   */
+  headerIndex: number;
+}
+
+/** Start and end offsets of a range of text. */
+type TextRange = [number, number];
+
+/** Text left after removing ranges from it. */
+interface RemainingText {
+  remaining: string;
+  /** Offset in the remaining text where each range was removed. */
+  removalOffsets: number[];
+}
+
+/** A line of preserved text. */
+interface PreservedLine {
+  text: string;
+  /** Whether the line holds nothing but whitespace. */
+  blank: boolean;
+  /** Whether a removed range ended on the line, so its whitespace may have been left behind. */
+  touched: boolean;
 }
 
 /**
- * Result of content sanitization.
+ * Checks whether a character is a space or tab.
+ * @param char The character.
+ * @returns True for horizontal whitespace.
  */
-export interface SanitizationResult {
-  preservedLines: string[];
+function isHorizontalWhitespace(char: string | undefined): boolean {
+  return char === ' ' || char === '\t';
+}
+
+/**
+ * Checks whether a character ends a line; the end of the text counts as a line end.
+ * @param char The character, or undefined past the end of the text.
+ * @returns True for line breaks and the end of the text.
+ */
+function isLineBreak(char: string | undefined): boolean {
+  return char === undefined || char === '\n' || char === '\r';
+}
+
+/**
+ * Removes ranges from a text.
+ * @param text The text.
+ * @param ranges Non-overlapping ranges in ascending order.
+ * @returns The remaining text and, for each range, the offset in it where the range was removed.
+ */
+function removeRanges(text: string, ranges: TextRange[]): RemainingText {
+  let remaining = '';
+  let position = 0;
+  const removalOffsets: number[] = [];
+  for (const [start, end] of ranges) {
+    remaining += text.slice(position, start);
+    removalOffsets.push(remaining.length);
+    position = end;
+  }
+  return { remaining: remaining + text.slice(position), removalOffsets };
+}
+
+/**
+ * Splits a text into lines, marking the blank ones and those a range was removed from.
+ * @param text The text.
+ * @param removalOffsets Offsets in the text where ranges were removed.
+ * @returns The lines.
+ */
+function toPreservedLines(text: string, removalOffsets: number[]): PreservedLine[] {
+  let lineStart = 0;
+  return text.split('\n').map((line) => {
+    const start = lineStart;
+    lineStart += line.length + 1;
+    return {
+      text: line,
+      blank: line.trim().length === 0,
+      touched: removalOffsets.some((offset) => offset >= start && offset <= start + line.length),
+    };
+  });
+}
+
+/**
+ * Collapses a run of blank lines between two preserved lines. A run that removed ranges left
+ * lines in keeps at most one of the blank lines it had before, and any other run is kept as is.
+ * @param run The blank lines.
+ * @returns The blank lines to keep.
+ */
+function collapseBlankRun(run: PreservedLine[]): string[] {
+  if (!run.some((line) => line.touched)) {
+    return run.map((line) => line.text);
+  }
+  return run
+    .filter((line) => !line.touched)
+    .slice(0, 1)
+    .map((line) => line.text);
+}
+
+/**
+ * Gets the lines of preserved text, collapsing only the whitespace removed ranges left behind.
+ * Blank lines at the start and end are dropped, since generated content is inserted there.
+ * @param text The preserved text.
+ * @param removalOffsets Offsets in the text where ranges were removed.
+ * @returns The preserved lines.
+ */
+function getPreservedLines(text: string, removalOffsets: number[]): string[] {
+  const lines: string[] = [];
+  let blankRun: PreservedLine[] = [];
+  for (const line of toPreservedLines(text, removalOffsets)) {
+    if (line.blank) {
+      blankRun.push(line);
+      continue;
+    }
+    if (lines.length > 0) {
+      lines.push(...collapseBlankRun(blankRun));
+    }
+    lines.push(line.text);
+    blankRun = [];
+  }
+  return lines;
+}
+
+/**
+ * Sorts ranges by their start and drops those that overlap an earlier one, such as a section
+ * label inside a header.
+ * @param ranges The ranges.
+ * @returns The non-overlapping ranges in ascending order.
+ */
+function withoutOverlaps(ranges: TextRange[]): TextRange[] {
+  return [...ranges]
+    .sort(([a], [b]) => a - b)
+    .reduce<TextRange[]>((kept, range) => {
+      const previous = kept.at(-1);
+      return previous && range[0] < previous[1] ? kept : [...kept, range];
+    }, []);
+}
+
+/**
+ * Finds the end of the comments that open a text and stand apart from the first statement,
+ * separated from it by a blank line, the way TypeScript treats a file's detached comments.
+ * @param text The text.
+ * @returns The offset after the last detached comment, or 0 when there is none.
+ */
+function findDetachedCommentsEnd(text: string): number {
+  const ranges = ts.getLeadingCommentRanges(text, 0) ?? [];
+  return ranges.reduce(
+    (end, range) => (/^[ \t]*\r?\n[ \t]*(\r?\n|$)/.test(text.slice(range.end)) ? range.end : end),
+    0,
+  );
 }
 
 /**
  * Service for sanitizing barrel file content during updates.
- * Handles both single-line and multiline export statements.
+ * Existing content is parsed, so re-exports are found however they are laid out, and everything
+ * that is not removed keeps its original text, comments and formatting.
  */
 export class BarrelContentSanitizer {
   private readonly logger?: LoggerInstance;
@@ -55,90 +200,109 @@ export class BarrelContentSanitizer {
 
   /**
    * Preserves direct definitions and sanitizes re-exports from existing barrel content.
-   * Handles both single-line and multiline export statements.
+   * Removed statements take the comments that trail them on the same line with them; comments
+   * on the lines before them stay, so directives and notes survive an update.
+   * The preserved text is kept verbatim, including blank lines inside template literals and
+   * function bodies; only the blank lines removed statements leave behind are collapsed.
+   * Headers rendered from the header template and section labels are removed too, so the
+   * regenerated ones replace them instead of being added again. Without a header template the
+   * preserved text is not split for a header, so its blank lines all stay in place.
    * @param existingContent The existing barrel file content.
    * @param newContentPaths Set of module paths that will be regenerated (to avoid duplicates).
-   * @returns Object containing preserved lines.
+   * @param headerTemplate Optional header template of the barrel.
+   * @returns Object containing preserved lines and where the header belongs among them.
    */
   preserveDefinitionsAndSanitizeExports(
     existingContent: string,
     newContentPaths: Set<string>,
+    headerTemplate = '',
   ): SanitizationResult {
-    const lines = existingContent.trim().split('\n');
-    const state: MultilineState = { buffer: [], inMultiline: false };
-    const preservedLines: string[] = [];
-
-    for (const line of lines) {
-      const result = this.processLineForPreservation(line, state, newContentPaths);
-      preservedLines.push(...result);
-    }
+    const statementRanges = findBarrelModuleStatements(existingContent)
+      .filter((statement) => !this.shouldPreserveStatement(statement, newContentPaths))
+      .map((statement) => this.expandOverWhitespace(existingContent, statement));
+    const headerRanges = headerTemplate
+      ? findBarrelHeaders(existingContent, headerTemplate).map(
+          ({ start, end }): TextRange => [start, end],
+        )
+      : [];
+    const removed = withoutOverlaps([
+      ...statementRanges,
+      ...headerRanges,
+      ...findSectionLabels(existingContent),
+    ]);
+    const { remaining, removalOffsets } = removeRanges(existingContent, removed);
 
-    // If we ended mid-multiline (malformed), preserve what we have
-    preservedLines.push(...state.buffer);
-
-    return { preservedLines };
+    const headerOffset = headerTemplate
+      ? this.findHeaderOffset(headerRanges, removed, remaining)
+      : 0;
+    const linesBeforeHeader = getPreservedLines(remaining.slice(0, headerOffset), removalOffsets);
+    const linesAfterHeader = getPreservedLines(
+      remaining.slice(headerOffset),
+      removalOffsets.map((offset) => offset - headerOffset),
+    );
+    return {
+      preservedLines: [...linesBeforeHeader, ...linesAfterHeader],
+      headerIndex: linesBeforeHeader.length,
+    };
   }
 
   /**
-   * Processes a single line during barrel content preservation.
-   * Manages multiline export state and returns lines to preserve.
+   * Finds where the header belongs in the preserved text.
+   * @param headerRanges Ranges of the existing headers.
+   * @param removed Every range removed from the existing content.
+   * @param preservedText The preserved text.
+   * @returns The offset in the preserved text.
    */
-  private processLineForPreservation(
-    line: string,
-    state: MultilineState,
-    newContentPaths: Set<string>,
-  ): string[] {
-    const trimmedLine = line.trim();
-
-    if (state.inMultiline) {
-      state.buffer.push(line);
-      if (isMultilineExportEnd(trimmedLine)) {
-        const result = this.processMultilineBlock(state.buffer, newContentPaths);
-        state.buffer = [];
-        state.inMultiline = false;
-        return result;
-      }
-      return [];
+  private findHeaderOffset(
+    headerRanges: TextRange[],
+    removed: TextRange[],
+    preservedText: string,
+  ): number {
+    const [firstHeader] = headerRanges;
+    if (!firstHeader) {
+      return findDetachedCommentsEnd(preservedText);
     }
 
-    if (isMultilineExportStart(trimmedLine)) {
-      state.inMultiline = true;
-      state.buffer = [line];
-      return [];
-    }
-
-    return this.processSingleLine(line, trimmedLine, newContentPaths);
+    const [headerStart] = firstHeader;
+    return removed
+      .filter(([, end]) => end <= headerStart)
+      .reduce((offset, [start, end]) => offset - (end - start), headerStart);
   }
 
   /**
-   * Processes a completed multiline export block and determines if it should be preserved.
-   * @returns Lines to preserve (empty array if should be stripped).
+   * Determines whether a re-export or side-effect import is kept.
+   * A statement pinned by a `// barrel-roll-keep` comment is always kept.
+   * @param statement The statement.
+   * @param newContentPaths Set of pre-normalized paths that will be regenerated.
+   * @returns True if the statement should be preserved.
    */
-  private processMultilineBlock(buffer: string[], newContentPaths: Set<string>): string[] {
-    const fullBlock = buffer.join('\n');
-    const exportPath = extractExportPath(fullBlock);
-    if (!exportPath) {
-      // Failed to parse as export, preserve the lines
-      return buffer;
-    }
-    return this.shouldPreserveReExport(exportPath, newContentPaths) ? buffer : [];
+  private shouldPreserveStatement(
+    statement: BarrelModuleStatement,
+    newContentPaths: Set<string>,
+  ): boolean {
+    return (
+      isPinnedStatement(statement) ||
+      this.shouldPreserveReExport(statement.modulePath, newContentPaths)
+    );
   }
 
   /**
-   * Processes a single line for preservation in barrel content.
-   * @returns Lines to preserve (empty array if should be stripped).
+   * Widens the range of a removed statement over the spaces that follow it and, when nothing
+   * else follows on its line, over the spaces before it, so no stray indentation is left behind.
+   * @param text The existing content.
+   * @param statement The removed statement.
+   * @returns The start and end offsets to remove.
    */
-  private processSingleLine(
-    line: string,
-    trimmedLine: string,
-    newContentPaths: Set<string>,
-  ): string[] {
-    const exportPath = extractExportPath(trimmedLine);
-    if (exportPath) {
-      return this.shouldPreserveReExport(exportPath, newContentPaths) ? [line] : [];
+  private expandOverWhitespace(text: string, statement: BarrelModuleStatement): TextRange {
+    let { start, end } = statement;
+    while (isHorizontalWhitespace(text[end])) {
+      end++;
+    }
+    const endsLine = isLineBreak(text[end]);
+    while (endsLine && isHorizontalWhitespace(text[start - 1])) {
+      start--;
     }
-    // Non-export line: preserve if not empty
-    return trimmedLine.length > 0 ? [line] : [];
+    return [start, end];
   }
 
   /**
@@ -29,7 +29,7 @@ export interface ExportCacheFileSystem {
  * Minimal export parser interface required by ExportCache.
  */
 export interface ExportCacheParser {
-  extractExports(content: string): IParsedExport[];
+  extractExports(content: string, fileName?: string): IParsedExport[];
 }
 
 /**
@@ -87,7 +87,7 @@ export class ExportCache {
 
     // Parse and cache the exports
     const content = await this.fileSystemService.readFile(filePath);
-    const exports = this.exportParser.extractExports(content);
+    const exports = this.exportParser.extractExports(content, filePath);
 
     // Cache with modification time
     this.cache.set(filePath, { exports, mtime: currentMtime });
@@ -0,0 +1,389 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import {
+  type BarrelEntry,
+  BarrelEntryKind,
+  type BarrelExport,
+  BarrelExportKind,
+  DEFAULT_EXPORT_NAME,
+  ExportCollisionStrategy,
+  type IExportCollision,
+  type NamedBarrelExport,
+} from '../../types/index.js';
+import { sortAlphabetically } from '../../utils/string.js';
+
+/**
+ * A barrel entry for a file.
+ */
+type FileBarrelEntry = Extract<BarrelEntry, { kind: BarrelEntryKind.File }>;
+
+/**
+ * Export names that each subdirectory entry of a barrel makes available through `export *`,
+ * keyed by the entry's barrel-relative path.
+ */
+export type DirectoryExportNames = Map<string, ReadonlySet<string>>;
+
+/**
+ * Result of resolving the export name collisions of a barrel.
+ */
+export interface CollisionResolution {
+  /** The entries after the strategy has been applied. */
+  entries: Map<string, BarrelEntry>;
+  /** Every collision that was detected. */
+  collisions: IExportCollision[];
+  /** Collisions the strategy could not resolve because `export *` entries still forward the name. */
+  unresolved: IExportCollision[];
+}
+
+/**
+ * Returns the name under which a barrel export is made available.
+ * @param barrelExport The barrel export.
+ * @returns The alias when present, otherwise the export name (or `default`).
+ */
+function getExportedName(barrelExport: NamedBarrelExport): string {
+  if (barrelExport.alias) {
+    return barrelExport.alias;
+  }
+  return barrelExport.kind === BarrelExportKind.Default ? DEFAULT_EXPORT_NAME : barrelExport.name;
+}
+
+/**
+ * Returns the name a barrel export had before any alias was applied.
+ * @param barrelExport The barrel export.
+ * @returns The original export name (or `default`).
+ */
+export function getOriginalName(barrelExport: NamedBarrelExport): string {
+  return barrelExport.kind === BarrelExportKind.Default ? DEFAULT_EXPORT_NAME : barrelExport.name;
+}
+
+/**
+ * Checks whether a barrel export makes a single binding available.
+ * `export *` entries forward names that are not known without following the module,
+ * and side-effect imports export nothing.
+ * @param barrelExport The barrel export.
+ * @returns True for value, type and default exports; false for `export *` and side effects.
+ */
+export function isNamedExport(barrelExport: BarrelExport): barrelExport is NamedBarrelExport {
+  return (
+    barrelExport.kind !== BarrelExportKind.Star && barrelExport.kind !== BarrelExportKind.SideEffect
+  );
+}
+
+/**
+ * Checks whether a barrel export is re-exported through the `export * as` namespace of its file.
+ * Default exports and side-effect imports keep their own statements.
+ * @param barrelExport The barrel export.
+ * @returns True for value, type and `export *` exports.
+ */
+export function isNamespaceMember(barrelExport: BarrelExport): boolean {
+  return (
+    barrelExport.kind === BarrelExportKind.Value ||
+    barrelExport.kind === BarrelExportKind.Type ||
+    barrelExport.kind === BarrelExportKind.Star
+  );
+}
+
+/**
+ * Upper-cases the first character of a string.
+ * @param value The string.
+ * @returns The string with its first character upper-cased.
+ */
+function upperFirst(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Creates an alias for an export from the path of the module that exports it.
+ * PascalCase, camelCase and SCREAMING_CASE names keep their casing style.
+ * @param name The export name.
+ * @param relativePath The barrel-relative module path.
+ * @returns The alias.
+ */
+export function createCollisionAlias(name: string, relativePath: string): string {
+  const segments = relativePath
+    .replace(/\.[^./\\]+$/, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  const prefix = segments.map((segment) => upperFirst(segment)).join('');
+  return toIdentifier(joinAlias(name, prefix, segments));
+}
+
+/**
+ * Joins a path-derived prefix and an export name in the casing style of the name.
+ * @param name The export name.
+ * @param prefix The PascalCase prefix.
+ * @param segments The path segments the prefix was built from.
+ * @returns The alias.
+ */
+function joinAlias(name: string, prefix: string, segments: string[]): string {
+  if (name === DEFAULT_EXPORT_NAME) {
+    return prefix;
+  }
+  if (/^[A-Z][A-Z0-9_]*$/.test(name)) {
+    return [...segments.map((segment) => segment.toUpperCase()), name].join('_');
+  }
+  if (/^[a-z]/.test(name)) {
+    return prefix.charAt(0).toLowerCase() + prefix.slice(1) + upperFirst(name);
+  }
+  return prefix + upperFirst(name);
+}
+
+/**
+ * Makes an alias a valid identifier by prefixing it when it starts with a digit.
+ * @param alias The alias.
+ * @returns The identifier.
+ */
+function toIdentifier(alias: string): string {
+  return /^[0-9]/.test(alias) ? `_${alias}` : alias;
+}
+
+/**
+ * Detects export names exported by more than one module of a barrel and applies a
+ * collision strategy to them. Names pulled in through `export *` take part in detection,
+ * but only file exports can be dropped or aliased.
+ */
+export class ExportCollisionResolver {
+  /**
+   * Detects the export names that more than one entry of a barrel exports.
+   * @param entries The barrel entries keyed by barrel-relative path.
+   * @param directoryExports Names available through each subdirectory entry.
+   * @returns The collisions ordered by name, with sources in barrel order.
+   */
+  detect(
+    entries: Map<string, BarrelEntry>,
+    directoryExports: DirectoryExportNames,
+  ): IExportCollision[] {
+    const sourcesByName = new Map<string, string[]>();
+
+    for (const relativePath of sortAlphabetically(entries.keys())) {
+      const names = this.getEntryNames(relativePath, entries.get(relativePath)!, directoryExports);
+      for (const name of names) {
+        sourcesByName.set(name, [...(sourcesByName.get(name) ?? []), relativePath]);
+      }
+    }
+
+    return sortAlphabetically(sourcesByName.keys())
+      .map((name) => ({ name, sources: sourcesByName.get(name)! }))
+      .filter((collision) => collision.sources.length > 1);
+  }
+
+  /**
+   * Detects collisions and applies the strategy to them.
+   * The fail strategy leaves the entries untouched; callers decide how to report it.
+   * @param entries The barrel entries keyed by barrel-relative path.
+   * @param directoryExports Names available through each subdirectory entry.
+   * @param strategy The collision strategy.
+   * @returns The resolved entries with the detected and unresolved collisions.
+   */
+  resolve(
+    entries: Map<string, BarrelEntry>,
+    directoryExports: DirectoryExportNames,
+    strategy: ExportCollisionStrategy,
+  ): CollisionResolution {
+    const collisions = this.detect(entries, directoryExports);
+    if (strategy === ExportCollisionStrategy.Fail) {
+      return { entries, collisions, unresolved: collisions };
+    }
+
+    const resolved = new Map(entries);
+    const unresolved = collisions.filter(
+      (collision) => !this.applyStrategy(collision, resolved, strategy),
+    );
+    return { entries: resolved, collisions, unresolved };
+  }
+
+  /**
+   * Lists the names a barrel makes available to a parent barrel's `export *`.
+   * Default exports are not re-exported through `export *` and are left out.
+   * @param entries The barrel entries keyed by barrel-relative path.
+   * @param directoryExports Names available through each subdirectory entry.
+   * @returns The exported names.
+   */
+  getExportedNames(
+    entries: Map<string, BarrelEntry>,
+    directoryExports: DirectoryExportNames,
+  ): Set<string> {
+    const names = new Set<string>();
+    for (const [relativePath, entry] of entries) {
+      for (const name of this.getEntryNames(relativePath, entry, directoryExports)) {
+        names.add(name);
+      }
+    }
+    names.delete(DEFAULT_EXPORT_NAME);
+    return names;
+  }
+
+  /**
+   * Applies the strategy to one collision by dropping or aliasing file exports.
+   * @param collision The collision.
+   * @param entries The entries to update in place.
+   * @param strategy The collision strategy.
+   * @returns True if the collision is resolved; false if `export *` entries still forward the name.
+   */
+  private applyStrategy(
+    collision: IExportCollision,
+    entries: Map<string, BarrelEntry>,
+    strategy: ExportCollisionStrategy,
+  ): boolean {
+    const [, ...rest] = collision.sources;
+    const affected = strategy === ExportCollisionStrategy.KeepFirst ? rest : collision.sources;
+
+    collision.sources.forEach((source) => this.markExplicit(entries, source));
+    for (const relativePath of affected.filter((source) => this.isFile(entries, source))) {
+      this.updateFileExports(entries, relativePath, collision.name, strategy);
+    }
+
+    return this.isResolved(collision, entries, strategy);
+  }
+
+  /**
+   * Checks whether a strategy resolves a collision once file exports are dropped or aliased.
+   * Subdirectory entries forward every name through `export *`, so skipping a name fails while
+   * any of them exports it, and keeping one or aliasing fails while two of them do.
+   * @param collision The collision.
+   * @param entries The entries after the strategy was applied.
+   * @param strategy The collision strategy.
+   * @returns True if the name now reaches the barrel as the strategy intends.
+   */
+  private isResolved(
+    collision: IExportCollision,
+    entries: Map<string, BarrelEntry>,
+    strategy: ExportCollisionStrategy,
+  ): boolean {
+    if (
+      strategy === ExportCollisionStrategy.KeepFirst &&
+      this.isFile(entries, collision.sources[0])
+    ) {
+      return true;
+    }
+
+    const directorySources = collision.sources.filter((source) => !this.isFile(entries, source));
+    return directorySources.length < (strategy === ExportCollisionStrategy.SkipBoth ? 1 : 2);
+  }
+
+  /**
+   * Drops or aliases a colliding export of a file entry.
+   * A file re-exported as a namespace drops or aliases the namespace when it is the colliding
+   * name. Files involved in a collision are always listed by name.
+   * @param entries The entries to update in place.
+   * @param relativePath The barrel-relative path of the file entry.
+   * @param name The colliding export name.
+   * @param strategy The collision strategy.
+   */
+  private updateFileExports(
+    entries: Map<string, BarrelEntry>,
+    relativePath: string,
+    name: string,
+    strategy: ExportCollisionStrategy,
+  ): void {
+    const entry = entries.get(relativePath);
+    if (entry?.kind !== BarrelEntryKind.File) {
+      return;
+    }
+    if (entry.namespace === name) {
+      entries.set(relativePath, this.updateNamespace(entry, relativePath, strategy));
+      return;
+    }
+
+    const exports =
+      strategy === ExportCollisionStrategy.Alias
+        ? entry.exports.map((exp) =>
+            isNamedExport(exp) && getExportedName(exp) === name
+              ? { ...exp, alias: createCollisionAlias(getOriginalName(exp), relativePath) }
+              : exp,
+          )
+        : entry.exports.filter((exp) => !isNamedExport(exp) || getExportedName(exp) !== name);
+    entries.set(relativePath, { ...entry, exports, explicit: true });
+  }
+
+  /**
+   * Aliases the namespace of a file entry, or drops it together with the exports it wraps.
+   * @param entry The file entry re-exported as a namespace.
+   * @param relativePath The barrel-relative path of the file entry.
+   * @param strategy The collision strategy.
+   * @returns The updated entry.
+   */
+  private updateNamespace(
+    entry: FileBarrelEntry,
+    relativePath: string,
+    strategy: ExportCollisionStrategy,
+  ): FileBarrelEntry {
+    if (strategy === ExportCollisionStrategy.Alias) {
+      return { ...entry, namespace: createCollisionAlias(entry.namespace!, relativePath) };
+    }
+    const exports = entry.exports.filter((exp) => !isNamespaceMember(exp));
+    return { kind: BarrelEntryKind.File, exports, explicit: true };
+  }
+
+  /**
+   * Marks a file entry so its exports are listed by name.
+   * @param entries The entries to update in place.
+   * @param relativePath The barrel-relative path of the file entry.
+   */
+  private markExplicit(entries: Map<string, BarrelEntry>, relativePath: string): void {
+    const entry = entries.get(relativePath);
+    if (entry?.kind === BarrelEntryKind.File && !entry.namespace) {
+      entries.set(relativePath, { ...entry, explicit: true });
+    }
+  }
+
+  /**
+   * Checks whether an entry is a file entry.
+   * @param entries The barrel entries.
+   * @param relativePath The barrel-relative path of the entry.
+   * @returns True if the entry is a file entry; otherwise false.
+   */
+  private isFile(entries: Map<string, BarrelEntry>, relativePath: string): boolean {
+    return entries.get(relativePath)?.kind === BarrelEntryKind.File;
+  }
+
+  /**
+   * Lists the names an entry contributes to a barrel.
+   * @param relativePath The barrel-relative path of the entry.
+   * @param entry The entry.
+   * @param directoryExports Names available through each subdirectory entry.
+   * @returns The exported names.
+   */
+  private getEntryNames(
+    relativePath: string,
+    entry: BarrelEntry,
+    directoryExports: DirectoryExportNames,
+  ): Iterable<string> {
+    if (entry.namespace) {
+      return [entry.namespace, ...this.getDefaultNames(entry)];
+    }
+    if (entry.kind === BarrelEntryKind.Directory) {
+      return directoryExports.get(relativePath) ?? [];
+    }
+    return entry.exports.filter(isNamedExport).map((exp) => getExportedName(exp));
+  }
+
+  /**
+   * Lists the names of the default exports of a file entry, which a namespace does not wrap.
+   * @param entry The entry.
+   * @returns The exported names of the default exports.
+   */
+  private getDefaultNames(entry: BarrelEntry): string[] {
+    if (entry.kind === BarrelEntryKind.Directory) {
+      return [];
+    }
+    return entry.exports
+      .filter((exp): exp is NamedBarrelExport => exp.kind === BarrelExportKind.Default)
+      .map((exp) => getExportedName(exp));
+  }
+}
@@ -15,40 +15,142 @@
  *
  */
 
+import * as path from 'node:path';
+
+import { type Statement, ts } from 'ts-morph';
+
+import { COMPONENT_EXTENSIONS, TYPESCRIPT_EXPORT_EXTENSION } from '../../types/index.js';
+import { withSourceFile } from '../parser/source-file.js';
+
 /**
- * Regex pattern for extracting export paths from barrel export lines.
- * Uses non-greedy matching to handle comments containing closing braces.
- * Matches: export * from 'path', export { ... } from 'path', export type { ... } from 'path'
- * Handles comments between export parts and trailing line/block comments.
- * Supports exports with or without spaces (export{ or export {).
+ * A re-export or side-effect import found in barrel content, located by its offsets in the text.
  */
-const EXPORT_PATH_PATTERN =
-  /^export(?:\s+type)?\s*(?:\*|\{[\s\S]*?\})[\s\S]*?from\s*["']([^"']+)["']\s*;?\s*(?:\/\/.*|\/\*[\s\S]*?\*\/)?$/;
+export interface BarrelModuleStatement {
+  /** Module specifier as written, e.g. `./foo.js`. */
+  modulePath: string;
+  /** Whether the statement is a side-effect `import './x'` rather than a re-export. */
+  sideEffectImport: boolean;
+  /** Offset of the first character of the statement, after its leading comments. */
+  start: number;
+  /** Offset just past the statement and the comments that trail it on the same line. */
+  end: number;
+  /** Text of the comments on the lines before the statement. */
+  leadingComments: string[];
+}
 
 /**
- * Regex pattern for multiline export statements.
- * Uses non-greedy matching to handle comments containing closing braces.
- * Captures: export { ... } from 'path' or export type { ... } from 'path' spanning multiple lines.
- * Supports exports with or without spaces (export{ or export {).
+ * Checks whether the parser reported a syntax error inside a node.
+ * @param node The compiler node.
+ * @returns True if the node or any of its descendants has a syntax error.
  */
-const MULTILINE_EXPORT_PATTERN =
-  /^export(?:\s+type)?\s*\{[\s\S]*?\}[\s\S]*?from\s*["']([^"']+)["']\s*;?\s*(?:\/\/.*|\/\*[\s\S]*?\*\/)?$/s;
+function hasParseError(node: ts.Node): boolean {
+  if ((node.flags & ts.NodeFlags.ThisNodeHasError) !== 0) {
+    return true;
+  }
+  return ts.forEachChild(node, (child) => hasParseError(child) || undefined) ?? false;
+}
 
 /**
- * Extracts the export path from a barrel export line or multiline block.
+ * Returns the module specifier of a re-export (`export ... from`) or side-effect import.
+ * @param node The compiler node of a statement.
+ * @returns The module specifier expression, or undefined for other statements.
+ */
+function getModuleSpecifier(node: ts.Statement): ts.Expression | undefined {
+  if (ts.isExportDeclaration(node)) {
+    return node.moduleSpecifier;
+  }
+  return ts.isImportDeclaration(node) && !node.importClause ? node.moduleSpecifier : undefined;
+}
+
+/**
+ * Returns the module path of a well-formed re-export or side-effect import.
+ * @param node The compiler node of a statement.
+ * @returns The module path, or null for other or malformed statements.
+ */
+function getModulePath(node: ts.Statement): string | null {
+  const specifier = getModuleSpecifier(node);
+  if (!specifier || !ts.isStringLiteral(specifier) || hasParseError(node)) {
+    return null;
+  }
+  return specifier.text;
+}
+
+/**
+ * Returns the offset past the comments that trail a statement on its last line.
+ * @param text The full text of the barrel.
+ * @param end The end offset of the statement.
+ * @returns The end offset of the last trailing comment, or the statement end when there is none.
+ */
+function getEndWithTrailingComments(text: string, end: number): number {
+  return ts.getTrailingCommentRanges(text, end)?.at(-1)?.end ?? end;
+}
+
+/**
+ * Returns the text of the comments on the lines before a statement.
+ * @param text The full text of the barrel.
+ * @param fullStart The offset where the statement's leading trivia starts.
+ * @returns The comment texts, including their delimiters.
+ */
+function getLeadingComments(text: string, fullStart: number): string[] {
+  const ranges = ts.getLeadingCommentRanges(text, fullStart) ?? [];
+  return ranges.map((range) => text.slice(range.pos, range.end));
+}
+
+/**
+ * Locates a statement if it is a well-formed re-export or side-effect import.
+ * @param statement The statement.
+ * @param text The full text of the barrel.
+ * @returns The located statement, or null for other or malformed statements.
+ */
+function toModuleStatement(statement: Statement, text: string): BarrelModuleStatement | null {
+  const node = statement.compilerNode;
+  const modulePath = getModulePath(node);
+  if (modulePath === null) {
+    return null;
+  }
+  return {
+    modulePath,
+    sideEffectImport: ts.isImportDeclaration(node),
+    start: statement.getStart(),
+    end: getEndWithTrailingComments(text, statement.getEnd()),
+    leadingComments: getLeadingComments(text, statement.getFullStart()),
+  };
+}
+
+/**
+ * Finds the top-level re-exports and side-effect imports of barrel content by parsing it,
+ * so statements sharing a line, comments that look like exports, and multiline statements are
+ * all handled by the TypeScript parser.
+ * @param content The barrel content.
+ * @returns The statements in source order.
+ */
+export function findBarrelModuleStatements(content: string): BarrelModuleStatement[] {
+  return withSourceFile(content, 'index.ts', (sourceFile) =>
+    sourceFile
+      .getStatements()
+      .map((statement) => toModuleStatement(statement, content))
+      .filter((statement): statement is BarrelModuleStatement => statement !== null),
+  );
+}
+
+/**
+ * Extracts the module path of the first re-export in a line or multiline block.
  * @param text The text to parse (can be single line or multiline).
  * @returns The export path if found, otherwise null.
  */
 export function extractExportPath(text: string): string | null {
-  const normalized = text.trim();
-  // Try single-line pattern first (faster for common case)
-  const singleLineMatch = EXPORT_PATH_PATTERN.exec(normalized);
-  if (singleLineMatch) {
-    return singleLineMatch[1];
-  }
-  // Try multiline pattern (handles newlines within braces)
-  const multilineMatch = MULTILINE_EXPORT_PATTERN.exec(normalized);
-  return multilineMatch ? multilineMatch[1] : null;
+  const reExport = findBarrelModuleStatements(text).find((stmt) => !stmt.sideEffectImport);
+  return reExport?.modulePath ?? null;
+}
+
+/**
+ * Extracts the module path from a side-effect import line.
+ * @param line The line to parse.
+ * @returns The imported path if the line is a side-effect import, otherwise null.
+ */
+export function extractSideEffectImportPath(line: string): string | null {
+  const sideEffectImport = findBarrelModuleStatements(line).find((stmt) => stmt.sideEffectImport);
+  return sideEffectImport?.modulePath ?? null;
 }
 
 /**
@@ -59,7 +161,7 @@ export function extractExportPath(text: string): string | null {
  * @returns The normalized path without extension or /index suffix.
  */
 export function normalizeExportPath(exportPath: string): string {
-  return exportPath.replace(/\.(js|mjs|ts|tsx|mts|cts)$/, '').replace(/\/index$/, '');
+  return exportPath.replace(/\.(js|jsx|mjs|cjs|ts|tsx|mts|cts)$/, '').replace(/\/index$/, '');
 }
 
 /**
@@ -68,33 +170,55 @@ export function normalizeExportPath(exportPath: string): string {
  * removing /index suffixes (e.g., ./utils/index → ./utils) for consistent
  * comparison during deduplication.
  * @param content The barrel file content.
- * @returns Set of normalized module paths found in export statements.
+ * @returns Set of normalized module paths found in export statements and side-effect imports.
  */
 export function extractAllExportPaths(content: string): Set<string> {
-  const paths = new Set<string>();
-  const lines = content.trim().split('\n');
+  return new Set(
+    findBarrelModuleStatements(content).map((stmt) => normalizeExportPath(stmt.modulePath)),
+  );
+}
 
-  for (const line of lines) {
-    const exportPath = extractExportPath(line.trim());
-    if (!exportPath) {
-      continue;
-    }
+/**
+ * Checks if a line is a re-export statement.
+ * @param line The line to check.
+ * @returns True if the line is a re-export statement.
+ */
+export function isExportLine(line: string): boolean {
+  return extractExportPath(line) !== null;
+}
 
-    // Pre-normalize paths for efficient comparison
-    paths.add(normalizeExportPath(exportPath));
-  }
+/** Extension patterns keyed by the extension a specifier ends with. */
+const EXTENSION_PATTERNS: Record<string, string> = {
+  '.js': '.js',
+  '.jsx': '.js',
+  '.mjs': '.mjs',
+  '.cjs': '.cjs',
+  '.ts': TYPESCRIPT_EXPORT_EXTENSION,
+  '.tsx': TYPESCRIPT_EXPORT_EXTENSION,
+  '.mts': TYPESCRIPT_EXPORT_EXTENSION,
+  '.cts': TYPESCRIPT_EXPORT_EXTENSION,
+};
+
+/** Specifier extensions that module-only sources are exported with regardless of configuration. */
+const FIXED_SPECIFIER_EXTENSIONS: ReadonlySet<string> = new Set(['.mjs', '.cjs']);
 
-  return paths;
+/**
+ * Checks whether a module specifier imports a single-file component.
+ * @param modulePath The module specifier.
+ * @returns True if the specifier ends in a component extension; otherwise false.
+ */
+function isComponentPath(modulePath: string): boolean {
+  return COMPONENT_EXTENSIONS.some((extension) => modulePath.endsWith(extension));
 }
 
 /**
- * Checks if a line is an export statement using AST parsing.
- * @param line The line to check.
- * @returns True if the line is an export statement.
+ * Returns the extension pattern of a module specifier.
+ * @param exportPath The module specifier.
+ * @returns '.js', '.mjs', '.cjs', '.ts' for any TypeScript extension, or an empty string when
+ * the specifier has no extension.
  */
-export function isExportLine(line: string): boolean {
-  const path = extractExportPath(line);
-  return path !== null;
+function getSpecifierExtension(exportPath: string): string {
+  return EXTENSION_PATTERNS[path.posix.extname(exportPath).toLowerCase()] ?? '';
 }
 
 /**
@@ -104,70 +228,23 @@ export function isExportLine(line: string): boolean {
  */
 export function extractExtensionFromLine(line: string): string | null {
   const exportPath = extractExportPath(line);
-  if (!exportPath) {
-    return null;
-  }
-
-  if (exportPath.includes('.js')) {
-    return '.js';
-  }
-
-  if (exportPath.includes('.mjs')) {
-    return '.mjs';
-  }
-
-  // Export without extension
-  return '';
+  return exportPath === null ? null : getSpecifierExtension(exportPath);
 }
 
 /**
- * Detects the file extension pattern used in existing barrel content.
+ * Detects the file extension pattern used in existing barrel content from its first re-export.
+ * `.mts` and `.cts` sources are always exported as `.mjs` and `.cjs`, so those re-exports are
+ * only used when the barrel has no other. Components keep their own extension and are skipped.
  * @param content The barrel file content.
  * @returns The extension pattern used, or null if none detected.
  */
 export function detectExtensionFromBarrelContent(content: string): string | null {
-  const lines = content.trim().split('\n');
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!isExportLine(trimmedLine)) {
-      continue;
-    }
-
-    const extension = extractExtensionFromLine(trimmedLine);
-    if (extension !== null) {
-      return extension;
-    }
-  }
-
-  return null;
-}
-
-/**
- * Checks if a line closes a multiline export statement.
- * Simple heuristic check for performance since this is called per-line.
- * @param line The line to check.
- * @returns True if the line ends a multiline export.
- */
-export function isMultilineExportEnd(line: string): boolean {
-  // Quick heuristic: line contains } followed by from and a quote
-  return /\}\s*from\s*['"]/.test(line);
-}
-
-/**
- * Checks if a line starts a multiline export (opens but doesn't close on same line).
- * Simple heuristic check for performance since this is called per-line.
- * @param line The line to check.
- * @returns True if the line starts a multiline export.
- */
-export function isMultilineExportStart(line: string): boolean {
-  const trimmed = line.trim();
-
-  // Must start with export and contain opening brace
-  if (!/^export(?:\s+type)?\s*\{/.test(trimmed)) {
-    return false;
-  }
-
-  // If it already ends on the same line, it's not a multiline start
-  return !isMultilineExportEnd(trimmed);
+  const extensions = findBarrelModuleStatements(content)
+    .filter((stmt) => !stmt.sideEffectImport && !isComponentPath(stmt.modulePath))
+    .map((stmt) => getSpecifierExtension(stmt.modulePath));
+  return (
+    extensions.find((extension) => !FIXED_SPECIFIER_EXTENSIONS.has(extension)) ??
+    extensions[0] ??
+    null
+  );
 }
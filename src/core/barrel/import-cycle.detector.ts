@@ -0,0 +1,260 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+/**
+ * Minimal file system interface required by ImportCycleDetector.
+ */
+export interface ImportCycleFileSystem {
+  fileExists(filePath: string): Promise<boolean>;
+  readFile(filePath: string): Promise<string>;
+}
+
+/**
+ * Minimal import parser interface required by ImportCycleDetector.
+ */
+export interface ImportCycleParser {
+  extractModuleSpecifiers(content: string, fileName?: string): string[];
+}
+
+/** Source extensions tried for a relative import specifier, keyed by the specifier extension. */
+const SOURCE_EXTENSIONS_BY_SPECIFIER: Record<string, string[]> = {
+  '': ['.ts', '.tsx', '.js', '.jsx'],
+  '.js': ['.ts', '.tsx', '.js'],
+  '.jsx': ['.tsx', '.jsx'],
+  '.mjs': ['.mts', '.mjs'],
+  '.cjs': ['.cts', '.cjs'],
+};
+
+/** TypeScript extensions an import specifier may name its source file by. */
+const SOURCE_EXTENSION_PATTERN = /\.(?:tsx?|mts|cts)$/;
+
+/** Barrel filenames tried for a relative import specifier naming a directory. */
+const INDEX_FILENAMES = ['index.ts', 'index.tsx', 'index.js', 'index.mjs'];
+
+/**
+ * Builds the import graph of the files reachable from a barrel and finds the import
+ * cycles the barrel closes. Only relative imports that resolve to files inside the
+ * scope directory are followed.
+ */
+export class ImportCycleDetector {
+  private readonly specifierCache = new Map<string, Promise<string[]>>();
+  private readonly existenceCache = new Map<string, Promise<boolean>>();
+
+  /**
+   * Creates a new ImportCycleDetector instance.
+   * @param fileSystemService File system service for resolving and reading files.
+   * @param importParser Import parser for extracting module specifiers.
+   */
+  constructor(
+    private readonly fileSystemService: ImportCycleFileSystem,
+    private readonly importParser: ImportCycleParser,
+  ) {}
+
+  /**
+   * Finds the shortest import cycle that runs through a barrel with the given content.
+   * The content replaces whatever was read for the barrel before, so barrels planned
+   * earlier in a run are analyzed with their new content.
+   * @param barrelPath The barrel file path.
+   * @param content The content the barrel will have.
+   * @param scopePath Directory whose files take part in the import graph.
+   * @returns Promise resolving to the file paths along the cycle, starting and ending with
+   * the barrel, or undefined when the barrel closes no cycle.
+   */
+  async findCycle(
+    barrelPath: string,
+    content: string,
+    scopePath: string,
+  ): Promise<string[] | undefined> {
+    this.specifierCache.set(barrelPath, Promise.resolve(this.parseSpecifiers(barrelPath, content)));
+    const dependencies = await this.getDependencies(barrelPath, scopePath);
+    return this.findPathBack(barrelPath, dependencies, scopePath);
+  }
+
+  /**
+   * Clears the dependencies read so far.
+   */
+  clearCache(): void {
+    this.specifierCache.clear();
+    this.existenceCache.clear();
+  }
+
+  /**
+   * Searches the import graph breadth-first for the shortest path back to the barrel.
+   * @param barrelPath The barrel file path.
+   * @param dependencies The files the barrel imports.
+   * @param scopePath Directory whose files take part in the import graph.
+   * @returns Promise resolving to the cycle, or undefined when there is none.
+   */
+  private async findPathBack(
+    barrelPath: string,
+    dependencies: string[],
+    scopePath: string,
+  ): Promise<string[] | undefined> {
+    const previous = new Map<string, string>();
+    const queue: string[] = [];
+    const visit = (from: string, to: string): void => {
+      if (!previous.has(to)) {
+        previous.set(to, from);
+        queue.push(to);
+      }
+    };
+
+    dependencies.forEach((dependency) => visit(barrelPath, dependency));
+    for (const current of queue) {
+      if (current === barrelPath) {
+        return this.buildCyclePath(barrelPath, previous);
+      }
+      (await this.getDependencies(current, scopePath)).forEach((next) => visit(current, next));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Walks the predecessors recorded by the search back from the barrel to itself.
+   * @param barrelPath The barrel file path.
+   * @param previous The predecessor of every visited file.
+   * @returns The cycle, starting and ending with the barrel.
+   */
+  private buildCyclePath(barrelPath: string, previous: Map<string, string>): string[] {
+    const cyclePath = [barrelPath];
+    let current = previous.get(barrelPath)!;
+    while (current !== barrelPath) {
+      cyclePath.unshift(current);
+      current = previous.get(current)!;
+    }
+    cyclePath.unshift(barrelPath);
+    return cyclePath;
+  }
+
+  /**
+   * Gets the files inside the scope directory that a file imports.
+   * Specifiers are resolved on every call, because barrels planned later in the run
+   * can make a previously unresolved import resolvable.
+   * @param filePath The importing file path.
+   * @param scopePath Directory whose files take part in the import graph.
+   * @returns Promise resolving to the imported file paths.
+   */
+  private async getDependencies(filePath: string, scopePath: string): Promise<string[]> {
+    const specifiers = await this.getSpecifiers(filePath);
+    const resolved = await Promise.all(
+      specifiers.map((specifier) => this.resolveSpecifier(filePath, specifier)),
+    );
+    return resolved.filter(
+      (dependency): dependency is string =>
+        dependency !== undefined && this.isWithinScope(dependency, scopePath),
+    );
+  }
+
+  /**
+   * Gets the relative module specifiers of a file, reading and parsing it once per run.
+   * Files that cannot be read or parsed are treated as having no imports.
+   * @param filePath The file path.
+   * @returns Promise resolving to the relative module specifiers.
+   */
+  private getSpecifiers(filePath: string): Promise<string[]> {
+    let specifiers = this.specifierCache.get(filePath);
+    if (!specifiers) {
+      specifiers = this.fileSystemService
+        .readFile(filePath)
+        .then((content) => this.parseSpecifiers(filePath, content))
+        .catch(() => []);
+      this.specifierCache.set(filePath, specifiers);
+    }
+    return specifiers;
+  }
+
+  /**
+   * Parses the relative module specifiers of a file.
+   * @param filePath The file path.
+   * @param content The file content.
+   * @returns The relative module specifiers.
+   */
+  private parseSpecifiers(filePath: string, content: string): string[] {
+    return this.importParser
+      .extractModuleSpecifiers(content, filePath)
+      .filter((specifier) => specifier.startsWith('.'));
+  }
+
+  /**
+   * Resolves a relative import specifier to a source file or a planned barrel.
+   * @param filePath The importing file path.
+   * @param specifier The relative module specifier.
+   * @returns Promise resolving to the imported file path, or undefined if it does not exist.
+   */
+  private async resolveSpecifier(filePath: string, specifier: string): Promise<string | undefined> {
+    const basePath = path.resolve(path.dirname(filePath), specifier);
+    const candidates = [
+      ...(SOURCE_EXTENSION_PATTERN.test(basePath) ? [basePath] : []),
+      ...this.getSourceCandidates(basePath),
+      ...INDEX_FILENAMES.map((indexFilename) => path.join(basePath, indexFilename)),
+    ];
+
+    for (const candidate of candidates) {
+      if (await this.exists(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the source files a specifier path can name, in the order TypeScript resolves them.
+   * @param basePath The absolute specifier path.
+   * @returns The candidate source file paths.
+   */
+  private getSourceCandidates(basePath: string): string[] {
+    const extension = path.extname(basePath);
+    const sourceExtensions = SOURCE_EXTENSIONS_BY_SPECIFIER[extension];
+    if (!sourceExtensions) {
+      return SOURCE_EXTENSIONS_BY_SPECIFIER[''].map((ext) => basePath + ext);
+    }
+    const stem = basePath.slice(0, basePath.length - extension.length);
+    return sourceExtensions.map((ext) => stem + ext);
+  }
+
+  /**
+   * Checks whether a file exists on disk or is a barrel planned earlier in the run.
+   * @param filePath The file path.
+   * @returns Promise resolving to true if the file exists; otherwise false.
+   */
+  private async exists(filePath: string): Promise<boolean> {
+    if (this.specifierCache.has(filePath)) {
+      return true;
+    }
+
+    let exists = this.existenceCache.get(filePath);
+    if (!exists) {
+      exists = this.fileSystemService.fileExists(filePath);
+      this.existenceCache.set(filePath, exists);
+    }
+    return exists;
+  }
+
+  /**
+   * Checks whether a file lies inside the scope directory.
+   * @param filePath The file path.
+   * @param scopePath The scope directory.
+   * @returns True if the file is inside the scope directory; otherwise false.
+   */
+  private isWithinScope(filePath: string, scopePath: string): boolean {
+    const relativePath = path.relative(scopePath, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+  }
+}
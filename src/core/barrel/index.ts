@@ -14,8 +14,18 @@
  * limitations under the License.
  *
  */
+export { BarrelChangeSet } from './barrel-change-set.js';
 export { BarrelContentBuilder } from './barrel-content.builder.js';
+export {
+  applyBarrelDirectives,
+  type BarrelAliasDirective,
+  type BarrelDirectives,
+  isKeepDirective,
+  isPinnedStatement,
+  parseBarrelDirectives,
+} from './barrel-directives.js';
 export { BarrelFileGenerator } from './barrel-file.generator.js';
+export { formatStaleBarrel, formatStaleBarrels } from './barrel-verification.js';
 export { BarrelContentSanitizer, type SanitizationResult } from './content-sanitizer.js';
 export {
   type CachedExport,
@@ -25,12 +35,26 @@ export {
   type ExportCacheParser,
 } from './export-cache.js';
 export {
+  type CollisionResolution,
+  createCollisionAlias,
+  type DirectoryExportNames,
+  ExportCollisionResolver,
+  getOriginalName,
+  isNamedExport,
+} from './export-collision.resolver.js';
+export {
+  type BarrelModuleStatement,
   detectExtensionFromBarrelContent,
   extractAllExportPaths,
   extractExportPath,
   extractExtensionFromLine,
+  extractSideEffectImportPath,
+  findBarrelModuleStatements,
   isExportLine,
-  isMultilineExportEnd,
-  isMultilineExportStart,
   normalizeExportPath,
 } from './export-patterns.js';
+export {
+  ImportCycleDetector,
+  type ImportCycleFileSystem,
+  type ImportCycleParser,
+} from './import-cycle.detector.js';
@@ -0,0 +1,214 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+import {
+  type BarrelEntry,
+  BarrelEntryKind,
+  type BarrelExport,
+  BarrelExportKind,
+  DEFAULT_EXPORT_NAME,
+  type IParsedExport,
+  ParsedExportKind,
+} from '../../types/index.js';
+import { sortAlphabetically } from '../../utils/string.js';
+import { isNamespaceMember } from './export-collision.resolver.js';
+
+/**
+ * Exports each subdirectory barrel makes available, keyed by the entry's barrel-relative path.
+ * Undefined when the barrel forwards names with `export *` that are not known without following it.
+ */
+export type DirectoryExportLists = Map<string, BarrelExport[] | undefined>;
+
+/**
+ * Checks whether a file entry must list its exports by name, because some of them are left out,
+ * collide or are renamed, so `export *` or `export * as` would not re-export the same names.
+ * @param entry The entry.
+ * @returns True for file entries that must be listed by name; false otherwise.
+ */
+export function requiresNamedExports(entry: BarrelEntry): boolean {
+  if (entry.kind === BarrelEntryKind.Directory) {
+    return false;
+  }
+  return (
+    !!entry.explicit ||
+    entry.exports.some(
+      (exp) =>
+        (exp.kind === BarrelExportKind.Value || exp.kind === BarrelExportKind.Type) && !!exp.alias,
+    )
+  );
+}
+
+/**
+ * Creates the namespace name of an entry from its path: the file name without its extension,
+ * or the directory name, in camelCase. The casing of the first segment is kept.
+ * @param relativePath The barrel-relative path of the entry.
+ * @param kind The kind of the entry.
+ * @returns A valid identifier.
+ */
+export function createNamespaceName(relativePath: string, kind: BarrelEntryKind): string {
+  const baseName =
+    kind === BarrelEntryKind.File
+      ? path.basename(relativePath, path.extname(relativePath))
+      : path.basename(relativePath);
+  const [first = 'module', ...rest] = baseName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = [first, ...rest.map((segment) => segment[0].toUpperCase() + segment.slice(1))].join(
+    '',
+  );
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Re-exports subdirectories and files as namespaces named after their paths.
+ * Files that must be listed by name, and files without value, type or `export *` exports, keep
+ * their named statements.
+ * @param entries The entries of the barrel, updated in place.
+ */
+export function assignNamespaces(entries: Map<string, BarrelEntry>): void {
+  for (const [relativePath, entry] of entries) {
+    if (
+      entry.kind === BarrelEntryKind.File &&
+      (requiresNamedExports(entry) || !entry.exports.some((exp) => isNamespaceMember(exp)))
+    ) {
+      continue;
+    }
+    entries.set(relativePath, {
+      ...entry,
+      namespace: createNamespaceName(relativePath, entry.kind),
+    });
+  }
+}
+
+/**
+ * Lists the exports of subdirectory barrels by name instead of re-exporting them with `export *`.
+ * Names that a file or an earlier subdirectory of the barrel already exports are left out, so
+ * every name is exported once. Subdirectories whose exports are unknown keep `export *`.
+ * @param entries The entries of the barrel, updated in place.
+ * @param directoryExports The exports of each subdirectory barrel.
+ */
+export function listDirectoryExports(
+  entries: Map<string, BarrelEntry>,
+  directoryExports: DirectoryExportLists,
+): void {
+  const takenNames = new Set(
+    Array.from(entries.values())
+      .filter((entry) => entry.kind === BarrelEntryKind.File)
+      .flatMap((entry) => getForwardedExports(entry) ?? [])
+      .map((exp) => getListedName(exp)),
+  );
+
+  for (const relativePath of sortAlphabetically(entries.keys())) {
+    const entry = entries.get(relativePath)!;
+    const exports = directoryExports.get(relativePath);
+    if (entry.kind !== BarrelEntryKind.Directory || !exports) {
+      continue;
+    }
+    const listedExports = exports.filter((exp) => !takenNames.has(getListedName(exp)));
+    listedExports.forEach((exp) => takenNames.add(getListedName(exp)));
+    if (listedExports.length > 0) {
+      entries.set(relativePath, { ...entry, exports: listedExports });
+    }
+  }
+}
+
+/**
+ * Lists the exports a barrel makes available to a parent barrel, by their exported names.
+ * Default exports are left out, as `export *` leaves them out.
+ * @param entries The entries of the barrel.
+ * @returns The exports, or undefined when an entry forwards names that are not known.
+ */
+export function listForwardedExports(
+  entries: Map<string, BarrelEntry>,
+): BarrelExport[] | undefined {
+  const exports: BarrelExport[] = [];
+  for (const entry of entries.values()) {
+    const entryExports = getForwardedExports(entry);
+    if (!entryExports) {
+      return undefined;
+    }
+    exports.push(...entryExports);
+  }
+  return exports;
+}
+
+/**
+ * Converts the parsed exports of a barrel on disk to the exports it forwards to a parent barrel.
+ * @param parsedExports The exports parsed from the barrel.
+ * @returns The exports, or undefined when the barrel contains an `export *` line.
+ */
+export function toForwardedExports(parsedExports: IParsedExport[]): BarrelExport[] | undefined {
+  if (parsedExports.some((exp) => exp.kind === ParsedExportKind.Star)) {
+    return undefined;
+  }
+  return parsedExports
+    .filter((exp) => exp.name !== DEFAULT_EXPORT_NAME)
+    .map((exp) => ({
+      kind: exp.typeOnly ? BarrelExportKind.Type : BarrelExportKind.Value,
+      name: exp.name,
+    }));
+}
+
+/**
+ * Lists the exports an entry makes available under the names the barrel exports them as.
+ * A named default export becomes a value export of its name.
+ * @param entry The entry.
+ * @returns The exports, or undefined when the entry forwards names that are not known.
+ */
+function getForwardedExports(entry: BarrelEntry): BarrelExport[] | undefined {
+  const defaultExports = getNamedDefaultExports(entry);
+  if (entry.namespace) {
+    return [{ kind: BarrelExportKind.Value, name: entry.namespace }, ...defaultExports];
+  }
+  if (entry.kind === BarrelEntryKind.Directory) {
+    return entry.exports;
+  }
+  if (entry.exports.some((exp) => exp.kind === BarrelExportKind.Star)) {
+    return undefined;
+  }
+  const namedExports = entry.exports.flatMap((exp) =>
+    exp.kind === BarrelExportKind.Value || exp.kind === BarrelExportKind.Type
+      ? [{ kind: exp.kind, name: exp.alias ?? exp.name }]
+      : [],
+  );
+  return [...namedExports, ...defaultExports];
+}
+
+/**
+ * Lists the default exports of a file entry that are re-exported under a name, as value exports.
+ * @param entry The entry.
+ * @returns The value exports.
+ */
+function getNamedDefaultExports(entry: BarrelEntry): BarrelExport[] {
+  if (entry.kind === BarrelEntryKind.Directory) {
+    return [];
+  }
+  return entry.exports.flatMap((exp) =>
+    exp.kind === BarrelExportKind.Default && exp.alias
+      ? [{ kind: BarrelExportKind.Value, name: exp.alias }]
+      : [],
+  );
+}
+
+/**
+ * Returns the name under which a listed export is made available.
+ * @param barrelExport The export.
+ * @returns The export name, or an empty string for exports without a name.
+ */
+function getListedName(barrelExport: BarrelExport): string {
+  return 'name' in barrelExport ? (barrelExport.alias ?? barrelExport.name) : '';
+}
@@ -0,0 +1,75 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import { NEWLINE } from '../../types/constants.js';
+import type { BarrelEndOfLine, IBarrelFormatOptions } from '../../types/index.js';
+
+/** The quoted relative specifier and terminator that end every generated statement. */
+const GENERATED_SPECIFIER_PATTERN = /'(\.\/[^']*)';$/;
+
+/** An export list statement: its keyword, its specifiers and the module it re-exports. */
+const EXPORT_LIST_PATTERN = /^(export(?: type)?) \{ (.+) \} from (.+)$/;
+
+/**
+ * Applies the barrel formatting to a generated statement. Statements are generated with single
+ * quotes and semicolons; export lists longer than the print width are wrapped with one specifier
+ * per line, the way Prettier lays them out.
+ * @param statement The generated single-line statement.
+ * @param format The formatting of the barrel.
+ * @returns The formatted statement, which may span several lines.
+ */
+export function formatStatement(statement: string, format: IBarrelFormatOptions): string {
+  const terminator = format.semicolons ? ';' : '';
+  const formatted = statement.replace(
+    GENERATED_SPECIFIER_PATTERN,
+    (_match, specifier: string) => `${format.quote}${specifier}${format.quote}${terminator}`,
+  );
+
+  return formatted.length > format.printWidth ? wrapExportList(formatted, format) : formatted;
+}
+
+/**
+ * Wraps an export list statement with one specifier per line. Other statements cannot be
+ * wrapped and are returned unchanged.
+ * @param statement The formatted single-line statement.
+ * @param format The formatting of the barrel.
+ * @returns The wrapped statement.
+ */
+function wrapExportList(statement: string, format: IBarrelFormatOptions): string {
+  const match = EXPORT_LIST_PATTERN.exec(statement);
+  if (!match) {
+    return statement;
+  }
+
+  const [, keyword, specifiers, source] = match;
+  const separator = `,${NEWLINE}${format.indent}`;
+  const trailingComma = format.trailingComma ? ',' : '';
+  return [
+    `${keyword} {`,
+    `${format.indent}${specifiers.split(', ').join(separator)}${trailingComma}`,
+    `} from ${source}`,
+  ].join(NEWLINE);
+}
+
+/**
+ * Converts the line feeds of generated barrel content to the given line ending.
+ * @param content Barrel content with LF line endings.
+ * @param endOfLine The line ending to use.
+ * @returns The content with the given line endings.
+ */
+export function applyEndOfLine(content: string, endOfLine: BarrelEndOfLine): string {
+  return endOfLine === NEWLINE ? content : content.replaceAll(NEWLINE, endOfLine);
+}
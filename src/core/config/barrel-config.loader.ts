@@ -0,0 +1,231 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+import {
+  type BarrelDirectoryOptions,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  ImportCycleCheck,
+  SUPPORTED_SOURCE_EXTENSIONS,
+} from '../../types/index.js';
+import {
+  getErrorMessage,
+  isBoolean,
+  isObject,
+  isPositiveInteger,
+  isString,
+} from '../../utils/index.js';
+import { FileSystemService } from '../io/file-system.service.js';
+
+const BARREL_CONFIG_FILENAME = '.barrelrc.json';
+const PACKAGE_JSON_FILENAME = 'package.json';
+const PACKAGE_JSON_CONFIG_KEY = 'barrelRoll';
+
+type OptionValidator = (value: unknown) => boolean;
+
+/**
+ * Returns true when the value is an array of strings.
+ * @param value The value to check
+ * @returns True when the value is a string array; otherwise false.
+ */
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => isString(item));
+}
+
+/**
+ * Creates a validator accepting only the given string values.
+ * @param values The allowed values
+ * @returns A validator returning true for allowed values; otherwise false.
+ */
+function isOneOf(values: readonly string[]): OptionValidator {
+  return (value) => isString(value) && values.includes(value);
+}
+
+/**
+ * Creates a validator accepting arrays whose items all pass the given validator.
+ * @param validator The validator applied to every item
+ * @returns A validator returning true for arrays of valid items; otherwise false.
+ */
+function isArrayOf(validator: OptionValidator): OptionValidator {
+  return (value) => Array.isArray(value) && value.every((item) => validator(item));
+}
+
+// Validators for every option that may be set in a configuration file
+const OPTION_VALIDATORS: Record<keyof BarrelDirectoryOptions, OptionValidator> = {
+  indexFilename: isString,
+  exportExtension: isString,
+  sourceExtensions: isArrayOf(isOneOf(SUPPORTED_SOURCE_EXTENSIONS)),
+  maxDepth: isPositiveInteger,
+  concurrencyLimit: isPositiveInteger,
+  batchSize: isPositiveInteger,
+  include: isStringArray,
+  exclude: isStringArray,
+  parseMode: isOneOf(Object.values(ExportParseMode)),
+  ignoreTags: isStringArray,
+  collisionStrategy: isOneOf(Object.values(ExportCollisionStrategy)),
+  importCycleCheck: isOneOf(Object.values(ImportCycleCheck)),
+  outputStyle: isOneOf(Object.values(BarrelOutputStyle)),
+  grouping: isOneOf(Object.values(BarrelGrouping)),
+  header: isString,
+  respectGitignore: isBoolean,
+};
+
+/**
+ * Service that resolves per-directory barrel options from `.barrelrc.json` files
+ * and `barrelRoll` keys in `package.json`. Configuration files found in a directory
+ * and all of its ancestors are merged, with the nearest file taking precedence.
+ */
+export class BarrelConfigLoader {
+  private readonly fileSystemService: FileSystemService;
+  private readonly layerCache = new Map<string, Promise<BarrelDirectoryOptions>>();
+
+  /**
+   * Creates a new BarrelConfigLoader instance.
+   * @param fileSystemService Optional file system service instance.
+   */
+  constructor(fileSystemService?: FileSystemService) {
+    this.fileSystemService = fileSystemService || new FileSystemService();
+  }
+
+  /**
+   * Resolves the merged options that apply to a directory.
+   * @param directoryPath The directory to resolve options for.
+   * @returns The merged options from the nearest to the furthest configuration file.
+   * @throws Error if a configuration file is malformed.
+   */
+  async resolve(directoryPath: string): Promise<BarrelDirectoryOptions> {
+    const layers = await Promise.all(
+      this.getAncestorDirectories(directoryPath).map((directory) => this.readLayer(directory)),
+    );
+
+    // Layers are ordered nearest first, so merge from the furthest ancestor down
+    return layers.reduceRight<BarrelDirectoryOptions>(
+      (merged, layer) => ({ ...merged, ...layer }),
+      {},
+    );
+  }
+
+  /**
+   * Clears cached configuration so edited files are picked up on the next run.
+   */
+  clearCache(): void {
+    this.layerCache.clear();
+  }
+
+  /**
+   * Lists a directory and all of its ancestors, nearest first.
+   * @param directoryPath The starting directory.
+   * @returns Array of absolute directory paths.
+   */
+  private getAncestorDirectories(directoryPath: string): string[] {
+    const directories: string[] = [];
+    let current = path.resolve(directoryPath);
+
+    while (true) {
+      directories.push(current);
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return directories;
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * Reads the options defined directly in a directory, using the cache when available.
+   * @param directoryPath The directory to read configuration from.
+   * @returns The options defined in that directory.
+   */
+  private readLayer(directoryPath: string): Promise<BarrelDirectoryOptions> {
+    const cached = this.layerCache.get(directoryPath);
+    if (cached) {
+      return cached;
+    }
+
+    const layer = this.loadLayer(directoryPath);
+    this.layerCache.set(directoryPath, layer);
+    return layer;
+  }
+
+  /**
+   * Loads the options defined in a directory. `.barrelrc.json` takes precedence over `package.json`.
+   * @param directoryPath The directory to read configuration from.
+   * @returns The options defined in that directory.
+   */
+  private async loadLayer(directoryPath: string): Promise<BarrelDirectoryOptions> {
+    const packageJsonPath = path.join(directoryPath, PACKAGE_JSON_FILENAME);
+    const packageJson = await this.readJsonFile(packageJsonPath);
+    const packageOptions = isObject(packageJson)
+      ? this.validateOptions(packageJson[PACKAGE_JSON_CONFIG_KEY], packageJsonPath)
+      : {};
+
+    const rcPath = path.join(directoryPath, BARREL_CONFIG_FILENAME);
+    const rcOptions = this.validateOptions(await this.readJsonFile(rcPath), rcPath);
+
+    return { ...packageOptions, ...rcOptions };
+  }
+
+  /**
+   * Reads and parses a JSON file if it exists.
+   * @param filePath The JSON file path.
+   * @returns The parsed value, or undefined when the file does not exist.
+   * @throws Error if the file contains invalid JSON.
+   */
+  private async readJsonFile(filePath: string): Promise<unknown> {
+    if (!(await this.fileSystemService.fileExists(filePath))) {
+      return undefined;
+    }
+
+    const content = await this.fileSystemService.readFile(filePath);
+    try {
+      return JSON.parse(content) as unknown;
+    } catch (error) {
+      throw new Error(`Invalid barrel configuration in ${filePath}: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Picks the recognized options from a raw configuration value.
+   * Unknown keys are ignored so configuration files can carry unrelated settings.
+   * @param raw The raw configuration value.
+   * @param source The file the value was read from, used in error messages.
+   * @returns The validated options.
+   * @throws Error if a recognized option has an invalid value.
+   */
+  private validateOptions(raw: unknown, source: string): BarrelDirectoryOptions {
+    if (!isObject(raw)) {
+      return {};
+    }
+
+    const options: Record<string, unknown> = {};
+    for (const [key, validate] of Object.entries(OPTION_VALIDATORS)) {
+      if (raw[key] === undefined) {
+        continue;
+      }
+      if (!validate(raw[key])) {
+        throw new Error(`Invalid barrel configuration in ${source}: "${key}" has an invalid value`);
+      }
+      options[key] = raw[key];
+    }
+
+    return options as BarrelDirectoryOptions;
+  }
+}
@@ -0,0 +1,165 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import type * as prettier from 'prettier';
+
+import {
+  type BarrelEndOfLine,
+  CRLF,
+  DEFAULT_BARREL_FORMAT,
+  type IBarrelFormatOptions,
+  NEWLINE,
+} from '../../types/index.js';
+import { isBoolean, isPositiveInteger, isString } from '../../utils/index.js';
+
+/** Prettier's own defaults, which apply once a project opts into Prettier. */
+const PRETTIER_DEFAULTS: Readonly<IBarrelFormatOptions> = {
+  quote: '"',
+  semicolons: true,
+  printWidth: 80,
+  indent: '  ',
+  trailingComma: true,
+  endOfLine: NEWLINE,
+};
+
+const END_OF_LINES: Readonly<Record<string, BarrelEndOfLine>> = {
+  lf: NEWLINE,
+  crlf: CRLF,
+};
+
+type FormatOverrides = Partial<IBarrelFormatOptions>;
+
+type PrettierModule = typeof prettier;
+
+/** Loads Prettier, which ships next to the bundle instead of inside it. */
+export type PrettierLoader = () => Promise<PrettierModule>;
+
+const PRETTIER_FORMAT_READERS: ReadonlyArray<(options: prettier.Options) => FormatOverrides> = [
+  ({ singleQuote }) => (isBoolean(singleQuote) ? { quote: singleQuote ? "'" : '"' } : {}),
+  ({ semi }) => (isBoolean(semi) ? { semicolons: semi } : {}),
+  ({ printWidth }) => readPrintWidth(printWidth),
+  ({ trailingComma }) =>
+    isString(trailingComma) ? { trailingComma: trailingComma !== 'none' } : {},
+  ({ useTabs, tabWidth }) => readIndent(useTabs === true, tabWidth),
+  ({ endOfLine }) => readEndOfLine(endOfLine),
+];
+
+/**
+ * Resolves how generated barrels are formatted from the Prettier configuration and `.editorconfig`
+ * files that apply to them. Prettier resolves both, so every configuration format it supports,
+ * its `overrides` and its precedence over EditorConfig are honoured. Prettier is loaded on first
+ * use; when it cannot be loaded, barrels keep the extension's own style.
+ */
+export class BarrelFormatResolver {
+  private readonly loadPrettier: PrettierLoader;
+  private prettierModule?: Promise<PrettierModule | undefined>;
+
+  /**
+   * Creates a new BarrelFormatResolver instance.
+   * @param loadPrettier Optional loader for the Prettier module.
+   */
+  constructor(loadPrettier?: PrettierLoader) {
+    this.loadPrettier = loadPrettier || (() => import('prettier'));
+  }
+
+  /**
+   * Resolves the formatting of the barrel file at the given path. Without a Prettier
+   * configuration the extension's own style is the base; with one, Prettier's defaults are.
+   * @param barrelFilePath Absolute path of the barrel file.
+   * @returns The formatting options for the barrel.
+   */
+  async resolve(barrelFilePath: string): Promise<IBarrelFormatOptions> {
+    const prettier = await this.getPrettier();
+    if (!prettier) {
+      return { ...DEFAULT_BARREL_FORMAT };
+    }
+
+    const [options, configFilePath] = await Promise.all([
+      prettier.resolveConfig(barrelFilePath, { editorconfig: true }),
+      prettier.resolveConfigFile(barrelFilePath),
+    ]);
+    const base = configFilePath ? PRETTIER_DEFAULTS : DEFAULT_BARREL_FORMAT;
+
+    return { ...base, ...readFormat(options ?? {}) };
+  }
+
+  /**
+   * Clears Prettier's cached configuration files so changes on disk are picked up.
+   */
+  async clearCache(): Promise<void> {
+    await (await this.getPrettier())?.clearConfigCache();
+  }
+
+  /**
+   * Loads Prettier once per resolver.
+   * @returns The Prettier module, or undefined when it cannot be loaded.
+   */
+  private getPrettier(): Promise<PrettierModule | undefined> {
+    if (!this.prettierModule) {
+      this.prettierModule = this.loadPrettier().catch(() => undefined);
+    }
+    return this.prettierModule;
+  }
+}
+
+/**
+ * Combines the formatting overrides of every reader.
+ * @param options The resolved Prettier options.
+ * @returns The combined formatting.
+ */
+function readFormat(options: prettier.Options): FormatOverrides {
+  return PRETTIER_FORMAT_READERS.reduce<FormatOverrides>(
+    (format, read) => ({ ...format, ...read(options) }),
+    {},
+  );
+}
+
+/**
+ * Reads the print width, where EditorConfig's `max_line_length = off` resolves to Infinity.
+ * @param printWidth The `printWidth` value.
+ * @returns The print width override, if any.
+ */
+function readPrintWidth(printWidth: unknown): FormatOverrides {
+  if (printWidth === Number.POSITIVE_INFINITY) {
+    return { printWidth };
+  }
+
+  return isPositiveInteger(printWidth) ? { printWidth } : {};
+}
+
+/**
+ * Reads the indentation from a tab flag and a width.
+ * @param useTabs Whether tabs are used.
+ * @param width The number of spaces per level.
+ * @returns The indentation override, if any.
+ */
+function readIndent(useTabs: boolean, width: unknown): FormatOverrides {
+  if (useTabs) {
+    return { indent: '\t' };
+  }
+
+  return isPositiveInteger(width) ? { indent: ' '.repeat(width) } : {};
+}
+
+/**
+ * Reads the line ending from a Prettier `endOfLine` value.
+ * @param value The `endOfLine` value.
+ * @returns The line ending override, if any.
+ */
+function readEndOfLine(value: unknown): FormatOverrides {
+  const endOfLine = isString(value) ? END_OF_LINES[value] : undefined;
+  return endOfLine ? { endOfLine } : {};
+}
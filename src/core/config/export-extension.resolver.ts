@@ -0,0 +1,120 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import * as path from 'node:path';
+
+import { ts } from 'ts-morph';
+
+import { TYPESCRIPT_EXPORT_EXTENSION } from '../../types/index.js';
+
+/** Module resolution modes that require relative imports to name the emitted `.js` file. */
+const NODE_RESOLUTION_KINDS: ReadonlySet<ts.ModuleResolutionKind> = new Set([
+  ts.ModuleResolutionKind.Node16,
+  ts.ModuleResolutionKind.NodeNext,
+]);
+
+/** Module kinds whose default module resolution is one of the Node modes above. */
+const NODE_MODULE_KINDS: ReadonlySet<ts.ModuleKind> = new Set([
+  ts.ModuleKind.Node16,
+  ts.ModuleKind.Node18,
+  ts.ModuleKind.Node20,
+  ts.ModuleKind.NodeNext,
+]);
+
+/**
+ * Host that reads configuration files, including the ones they extend, without listing the
+ * project's source files.
+ */
+const CONFIG_PARSE_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  readDirectory: () => [],
+  fileExists: (fileName) => ts.sys.fileExists(fileName),
+  readFile: (fileName) => ts.sys.readFile(fileName),
+};
+
+/**
+ * Picks the export extension that compiles under the given compiler options.
+ * `allowImportingTsExtensions` keeps the source extensions, the `node16` and `nodenext` modes
+ * need the emitted `.js` extension, and every other mode (`bundler`, `node10`, `classic`)
+ * resolves extensionless specifiers.
+ * @param options The compiler options.
+ * @returns The export extension: '.ts', '.js' or ''.
+ */
+export function getExportExtensionForCompilerOptions(options: ts.CompilerOptions): string {
+  if (options.allowImportingTsExtensions) {
+    return TYPESCRIPT_EXPORT_EXTENSION;
+  }
+  const requiresExtension =
+    options.moduleResolution === undefined
+      ? NODE_MODULE_KINDS.has(options.module ?? ts.ModuleKind.None)
+      : NODE_RESOLUTION_KINDS.has(options.moduleResolution);
+  return requiresExtension ? '.js' : '';
+}
+
+/**
+ * Service that derives the export extension of a directory from its nearest `tsconfig.json`,
+ * following `extends`. Results are cached per directory until the cache is cleared.
+ */
+export class ExportExtensionResolver {
+  private readonly cache = new Map<string, string | undefined>();
+
+  /**
+   * Resolves the export extension for the barrel of a directory.
+   * @param directoryPath The barrel directory.
+   * @returns The export extension, or undefined when no readable tsconfig.json applies.
+   */
+  resolve(directoryPath: string): string | undefined {
+    if (!this.cache.has(directoryPath)) {
+      this.cache.set(directoryPath, this.readExportExtension(directoryPath));
+    }
+    return this.cache.get(directoryPath);
+  }
+
+  /**
+   * Clears cached results so edited configuration files are picked up on the next run.
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Reads the compiler options of the nearest tsconfig.json and picks the export extension.
+   * @param directoryPath The barrel directory.
+   * @returns The export extension, or undefined when no readable tsconfig.json applies.
+   */
+  private readExportExtension(directoryPath: string): string | undefined {
+    const configPath = ts.findConfigFile(directoryPath, (fileName) => ts.sys.fileExists(fileName));
+    if (!configPath) {
+      return undefined;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, (fileName) =>
+      ts.sys.readFile(fileName),
+    );
+    if (error) {
+      return undefined;
+    }
+
+    const { options } = ts.parseJsonConfigFileContent(
+      config,
+      CONFIG_PARSE_HOST,
+      path.dirname(configPath),
+      undefined,
+      configPath,
+    );
+    return getExportExtensionForCompilerOptions(options);
+  }
+}
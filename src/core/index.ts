@@ -15,5 +15,6 @@
  *
  */
 export * from './barrel/index.js';
+export * from './config/index.js';
 export * from './io/index.js';
 export * from './parser/index.js';
@@ -19,53 +19,16 @@ import { Dirent } from 'node:fs';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 
-import { INDEX_FILENAME } from '../../types/index.js';
+import {
+  DEFAULT_EXCLUDE_PATTERNS,
+  DEFAULT_INCLUDE_PATTERNS,
+  DEFAULT_SOURCE_EXTENSIONS,
+  type IFileDiscoveryOptions,
+  INDEX_FILENAME,
+} from '../../types/index.js';
 import { getErrorMessage } from '../../utils/index.js';
-
-const IGNORED_DIRECTORIES = new Set([
-  // Dependencies
-  'node_modules',
-  'bower_components',
-  // Version control
-  '.git',
-  '.svn',
-  '.hg',
-  // Build output
-  'dist',
-  'build',
-  'out',
-  'lib',
-  // IDE/Editor
-  '.vscode',
-  '.idea',
-  '.vs',
-  // Cache
-  '.cache',
-  '.turbo',
-  // Test directories
-  '__tests__',
-  '__mocks__',
-  '__fixtures__',
-  '__snapshots__',
-  '.vscode-test',
-  // Coverage
-  'coverage',
-  '.nyc_output',
-  // Storybook
-  '.storybook',
-  'storybook-static',
-  // Docs
-  'docs',
-  '.docusaurus',
-  // Temp
-  'tmp',
-  'temp',
-  // Vendor/public assets
-  'vendor',
-  'public',
-  'static',
-  'assets',
-]);
+import { GlobFilter } from './glob-filter.js';
+import { getBarrelFilenames, hasSourceExtension } from './source-extensions.js';
 
 /**
  * Normalizes a filename to lowercase for case-insensitive comparisons.
@@ -92,89 +55,106 @@ export class FileSystemService {
     this.fs = fsModule;
   }
   /**
-   * Gets all TypeScript files in a directory (excluding index.ts).
+   * Gets all source files in a directory (excluding the barrel file and excluded globs).
+   * Files are matched against the configured source extensions, TypeScript and JavaScript by default.
    * @param directoryPath The directory path to search
+   * @param options Optional discovery options (barrel filename, glob patterns, root path)
    * @returns Array of file paths
    */
-  async getTypeScriptFiles(directoryPath: string): Promise<string[]> {
+  async getTypeScriptFiles(
+    directoryPath: string,
+    options?: IFileDiscoveryOptions,
+  ): Promise<string[]> {
+    const filter = this.createGlobFilter(options);
+    const rootPath = options?.rootPath ?? directoryPath;
     const entries = await this.readDirectory(directoryPath);
-    return entries
-      .filter((entry) => this.isTypeScriptFile(entry))
-      .map((entry) => path.join(directoryPath, entry.name));
+    const filePaths = entries
+      .filter((entry) => this.isSourceFile(entry, options))
+      .map((entry) => path.join(directoryPath, entry.name))
+      .filter((filePath) => filter.isFileIncluded(path.relative(rootPath, filePath)));
+    return this.removeIgnoredPaths(filePaths, false, rootPath, options);
   }
 
   /**
-   * Gets subdirectories in a directory, excluding ignored folders.
+   * Gets subdirectories in a directory, excluding folders matched by exclude globs.
    * @param directoryPath The directory path to search
+   * @param options Optional discovery options (barrel filename, glob patterns, root path)
    * @returns Array of absolute subdirectory paths
    */
-  async getSubdirectories(directoryPath: string): Promise<string[]> {
+  async getSubdirectories(
+    directoryPath: string,
+    options?: IFileDiscoveryOptions,
+  ): Promise<string[]> {
+    const filter = this.createGlobFilter(options);
+    const rootPath = options?.rootPath ?? directoryPath;
     const entries = await this.readDirectory(directoryPath);
-    return entries
-      .filter((entry) => this.isTraversableDirectory(entry))
-      .map((entry) => path.join(directoryPath, entry.name));
+    const subdirectoryPaths = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => path.join(directoryPath, entry.name))
+      .filter((subdirectoryPath) =>
+        filter.isDirectoryIncluded(path.relative(rootPath, subdirectoryPath)),
+      );
+    return this.removeIgnoredPaths(subdirectoryPaths, true, rootPath, options);
   }
 
   /**
-   * Checks if a directory entry is a TypeScript file (excluding index.ts, definition files, and test files).
-   * @param entry The directory entry
-   * @returns True if it's a TypeScript file; otherwise, false
+   * Removes paths rejected by the ignore matcher, when one is provided.
+   * @param paths The absolute paths to filter
+   * @param isDirectory Whether the paths are directories
+   * @param rootPath The workspace root the matcher resolves ignore files from
+   * @param options Optional discovery options carrying the ignore matcher
+   * @returns The paths that are not ignored
    */
-  private isTypeScriptFile(entry: Dirent): boolean {
-    if (!entry.isFile()) return false;
-    if (this.shouldExcludeFile(entry.name)) return false;
-    return this.isTypeScriptExtension(entry.name);
-  }
+  private async removeIgnoredPaths(
+    paths: string[],
+    isDirectory: boolean,
+    rootPath: string,
+    options?: IFileDiscoveryOptions,
+  ): Promise<string[]> {
+    const ignoreMatcher = options?.ignoreMatcher;
+    if (!ignoreMatcher) {
+      return paths;
+    }
 
-  /**
-   * Checks if a file should be excluded from barrel exports.
-   * @param filename The filename to check
-   * @returns True if the file should be excluded; otherwise, false
-   */
-  private shouldExcludeFile(filename: string): boolean {
-    const normalized = normalizeCase(filename);
-    return (
-      normalized === normalizeCase(INDEX_FILENAME) ||
-      normalized.endsWith('.d.ts') ||
-      this.isTestFile(normalized)
+    const ignored = await Promise.all(
+      paths.map((targetPath) => ignoreMatcher.isIgnored(targetPath, isDirectory, rootPath)),
     );
+    return paths.filter((_, index) => !ignored[index]);
   }
 
   /**
-   * Checks if a filename has a TypeScript extension.
-   * @param filename The filename to check (should be normalized to lowercase)
-   * @returns True if it's a TypeScript file extension; otherwise, false
+   * Creates the glob filter for the given discovery options, falling back to the defaults.
+   * @param options Optional discovery options
+   * @returns The glob filter
    */
-  private isTypeScriptExtension(filename: string): boolean {
-    const normalized = normalizeCase(filename);
-    return normalized.endsWith('.ts') || normalized.endsWith('.tsx');
+  private createGlobFilter(options?: IFileDiscoveryOptions): GlobFilter {
+    return new GlobFilter(
+      options?.include ?? DEFAULT_INCLUDE_PATTERNS,
+      options?.exclude ?? DEFAULT_EXCLUDE_PATTERNS,
+    );
   }
 
   /**
-   * Checks if a filename represents a test file.
-   * @param filename The filename to check (should be normalized to lowercase)
-   * @returns True if it's a test file; otherwise, false
+   * Checks if a directory entry is a source file other than the barrel file.
+   * @param entry The directory entry
+   * @param options Discovery options carrying the barrel filename and source extensions
+   * @returns True if it's a source file; otherwise, false
    */
-  private isTestFile(filename: string): boolean {
-    const normalized = normalizeCase(filename);
-    return (
-      normalized.endsWith('.spec.ts') ||
-      normalized.endsWith('.test.ts') ||
-      normalized.endsWith('.spec.tsx') ||
-      normalized.endsWith('.test.tsx')
-    );
+  private isSourceFile(entry: Dirent, options: IFileDiscoveryOptions = {}): boolean {
+    if (!entry.isFile() || this.isBarrelFile(entry.name, options.indexFilename)) return false;
+    return hasSourceExtension(entry.name, options.sourceExtensions ?? DEFAULT_SOURCE_EXTENSIONS);
   }
 
   /**
-   * Determines if the entry is a traversable directory.
-   * @param entry The directory entry
-   * @returns True if the directory should be traversed; otherwise, false
+   * Checks if a filename is the barrel file, including the JavaScript barrel a
+   * JavaScript-only directory gets in place of a TypeScript one.
+   * @param filename The filename to check
+   * @param indexFilename The configured barrel filename
+   * @returns True if it's a barrel filename; otherwise, false
    */
-  private isTraversableDirectory(entry: Dirent): boolean {
-    const normalized = normalizeCase(entry.name);
-    return (
-      entry.isDirectory() && !IGNORED_DIRECTORIES.has(normalized) && !normalized.startsWith('.')
-    );
+  private isBarrelFile(filename: string, indexFilename = INDEX_FILENAME): boolean {
+    const normalized = normalizeCase(filename);
+    return getBarrelFilenames(indexFilename).some((name) => normalizeCase(name) === normalized);
   }
 
   /**
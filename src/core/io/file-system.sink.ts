@@ -0,0 +1,45 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { IBarrelFileChange, IBarrelOutputSink } from '../../types/index.js';
+
+/**
+ * Minimal file system interface required by FileSystemSink.
+ */
+export interface FileSystemSinkWriter {
+  writeFile(filePath: string, content: string): Promise<void>;
+}
+
+/**
+ * Output sink that writes each barrel change straight to disk.
+ */
+export class FileSystemSink implements IBarrelOutputSink {
+  /**
+   * Creates a new FileSystemSink instance.
+   * @param fileSystem File system used to write barrel files.
+   */
+  constructor(private readonly fileSystem: FileSystemSinkWriter) {}
+
+  /**
+   * Writes the new content of a barrel file.
+   * @param change The barrel change to write.
+   * @returns Promise that resolves when the file has been written.
+   */
+  async write(change: IBarrelFileChange): Promise<void> {
+    await this.fileSystem.writeFile(change.filePath, change.newContent);
+  }
+}
@@ -0,0 +1,197 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+import ignore, { type Ignore } from 'ignore';
+
+import type { IIgnoreMatcher } from '../../types/index.js';
+
+const GITIGNORE_FILENAME = '.gitignore';
+const GIT_DIRECTORY = '.git';
+
+/**
+ * Minimal file system interface required by GitignoreMatcher.
+ */
+export interface GitignoreFileSystem {
+  fileExists(filePath: string): Promise<boolean>;
+  readFile(filePath: string): Promise<string>;
+}
+
+/**
+ * Converts a platform path to the slash-separated form expected by gitignore rules.
+ * @param relativePath The platform-specific relative path.
+ * @returns The slash-separated path.
+ */
+function toGitPath(relativePath: string): string {
+  return relativePath.replaceAll('\\', '/');
+}
+
+/**
+ * Matches paths against the `.gitignore` files of a repository with full gitignore semantics
+ * (negation, anchoring and directory-only patterns). Rules from every `.gitignore` between the
+ * repository root and a path's parent directory apply, with deeper files taking precedence.
+ */
+export class GitignoreMatcher implements IIgnoreMatcher {
+  private readonly rulesCache = new Map<string, Promise<Ignore | undefined>>();
+  private readonly repositoryRootCache = new Map<string, Promise<string>>();
+
+  /**
+   * Creates a new GitignoreMatcher instance.
+   * @param fileSystem File system used to locate and read `.gitignore` files.
+   */
+  constructor(private readonly fileSystem: GitignoreFileSystem) {}
+
+  /**
+   * Checks whether a path is ignored by the applicable `.gitignore` files.
+   * @param targetPath The absolute path to check.
+   * @param isDirectory Whether the path is a directory (enables directory-only patterns).
+   * @param rootPath The workspace root; the enclosing repository root is located from here.
+   * @returns True if the path is ignored; otherwise false.
+   */
+  async isIgnored(targetPath: string, isDirectory: boolean, rootPath: string): Promise<boolean> {
+    const repositoryRoot = await this.getRepositoryRoot(rootPath);
+    let ignored = false;
+
+    for (const directory of this.getDirectoriesBetween(repositoryRoot, path.dirname(targetPath))) {
+      const rules = await this.getRules(directory);
+      if (rules) {
+        ignored = this.applyRules(
+          rules,
+          path.relative(directory, targetPath),
+          isDirectory,
+          ignored,
+        );
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * Applies one `.gitignore` file's rules on top of the decision made by its ancestors.
+   * @param rules The parsed rules.
+   * @param relativePath The path relative to the directory containing the `.gitignore`.
+   * @param isDirectory Whether the path is a directory.
+   * @param ignored Whether an ancestor `.gitignore` ignored the path.
+   * @returns True if the path is ignored after applying the rules; otherwise false.
+   */
+  private applyRules(
+    rules: Ignore,
+    relativePath: string,
+    isDirectory: boolean,
+    ignored: boolean,
+  ): boolean {
+    const gitPath = toGitPath(relativePath);
+    const result = rules.test(isDirectory ? `${gitPath}/` : gitPath);
+    return (ignored || result.ignored) && !result.unignored;
+  }
+
+  /**
+   * Clears cached rules so edited `.gitignore` files are picked up on the next run.
+   */
+  clearCache(): void {
+    this.rulesCache.clear();
+    this.repositoryRootCache.clear();
+  }
+
+  /**
+   * Lists the directories from the root down to the given directory, root first.
+   * @param rootDirectory The outermost directory.
+   * @param directoryPath The innermost directory.
+   * @returns The directories, or an empty array when the directory lies outside the root.
+   */
+  private getDirectoriesBetween(rootDirectory: string, directoryPath: string): string[] {
+    const relativePath = path.relative(rootDirectory, directoryPath);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return [];
+    }
+
+    const segments = relativePath ? relativePath.split(path.sep) : [];
+    return segments.reduce(
+      (directories, segment) => [...directories, path.join(directories.at(-1)!, segment)],
+      [rootDirectory],
+    );
+  }
+
+  /**
+   * Finds the repository root enclosing the workspace root so that `.gitignore` files above
+   * a nested workspace folder still apply. Falls back to the workspace root outside a repository.
+   * @param rootPath The workspace root.
+   * @returns The repository root, or the workspace root when no repository is found.
+   */
+  private getRepositoryRoot(rootPath: string): Promise<string> {
+    const cached = this.repositoryRootCache.get(rootPath);
+    if (cached) {
+      return cached;
+    }
+
+    const repositoryRoot = this.findRepositoryRoot(path.resolve(rootPath));
+    this.repositoryRootCache.set(rootPath, repositoryRoot);
+    return repositoryRoot;
+  }
+
+  /**
+   * Walks up from a directory looking for a `.git` entry.
+   * @param rootPath The directory to start from.
+   * @returns The nearest directory containing `.git`, or the starting directory if none exists.
+   */
+  private async findRepositoryRoot(rootPath: string): Promise<string> {
+    let current = rootPath;
+
+    while (!(await this.fileSystem.fileExists(path.join(current, GIT_DIRECTORY)))) {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return rootPath;
+      }
+      current = parent;
+    }
+
+    return current;
+  }
+
+  /**
+   * Gets the parsed rules of a directory's `.gitignore`, using the cache when available.
+   * @param directoryPath The directory that may contain a `.gitignore`.
+   * @returns The parsed rules, or undefined when the directory has no `.gitignore`.
+   */
+  private getRules(directoryPath: string): Promise<Ignore | undefined> {
+    const cached = this.rulesCache.get(directoryPath);
+    if (cached) {
+      return cached;
+    }
+
+    const rules = this.loadRules(directoryPath);
+    this.rulesCache.set(directoryPath, rules);
+    return rules;
+  }
+
+  /**
+   * Reads and parses a directory's `.gitignore`.
+   * @param directoryPath The directory that may contain a `.gitignore`.
+   * @returns The parsed rules, or undefined when the directory has no `.gitignore`.
+   */
+  private async loadRules(directoryPath: string): Promise<Ignore | undefined> {
+    const gitignorePath = path.join(directoryPath, GITIGNORE_FILENAME);
+    if (!(await this.fileSystem.fileExists(gitignorePath))) {
+      return undefined;
+    }
+
+    const content = await this.fileSystem.readFile(gitignorePath);
+    return ignore().add(content);
+  }
+}
@@ -0,0 +1,112 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { minimatch, type MinimatchOptions } from 'minimatch';
+
+const MATCH_OPTIONS: MinimatchOptions = { dot: true, nocase: true };
+
+/**
+ * A compiled glob pattern, with a leading `!` recorded as negation.
+ */
+interface CompiledPattern {
+  glob: string;
+  negated: boolean;
+}
+
+/**
+ * Compiles a list of glob patterns, splitting off negation prefixes.
+ * @param patterns The glob patterns to compile.
+ * @returns The compiled patterns in their original order.
+ */
+function compilePatterns(patterns: readonly string[]): CompiledPattern[] {
+  return patterns.map((pattern) =>
+    pattern.startsWith('!')
+      ? { glob: pattern.slice(1), negated: true }
+      : { glob: pattern, negated: false },
+  );
+}
+
+/**
+ * Converts a platform path to the slash-separated form used by glob patterns.
+ * @param relativePath The platform-specific relative path.
+ * @returns The slash-separated path.
+ */
+function toGlobPath(relativePath: string): string {
+  return relativePath.replaceAll('\\', '/');
+}
+
+/**
+ * Evaluates a path against an ordered pattern list where the last matching pattern wins.
+ * Negated patterns (`!pattern`) reverse the result of earlier matches.
+ * @param candidate The slash-separated path to test.
+ * @param patterns The compiled patterns.
+ * @returns True when the last matching pattern is not negated; otherwise false.
+ */
+function matchesPatternList(candidate: string, patterns: CompiledPattern[]): boolean {
+  let matched = false;
+
+  for (const { glob, negated } of patterns) {
+    if (minimatch(candidate, glob, MATCH_OPTIONS)) {
+      matched = !negated;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Decides which files and directories take part in barrel generation using include
+ * and exclude glob lists. Paths are matched relative to a root directory, usually the
+ * workspace folder, and matching is case-insensitive to mirror cross-platform file systems.
+ */
+export class GlobFilter {
+  private readonly include: CompiledPattern[];
+  private readonly exclude: CompiledPattern[];
+
+  /**
+   * Creates a new GlobFilter instance.
+   * @param include Patterns a file must match to be included.
+   * @param exclude Patterns for files and directories that are always skipped.
+   */
+  constructor(include: readonly string[], exclude: readonly string[]) {
+    this.include = compilePatterns(include);
+    this.exclude = compilePatterns(exclude);
+  }
+
+  /**
+   * Checks whether a file should be exported.
+   * @param relativePath The file path relative to the root directory.
+   * @returns True if the file matches an include pattern and no exclude pattern.
+   */
+  isFileIncluded(relativePath: string): boolean {
+    const candidate = toGlobPath(relativePath);
+    return (
+      matchesPatternList(candidate, this.include) && !matchesPatternList(candidate, this.exclude)
+    );
+  }
+
+  /**
+   * Checks whether a directory should be traversed. Include patterns only apply to files,
+   * so a directory is traversed unless it is excluded.
+   * @param relativePath The directory path relative to the root directory.
+   * @returns True if the directory does not match an exclude pattern.
+   */
+  isDirectoryIncluded(relativePath: string): boolean {
+    // A trailing slash lets both `dir` and `dir/**` style patterns match the directory itself
+    return !matchesPatternList(`${toGlobPath(relativePath)}/`, this.exclude);
+  }
+}
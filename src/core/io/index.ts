@@ -15,3 +15,12 @@
  *
  */
 export { FileSystemService } from './file-system.service.js';
+export { FileSystemSink, type FileSystemSinkWriter } from './file-system.sink.js';
+export { type GitignoreFileSystem, GitignoreMatcher } from './gitignore-matcher.js';
+export { GlobFilter } from './glob-filter.js';
+export {
+  getBarrelFilenames,
+  hasSourceExtension,
+  resolveBarrelFilename,
+  toSpecifierPath,
+} from './source-extensions.js';
@@ -0,0 +1,122 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import * as path from 'node:path';
+
+import { COMPONENT_EXTENSIONS, TYPESCRIPT_EXPORT_EXTENSION } from '../../types/index.js';
+
+/** Specifier extensions of scripts that can only be imported under a fixed extension. */
+const FIXED_SPECIFIER_EXTENSIONS: Record<string, string> = {
+  '.mts': '.mjs',
+  '.mjs': '.mjs',
+  '.cts': '.cjs',
+  '.cjs': '.cjs',
+};
+
+/** Source extensions that are plain JavaScript. */
+const JAVASCRIPT_EXTENSIONS: ReadonlySet<string> = new Set(['.js', '.jsx', '.mjs', '.cjs']);
+
+/** Source extensions whose barrel is written as TypeScript. */
+const TYPESCRIPT_EXTENSIONS: ReadonlySet<string> = new Set(['.ts', '.tsx', '.mts', '.cts']);
+
+/**
+ * Gets the lowercase extension of a file name.
+ * @param fileName The file name or path.
+ * @returns The extension, including the leading dot, or an empty string when there is none.
+ */
+function getExtension(fileName: string): string {
+  return path.extname(fileName).toLowerCase();
+}
+
+/**
+ * Gets the extension a script is imported by when its source extension is replaced.
+ * @param extension The lowercase source extension.
+ * @param exportExtension The configured export extension.
+ * @returns The fixed extension of module-only scripts, or the export extension.
+ */
+function getScriptSpecifierExtension(extension: string, exportExtension: string): string {
+  return FIXED_SPECIFIER_EXTENSIONS[extension] ?? exportExtension;
+}
+
+/**
+ * Checks whether a file has one of the given source extensions.
+ * @param fileName The file name or path.
+ * @param sourceExtensions The source extensions, including the leading dot.
+ * @returns True if the file is a source file; otherwise false.
+ */
+export function hasSourceExtension(fileName: string, sourceExtensions: readonly string[]): boolean {
+  const extension = getExtension(fileName);
+  return sourceExtensions.some((sourceExtension) => sourceExtension.toLowerCase() === extension);
+}
+
+/**
+ * Converts a source file path into the module path a barrel imports it by.
+ * `.mts` and `.mjs` files are always imported as `.mjs` and `.cts` and `.cjs` files as `.cjs`,
+ * components keep their own extension, and every other source takes the configured export
+ * extension, as `.ts` files do. The `.ts` export extension keeps every source extension.
+ * @param filePath The source file path.
+ * @param exportExtension The extension used for the other sources (e.g., '.js' or '').
+ * @returns The module path with the specifier extension.
+ */
+export function toSpecifierPath(filePath: string, exportExtension: string): string {
+  const extension = getExtension(filePath);
+  if (COMPONENT_EXTENSIONS.includes(extension)) {
+    return filePath;
+  }
+  if (!JAVASCRIPT_EXTENSIONS.has(extension) && !TYPESCRIPT_EXTENSIONS.has(extension)) {
+    return filePath + exportExtension;
+  }
+  if (exportExtension === TYPESCRIPT_EXPORT_EXTENSION) {
+    return filePath;
+  }
+  return (
+    filePath.slice(0, -extension.length) + getScriptSpecifierExtension(extension, exportExtension)
+  );
+}
+
+/**
+ * Gets the barrel filenames a directory may use for the configured barrel filename:
+ * the filename itself and, for a TypeScript barrel, the JavaScript barrels of JavaScript-only
+ * directories.
+ * @param indexFilename The configured barrel filename.
+ * @returns The barrel filenames.
+ */
+export function getBarrelFilenames(indexFilename: string): string[] {
+  if (!TYPESCRIPT_EXTENSIONS.has(getExtension(indexFilename))) {
+    return [indexFilename];
+  }
+  const { name } = path.parse(indexFilename);
+  return [indexFilename, `${name}.js`, `${name}.mjs`];
+}
+
+/**
+ * Resolves the barrel filename of a directory from its source files.
+ * A directory holding only JavaScript gets a JavaScript barrel in place of a TypeScript one:
+ * `index.mjs` when every file is an `.mjs` module and `index.js` otherwise.
+ * @param indexFilename The configured barrel filename.
+ * @param sourceFiles The source files of the directory.
+ * @returns The barrel filename.
+ */
+export function resolveBarrelFilename(indexFilename: string, sourceFiles: string[]): string {
+  const extensions = sourceFiles.map(getExtension);
+  const isJavaScriptOnly =
+    extensions.length > 0 && extensions.every((extension) => JAVASCRIPT_EXTENSIONS.has(extension));
+  if (!isJavaScriptOnly || !TYPESCRIPT_EXTENSIONS.has(getExtension(indexFilename))) {
+    return indexFilename;
+  }
+  const barrelExtension = extensions.every((extension) => extension === '.mjs') ? '.mjs' : '.js';
+  return path.parse(indexFilename).name + barrelExtension;
+}
@@ -0,0 +1,96 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import * as path from 'node:path';
+
+import type { ISourceFileHandler, ISourceModule } from '../../types/index.js';
+
+/** Matches a `<script>` block with its attributes and code. */
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+/** Matches the `lang` attribute of scripts written with JSX. */
+const JSX_LANG_PATTERN = /\blang\s*=\s*["']?[tj]sx\b/i;
+
+/** Matches the attribute of a Svelte script that runs once per module instead of per instance. */
+const SVELTE_MODULE_SCRIPT_PATTERN = /\bcontext\s*=\s*["']module["']|(?:^|\s)module(?=\s|=|$)/;
+
+/** Name given to components whose file name has no letters or digits. */
+const FALLBACK_COMPONENT_NAME = 'Component';
+
+/**
+ * Derives a PascalCase component name from a file name, e.g. `date-picker.vue` to `DatePicker`.
+ * @param filePath The component file path.
+ * @returns The component name, prefixed with `_` when it would start with a digit.
+ */
+export function toComponentName(filePath: string): string {
+  const name = path
+    .basename(filePath, path.extname(filePath))
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((segment) => segment.charAt(0).toUpperCase() + segment.slice(1))
+    .join('');
+  if (!name) {
+    return FALLBACK_COMPONENT_NAME;
+  }
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Handler for single-file components. The component is the default export of the file and is
+ * named after it; the named exports come from the `<script>` blocks the handler selects.
+ */
+export class ComponentFileHandler implements ISourceFileHandler {
+  /**
+   * Creates a new ComponentFileHandler instance.
+   * @param extensions Extensions of the component files.
+   * @param isModuleScript Decides from its attributes whether a script block declares exports.
+   */
+  constructor(
+    readonly extensions: readonly string[],
+    private readonly isModuleScript: (attributes: string) => boolean,
+  ) {}
+
+  /**
+   * Extracts the script code that declares the named exports of a component.
+   * @param content The component file content.
+   * @param filePath The component file path.
+   * @returns The script module of the component.
+   */
+  extractModule(content: string, filePath: string): ISourceModule {
+    const scripts = [...content.matchAll(SCRIPT_BLOCK_PATTERN)].filter(([, attributes]) =>
+      this.isModuleScript(attributes),
+    );
+    const usesJsx = scripts.some(([, attributes]) => JSX_LANG_PATTERN.test(attributes));
+    return {
+      code: scripts.map(([, , code]) => code).join('\n'),
+      fileName: `${filePath}${usesJsx ? '.tsx' : '.ts'}`,
+      defaultExportName: toComponentName(filePath),
+    };
+  }
+}
+
+/**
+ * Handlers for Vue, Svelte and Astro components. Every Vue script can declare exports; Svelte
+ * exports come from module scripts only, because `export` in an instance script declares a prop;
+ * Astro scripts run in the browser, so Astro components only export the component.
+ */
+export const DEFAULT_SOURCE_FILE_HANDLERS: readonly ISourceFileHandler[] = [
+  new ComponentFileHandler(['.vue'], () => true),
+  new ComponentFileHandler(['.svelte'], (attributes) =>
+    SVELTE_MODULE_SCRIPT_PATTERN.test(attributes),
+  ),
+  new ComponentFileHandler(['.astro'], () => false),
+];
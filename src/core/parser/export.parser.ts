@@ -15,26 +15,32 @@
  *
  */
 
+import * as path from 'node:path';
+
 import {
+  type BindingName,
   type ExportDeclaration,
   type ExportSpecifier,
+  type ImportEqualsDeclaration,
+  type ModuleDeclaration,
+  ModuleDeclarationKind,
   Node,
-  Project,
-  ScriptKind,
   type SourceFile,
   type Statement,
+  ts,
 } from 'ts-morph';
 
-import { DEFAULT_EXPORT_NAME, type IParsedExport } from '../../types/index.js';
-
-// Script kind mapping for file extensions
-const SCRIPT_KIND_MAP: Record<string, ScriptKind> = {
-  '.tsx': ScriptKind.TSX,
-  '.jsx': ScriptKind.JSX,
-  '.js': ScriptKind.JS,
-  '.mjs': ScriptKind.JS,
-  '.cjs': ScriptKind.JS,
-};
+import {
+  DEFAULT_EXPORT_NAME,
+  IGNORE_FILE_PRAGMA,
+  type IParsedExport,
+  type ISourceFileHandler,
+  type ISourceModule,
+  ParsedExportKind,
+  STAR_EXPORT_NAME,
+} from '../../types/index.js';
+import { DEFAULT_SOURCE_FILE_HANDLERS } from './component-file.handler.js';
+import { withSourceFile } from './source-file.js';
 
 /**
  * Service responsible for parsing TypeScript exports using the TypeScript AST.
@@ -43,37 +49,143 @@ const SCRIPT_KIND_MAP: Record<string, ScriptKind> = {
  * or regex literals.
  */
 export class ExportParser {
+  private readonly sourceFileHandlers: readonly ISourceFileHandler[];
+
+  /**
+   * Creates a new ExportParser instance.
+   * @param sourceFileHandlers Handlers for files that are not scripts, such as single-file
+   * components; defaults to the Vue, Svelte and Astro handlers.
+   */
+  constructor(sourceFileHandlers: readonly ISourceFileHandler[] = DEFAULT_SOURCE_FILE_HANDLERS) {
+    this.sourceFileHandlers = sourceFileHandlers;
+  }
+
   /**
    * Extracts all export statements from TypeScript code using AST parsing.
+   * Files read by a source file handler are parsed through the script module it extracts.
+   * Unaliased re-exports (export { foo } from './module') are skipped unless
+   * `includeReExports` is set, since the barrel already exports the module they forward.
    */
-  extractExports(content: string, fileName = 'temp.ts'): IParsedExport[] {
-    // Create a new project instance for each parsing operation to avoid memory accumulation
-    const project = new Project({
-      useInMemoryFileSystem: true,
-      compilerOptions: { allowJs: true, noEmit: true, skipLibCheck: true },
-    });
+  extractExports(content: string, fileName = 'temp.ts', includeReExports = false): IParsedExport[] {
+    const handler = this.findSourceFileHandler(fileName);
+    if (handler) {
+      return this.extractModuleExports(handler.extractModule(content, fileName), includeReExports);
+    }
+    return this.extractScriptExports(content, fileName, includeReExports);
+  }
 
-    const exportMap = new Map<string, IParsedExport>();
-    const sourceFile = project.createSourceFile(fileName, content, {
-      overwrite: true,
-      scriptKind: this.getScriptKind(fileName),
-    });
+  /**
+   * Checks whether a file is read by a source file handler instead of as a script.
+   * @param fileName The file name or path.
+   * @returns True if a handler reads the file; otherwise false.
+   */
+  hasSourceFileHandler(fileName: string): boolean {
+    return this.findSourceFileHandler(fileName) !== undefined;
+  }
 
-    try {
-      this.collectExportDeclarations(sourceFile, exportMap);
-      this.collectExportedStatements(sourceFile, exportMap);
-      return this.buildResult(sourceFile, exportMap);
-    } finally {
-      project.removeSourceFile(sourceFile);
+  /**
+   * Extracts the names a barrel file makes available, including unaliased re-exports
+   * (export { foo } from './module') that extractExports skips. `export *` lines are not followed.
+   */
+  extractBarrelExportNames(content: string, fileName = 'index.ts'): string[] {
+    return this.extractBarrelExports(content, fileName)
+      .filter((exp) => exp.kind !== ParsedExportKind.Star)
+      .map((exp) => exp.name);
+  }
+
+  /**
+   * Extracts the exports a barrel file makes available, including unaliased re-exports
+   * (export { foo } from './module') that extractExports skips. `export *` lines are kept as
+   * star exports without being followed.
+   */
+  extractBarrelExports(content: string, fileName = 'index.ts'): IParsedExport[] {
+    const reExports = withSourceFile(content, fileName, (sourceFile) =>
+      sourceFile.getExportDeclarations().flatMap((exportDecl) =>
+        exportDecl.getNamedExports().map((namedExport) => ({
+          name: namedExport.getAliasNode()?.getText() ?? namedExport.getName(),
+          typeOnly: exportDecl.isTypeOnly() || namedExport.isTypeOnly(),
+        })),
+      ),
+    );
+    const exports = this.extractExports(content, fileName).filter(
+      (exp) => exp.kind !== ParsedExportKind.Augmentation,
+    );
+    const exportsByName = new Map<string, IParsedExport>();
+    for (const exp of [...exports, ...reExports]) {
+      if (!exportsByName.has(exp.name)) {
+        exportsByName.set(exp.name, exp);
+      }
     }
+    return Array.from(exportsByName.values());
+  }
+
+  /**
+   * Finds the source file handler for a file by its extension.
+   * @param fileName The file name or path.
+   * @returns The handler, or undefined for script files.
+   */
+  private findSourceFileHandler(fileName: string): ISourceFileHandler | undefined {
+    const extension = path.extname(fileName).toLowerCase();
+    return this.sourceFileHandlers.find((handler) => handler.extensions.includes(extension));
+  }
+
+  /**
+   * Extracts the exports of an extracted script module. The module's own default export is
+   * replaced by the named default export the handler synthesized for the file.
+   * @param sourceModule The script module extracted by a source file handler.
+   * @param includeReExports Whether unaliased re-exports are kept.
+   * @returns The parsed exports.
+   */
+  private extractModuleExports(
+    sourceModule: ISourceModule,
+    includeReExports: boolean,
+  ): IParsedExport[] {
+    const namedExports = this.extractScriptExports(
+      sourceModule.code,
+      sourceModule.fileName,
+      includeReExports,
+    ).filter(
+      (exp) => exp.name !== DEFAULT_EXPORT_NAME && exp.kind !== ParsedExportKind.ExportAssignment,
+    );
+    return [
+      ...namedExports,
+      { name: sourceModule.defaultExportName, typeOnly: false, kind: ParsedExportKind.Component },
+    ];
+  }
+
+  /**
+   * Extracts the export statements of script code.
+   * @param content The script code.
+   * @param fileName The file name, which selects the script kind.
+   * @param includeReExports Whether unaliased re-exports are kept.
+   * @returns The parsed exports.
+   */
+  private extractScriptExports(
+    content: string,
+    fileName: string,
+    includeReExports: boolean,
+  ): IParsedExport[] {
+    return withSourceFile(content, fileName, (sourceFile) => {
+      if (this.hasIgnorePragma(sourceFile)) {
+        return [];
+      }
+      const exportMap = new Map<string, IParsedExport>();
+      this.collectExportDeclarations(sourceFile, exportMap, includeReExports);
+      this.collectExportedStatements(sourceFile, exportMap);
+      return [...this.buildResult(sourceFile, exportMap), ...this.collectAugmentations(sourceFile)];
+    });
   }
 
   /**
-   * Determines the script kind for a file based on its extension.
+   * Checks whether a comment in the file header, before the first statement, is the pragma that
+   * keeps the whole file out of barrels.
    */
-  private getScriptKind(fileName: string): ScriptKind {
-    const ext = Object.keys(SCRIPT_KIND_MAP).find((e) => fileName.endsWith(e));
-    return ext ? SCRIPT_KIND_MAP[ext] : ScriptKind.TS;
+  private hasIgnorePragma(sourceFile: SourceFile): boolean {
+    const text = sourceFile.getFullText();
+    const pragma = new RegExp(String.raw`^/[/*]\s*${IGNORE_FILE_PRAGMA}\b`);
+    return (ts.getLeadingCommentRanges(text, 0) ?? []).some((range) =>
+      pragma.test(text.slice(range.pos, range.end)),
+    );
   }
 
   /**
@@ -91,14 +203,15 @@ export class ExportParser {
   }
 
   /**
-   * Collects export declarations (export { ... } from ...) from the source file.
+   * Collects export declarations (export { ... } from ..., export * from ...) from the source file.
    */
   private collectExportDeclarations(
     sourceFile: SourceFile,
     exportMap: Map<string, IParsedExport>,
+    includeReExports: boolean,
   ): void {
     for (const exportDecl of sourceFile.getExportDeclarations()) {
-      this.processExportDeclaration(exportDecl, exportMap);
+      this.processExportDeclaration(exportDecl, exportMap, includeReExports);
     }
   }
 
@@ -108,13 +221,42 @@ export class ExportParser {
   private processExportDeclaration(
     exportDecl: ExportDeclaration,
     exportMap: Map<string, IParsedExport>,
+    includeReExports: boolean,
   ): void {
-    const hasModuleSpecifier = Boolean(exportDecl.getModuleSpecifier());
+    const skipsReExports = !includeReExports && Boolean(exportDecl.getModuleSpecifier());
     const isTypeOnly = exportDecl.isTypeOnly();
 
+    if (exportDecl.isNamespaceExport()) {
+      this.processStarExport(exportDecl, isTypeOnly, exportMap);
+      return;
+    }
+
     for (const namedExport of exportDecl.getNamedExports()) {
-      this.processNamedExport(namedExport, hasModuleSpecifier, isTypeOnly, exportMap);
+      this.processNamedExport(namedExport, skipsReExports, isTypeOnly, exportMap);
+    }
+  }
+
+  /**
+   * Records a star re-export (export * from ...) or namespace re-export (export * as ns from ...).
+   * Every star re-export of a file is recorded as a single entry, since one `export *` line
+   * of the file forwards all of them.
+   */
+  private processStarExport(
+    exportDecl: ExportDeclaration,
+    isTypeOnly: boolean,
+    exportMap: Map<string, IParsedExport>,
+  ): void {
+    const namespaceExport = exportDecl.getNamespaceExport();
+    if (namespaceExport) {
+      this.recordExport(
+        exportMap,
+        namespaceExport.getName(),
+        isTypeOnly,
+        ParsedExportKind.Namespace,
+      );
+      return;
     }
+    this.recordExport(exportMap, STAR_EXPORT_NAME, isTypeOnly, ParsedExportKind.Star);
   }
 
   /**
@@ -122,14 +264,14 @@ export class ExportParser {
    */
   private processNamedExport(
     namedExport: ExportSpecifier,
-    hasModuleSpecifier: boolean,
+    skipsReExports: boolean,
     isTypeOnly: boolean,
     exportMap: Map<string, IParsedExport>,
   ): void {
     const alias = namedExport.getAliasNode()?.getText();
 
     // Skip re-exports without aliases (export { foo } from './module')
-    if (this.isUnaliasedReExport(hasModuleSpecifier, alias)) {
+    if (this.isUnaliasedReExport(skipsReExports, alias)) {
       return;
     }
 
@@ -141,12 +283,13 @@ export class ExportParser {
   /**
    * Determines whether a named export is an unaliased re-export (export { foo } from ...).
    */
-  private isUnaliasedReExport(hasModuleSpecifier: boolean, alias: string | undefined): boolean {
-    return hasModuleSpecifier && !alias;
+  private isUnaliasedReExport(skipsReExports: boolean, alias: string | undefined): boolean {
+    return skipsReExports && !alias;
   }
 
   /**
-   * Collects exported statements such as types, classes, functions, enums, and variables.
+   * Collects exported statements such as types, classes, functions, enums, variables,
+   * namespaces, and `export import` aliases.
    */
   private collectExportedStatements(
     sourceFile: SourceFile,
@@ -158,7 +301,179 @@ export class ExportParser {
       this.processFunctionDeclaration(statement, exportMap);
       this.processEnumDeclaration(statement, exportMap);
       this.processVariableStatement(statement, exportMap);
+      this.processModuleDeclaration(statement, exportMap);
+      this.processImportEqualsDeclaration(statement, exportMap);
+      this.processExportAssignment(statement, exportMap);
+    }
+  }
+
+  /**
+   * Records exported namespaces (`export namespace A.B {}`) under their outermost name.
+   * A namespace that only declares types has no runtime value, so it is recorded as type-only.
+   * The export keyword is checked directly, since a namespace an `export import` alias refers to
+   * also counts as exported.
+   */
+  private processModuleDeclaration(stmt: Statement, map: Map<string, IParsedExport>): void {
+    if (!Node.isModuleDeclaration(stmt) || !stmt.hasExportKeyword() || this.isAugmentation(stmt)) {
+      return;
+    }
+    const [outermostName] = stmt.getName().split('.');
+    this.recordDeclaration(map, stmt, outermostName, this.isTypeOnlyNamespace(stmt));
+  }
+
+  /**
+   * Records `export import A = B.C` aliases. The alias is type-only when it is declared with
+   * `import type` or when the entity it names is declared as a type in the same file.
+   */
+  private processImportEqualsDeclaration(stmt: Statement, map: Map<string, IParsedExport>): void {
+    if (!Node.isImportEqualsDeclaration(stmt) || !stmt.isExported()) {
+      return;
     }
+    this.recordDeclaration(
+      map,
+      stmt,
+      stmt.getName(),
+      stmt.isTypeOnly() || this.aliasesLocalType(stmt),
+    );
+  }
+
+  /**
+   * Determines whether an `import A = B.C` alias names a type declared in its source file.
+   * Aliases of external modules and of entities declared elsewhere are treated as values.
+   */
+  private aliasesLocalType(declaration: ImportEqualsDeclaration): boolean {
+    const reference = declaration.getModuleReference();
+    if (Node.isExternalModuleReference(reference)) {
+      return false;
+    }
+    return this.resolvesToType(declaration.getSourceFile(), reference.getText().split('.'));
+  }
+
+  /**
+   * Follows a dotted entity name through the namespaces of a container and reports whether
+   * every declaration it ends at is a type.
+   */
+  private resolvesToType(container: SourceFile | ModuleDeclaration, names: string[]): boolean {
+    const [name, ...rest] = names;
+    const declarations = container
+      .getStatements()
+      .filter((stmt) => this.getDeclaredNames(stmt).includes(name));
+
+    if (rest.length === 0) {
+      return declarations.length > 0 && declarations.every((decl) => this.isTypeDeclaration(decl));
+    }
+    return declarations
+      .filter((decl): decl is ModuleDeclaration => Node.isModuleDeclaration(decl))
+      .some((namespace) => this.resolvesToTypeInNamespace(namespace, rest));
+  }
+
+  /**
+   * Continues a name lookup inside a namespace, consuming the inner segments of a dotted
+   * namespace declaration (`namespace A.B.C`) before descending into its body.
+   */
+  private resolvesToTypeInNamespace(namespace: ModuleDeclaration, names: string[]): boolean {
+    const innerNames = namespace.getName().split('.').slice(1);
+    const matchesInnerNames = innerNames.every((innerName, index) => names[index] === innerName);
+    const remaining = names.slice(innerNames.length);
+    return matchesInnerNames && remaining.length > 0 && this.resolvesToType(namespace, remaining);
+  }
+
+  /**
+   * Returns the names a statement declares in its scope.
+   */
+  private getDeclaredNames(stmt: Statement): string[] {
+    if (Node.isVariableStatement(stmt)) {
+      return stmt.getDeclarations().flatMap((decl) => this.getBoundNames(decl.getNameNode()));
+    }
+    if (Node.isModuleDeclaration(stmt)) {
+      return stmt.getName().split('.').slice(0, 1);
+    }
+    return Node.hasName(stmt) ? [stmt.getName()] : [];
+  }
+
+  /**
+   * Determines whether a declaration only exists at the type level.
+   */
+  private isTypeDeclaration(stmt: Statement): boolean {
+    if (Node.isInterfaceDeclaration(stmt) || Node.isTypeAliasDeclaration(stmt)) {
+      return true;
+    }
+    if (Node.isModuleDeclaration(stmt)) {
+      return this.isTypeOnlyNamespace(stmt);
+    }
+    return Node.isImportEqualsDeclaration(stmt) && stmt.isTypeOnly();
+  }
+
+  /**
+   * Determines whether a namespace is non-instantiated, that is, whether its body only declares
+   * types, type-only namespaces, and non-exported import aliases.
+   */
+  private isTypeOnlyNamespace(namespace: ModuleDeclaration): boolean {
+    return namespace
+      .getStatements()
+      .every(
+        (stmt) =>
+          this.isTypeDeclaration(stmt) ||
+          (Node.isImportEqualsDeclaration(stmt) && !stmt.isExported()),
+      );
+  }
+
+  /**
+   * Records `export =` assignments under the name of the assigned identifier, or as `default`
+   * when a value other than an identifier is assigned.
+   */
+  private processExportAssignment(stmt: Statement, map: Map<string, IParsedExport>): void {
+    if (!Node.isExportAssignment(stmt) || !stmt.isExportEquals()) {
+      return;
+    }
+    const expression = stmt.getExpression();
+    const name = Node.isIdentifier(expression) ? expression.getText() : DEFAULT_EXPORT_NAME;
+    this.recordExport(
+      map,
+      name,
+      false,
+      ParsedExportKind.ExportAssignment,
+      this.getJsDocTagNames(stmt),
+    );
+  }
+
+  /**
+   * Lists the `declare module 'x'` and `declare global` augmentations of a module, named after
+   * the module they augment. Ambient declarations in a script apply globally without being
+   * imported, so scripts report none.
+   */
+  private collectAugmentations(sourceFile: SourceFile): IParsedExport[] {
+    if (!ts.isExternalModule(sourceFile.compilerNode)) {
+      return [];
+    }
+    return sourceFile
+      .getStatements()
+      .filter((stmt): stmt is ModuleDeclaration => Node.isModuleDeclaration(stmt))
+      .filter((declaration) => this.isAugmentation(declaration))
+      .map((declaration) => ({
+        name: this.getAugmentedModuleName(declaration),
+        typeOnly: true,
+        kind: ParsedExportKind.Augmentation,
+      }));
+  }
+
+  /**
+   * Determines whether a module declaration augments the global scope or another module,
+   * as opposed to declaring a namespace.
+   */
+  private isAugmentation(declaration: ModuleDeclaration): boolean {
+    return (
+      declaration.getDeclarationKind() === ModuleDeclarationKind.Global ||
+      Node.isStringLiteral(declaration.getNameNode())
+    );
+  }
+
+  /**
+   * Returns the name of the module an augmentation applies to, or `global`.
+   */
+  private getAugmentedModuleName(declaration: ModuleDeclaration): string {
+    const nameNode = declaration.getNameNode();
+    return Node.isStringLiteral(nameNode) ? nameNode.getLiteralValue() : declaration.getName();
   }
 
   /**
@@ -166,10 +481,10 @@ export class ExportParser {
    */
   private processTypeDeclaration(stmt: Statement, map: Map<string, IParsedExport>): void {
     if (Node.isInterfaceDeclaration(stmt) && stmt.isExported()) {
-      this.recordExport(map, stmt.getName(), true);
+      this.recordDeclaration(map, stmt, stmt.getName(), true);
     }
     if (Node.isTypeAliasDeclaration(stmt) && stmt.isExported()) {
-      this.recordExport(map, stmt.getName(), true);
+      this.recordDeclaration(map, stmt, stmt.getName(), true);
     }
   }
 
@@ -182,7 +497,7 @@ export class ExportParser {
     }
     const name = stmt.getName();
     if (name) {
-      this.recordExport(map, name, false);
+      this.recordDeclaration(map, stmt, name, false);
     }
   }
 
@@ -195,7 +510,7 @@ export class ExportParser {
     }
     const name = stmt.getName();
     if (name) {
-      this.recordExport(map, name, false);
+      this.recordDeclaration(map, stmt, name, false);
     }
   }
 
@@ -204,22 +519,38 @@ export class ExportParser {
    */
   private processEnumDeclaration(stmt: Statement, map: Map<string, IParsedExport>): void {
     if (Node.isEnumDeclaration(stmt) && stmt.isExported()) {
-      this.recordExport(map, stmt.getName(), false);
+      this.recordDeclaration(map, stmt, stmt.getName(), false);
     }
   }
 
   /**
-   * Records exported variable declarations.
+   * Records exported variable declarations, including each identifier bound by destructuring.
    */
   private processVariableStatement(stmt: Statement, map: Map<string, IParsedExport>): void {
     if (!Node.isVariableStatement(stmt) || !stmt.isExported()) {
       return;
     }
     for (const decl of stmt.getDeclarations()) {
-      this.recordExport(map, decl.getName(), false);
+      for (const name of this.getBoundNames(decl.getNameNode())) {
+        this.recordDeclaration(map, stmt, name, false);
+      }
     }
   }
 
+  /**
+   * Returns the identifiers bound by a declaration name, walking object and array binding
+   * patterns, including nested patterns, defaults, rest elements, and array holes.
+   */
+  private getBoundNames(nameNode: BindingName): string[] {
+    if (Node.isIdentifier(nameNode)) {
+      return [nameNode.getText()];
+    }
+    const elements: Node[] = nameNode.getElements();
+    return elements.flatMap((element) =>
+      Node.isBindingElement(element) ? this.getBoundNames(element.getNameNode()) : [],
+    );
+  }
+
   /**
    * Checks whether the source file has any form of default export.
    */
@@ -272,11 +603,69 @@ export class ExportParser {
   }
 
   /**
-   * Inserts or merges an export entry, preserving type-only status.
+   * Records an export declared by a statement, carrying the JSDoc tags of the statement.
    */
-  private recordExport(map: Map<string, IParsedExport>, name: string, typeOnly: boolean): void {
+  private recordDeclaration(
+    map: Map<string, IParsedExport>,
+    stmt: Statement,
+    name: string,
+    typeOnly: boolean,
+  ): void {
+    this.recordExport(map, name, typeOnly, undefined, this.getJsDocTagNames(stmt));
+  }
+
+  /**
+   * Returns the names of the JSDoc block tags on a statement, without `@`.
+   */
+  private getJsDocTagNames(stmt: Statement): string[] {
+    if (!Node.isJSDocable(stmt)) {
+      return [];
+    }
+    return stmt
+      .getJsDocs()
+      .flatMap((doc) => doc.getTags())
+      .map((tag) => tag.getTagName());
+  }
+
+  /**
+   * Records an export, merging it with an earlier declaration of the same name. A merged export
+   * is only type-only when every declaration is, and carries the tags of all of them.
+   */
+  private recordExport(
+    map: Map<string, IParsedExport>,
+    name: string,
+    typeOnly: boolean,
+    kind?: ParsedExportKind,
+    tags: string[] = [],
+  ): void {
     const existing = map.get(name);
     const merged = existing ? existing.typeOnly && typeOnly : typeOnly;
-    map.set(name, { name, typeOnly: merged });
+    map.set(name, this.createParsedExport(name, merged, kind, this.mergeTags(existing, tags)));
+  }
+
+  /**
+   * Combines the tags of an earlier declaration with those of another, without duplicates.
+   */
+  private mergeTags(existing: IParsedExport | undefined, tags: string[]): string[] {
+    return [...new Set([...(existing?.tags ?? []), ...tags])];
+  }
+
+  /**
+   * Creates a parsed export, leaving out the kind and tags when there are none.
+   */
+  private createParsedExport(
+    name: string,
+    typeOnly: boolean,
+    kind: ParsedExportKind | undefined,
+    tags: string[],
+  ): IParsedExport {
+    const parsed: IParsedExport = { name, typeOnly };
+    if (kind) {
+      parsed.kind = kind;
+    }
+    if (tags.length > 0) {
+      parsed.tags = tags;
+    }
+    return parsed;
   }
 }
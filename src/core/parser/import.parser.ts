@@ -0,0 +1,76 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { ExportDeclaration, ImportDeclaration } from 'ts-morph';
+
+import { withSourceFile } from './source-file.js';
+
+/**
+ * Service responsible for parsing the modules a file imports using the TypeScript AST.
+ * Only static imports and re-exports that survive compilation are reported; type-only
+ * imports and exports are erased by the compiler and cannot take part in a runtime cycle.
+ */
+export class ImportParser {
+  /**
+   * Extracts the module specifiers of the runtime imports and re-exports of a file.
+   */
+  extractModuleSpecifiers(content: string, fileName = 'temp.ts'): string[] {
+    return withSourceFile(content, fileName, (sourceFile) => {
+      const imports = sourceFile
+        .getImportDeclarations()
+        .filter((importDecl) => !this.isTypeOnlyImport(importDecl))
+        .map((importDecl) => importDecl.getModuleSpecifierValue());
+      const reExports = sourceFile
+        .getExportDeclarations()
+        .filter((exportDecl) => !this.isTypeOnlyExport(exportDecl))
+        .map((exportDecl) => exportDecl.getModuleSpecifierValue())
+        .filter((specifier): specifier is string => specifier !== undefined);
+
+      return Array.from(new Set([...imports, ...reExports]));
+    });
+  }
+
+  /**
+   * Determines whether an import declaration only imports types.
+   */
+  private isTypeOnlyImport(importDecl: ImportDeclaration): boolean {
+    if (importDecl.isTypeOnly()) {
+      return true;
+    }
+
+    const namedImports = importDecl.getNamedImports();
+    const hasOtherBindings = Boolean(
+      importDecl.getDefaultImport() || importDecl.getNamespaceImport(),
+    );
+    return (
+      !hasOtherBindings &&
+      namedImports.length > 0 &&
+      namedImports.every((namedImport) => namedImport.isTypeOnly())
+    );
+  }
+
+  /**
+   * Determines whether an export declaration only re-exports types.
+   */
+  private isTypeOnlyExport(exportDecl: ExportDeclaration): boolean {
+    const namedExports = exportDecl.getNamedExports();
+    return (
+      exportDecl.isTypeOnly() ||
+      (namedExports.length > 0 && namedExports.every((namedExport) => namedExport.isTypeOnly()))
+    );
+  }
+}
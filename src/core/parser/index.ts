@@ -15,4 +15,12 @@
  *
  */
 
+export {
+  ComponentFileHandler,
+  DEFAULT_SOURCE_FILE_HANDLERS,
+  toComponentName,
+} from './component-file.handler.js';
 export { ExportParser } from './export.parser.js';
+export { ImportParser } from './import.parser.js';
+export { SemanticExportParser } from './semantic-export.parser.js';
+export { withSourceFile } from './source-file.js';
@@ -0,0 +1,176 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as path from 'node:path';
+
+import { type ExportSpecifier, Node, Project, type SourceFile, ts } from 'ts-morph';
+
+import type { IParsedExport } from '../../types/index.js';
+import { ExportParser } from './export.parser.js';
+
+/** Key of the project shared by files that have no tsconfig.json above them. */
+const DEFAULT_PROJECT_KEY = '';
+
+/**
+ * Checks whether a declaration only declares a type.
+ */
+function isTypeDeclaration(declaration: Node): boolean {
+  return Node.isInterfaceDeclaration(declaration) || Node.isTypeAliasDeclaration(declaration);
+}
+
+/**
+ * Returns the name under which an export specifier makes its symbol available.
+ */
+function getExportedName(specifier: ExportSpecifier): string {
+  return specifier.getAliasNode()?.getText() ?? specifier.getName();
+}
+
+/**
+ * Checks whether an unaliased re-export names a module in the given directory. That module is a
+ * member of the same barrel, which already exports the name from it.
+ */
+function isSiblingReExport(specifier: ExportSpecifier, directoryPath: string): boolean {
+  const targetFile = specifier.getExportDeclaration().getModuleSpecifierSourceFile();
+  if (!targetFile || specifier.getAliasNode()) {
+    return false;
+  }
+  return path.relative(directoryPath, path.dirname(targetFile.getFilePath())) === '';
+}
+
+/**
+ * Follows an export specifier through every re-export and import to the declarations it names.
+ * Names that do not resolve yield no declarations.
+ */
+function resolveDeclarations(specifier: ExportSpecifier): Node[] {
+  const symbol = specifier.getSymbol();
+  const target = symbol?.getAliasedSymbol() ?? symbol;
+  return target?.getDeclarations() ?? [];
+}
+
+/**
+ * Applies the declarations an export resolved to.
+ * Exports that are not named by an export specifier are declared in the file and kept as is.
+ */
+function applyResolution(
+  parsedExport: IParsedExport,
+  declarations: Node[] | undefined,
+): IParsedExport[] {
+  if (!declarations) {
+    return [parsedExport];
+  }
+  if (declarations.length === 0) {
+    return [];
+  }
+  const typeOnly = parsedExport.typeOnly || declarations.every(isTypeDeclaration);
+  return [{ ...parsedExport, typeOnly }];
+}
+
+/**
+ * Service that parses exports with the TypeScript type checker.
+ * Files are loaded into a ts-morph Project created from their nearest tsconfig.json and
+ * shared by every file using that configuration, so `export { x } from './y'` is resolved
+ * through real module resolution to the declaration of `x`.
+ */
+export class SemanticExportParser {
+  private readonly projects = new Map<string, Project>();
+  private readonly configPaths = new Map<string, string>();
+
+  /**
+   * Creates a new SemanticExportParser instance.
+   * @param exportParser Parser that lists the exports of a file before they are resolved.
+   */
+  constructor(private readonly exportParser: ExportParser = new ExportParser()) {}
+
+  /**
+   * Extracts the exports of a file and resolves each re-exported name to its declaration.
+   * Unaliased re-exports (export { foo } from './module') are kept, since their names can be
+   * resolved here, unless the module sits in the same directory and so in the same barrel.
+   * Names that resolve to interfaces or type aliases become type-only, and names that no longer
+   * resolve are dropped.
+   * @param filePath The absolute path of the file.
+   * @returns The resolved exports.
+   */
+  extractExports(filePath: string): IParsedExport[] {
+    const sourceFile = this.getSourceFile(filePath);
+    const specifiers = sourceFile
+      .getExportDeclarations()
+      .flatMap((exportDecl) => exportDecl.getNamedExports());
+    const siblingNames = new Set(
+      specifiers
+        .filter((specifier) => isSiblingReExport(specifier, path.dirname(filePath)))
+        .map((specifier) => getExportedName(specifier)),
+    );
+    const declarationsByName = new Map(
+      specifiers.map(
+        (specifier) => [getExportedName(specifier), resolveDeclarations(specifier)] as const,
+      ),
+    );
+
+    return this.exportParser
+      .extractExports(sourceFile.getFullText(), filePath, true)
+      .filter((parsedExport) => !siblingNames.has(parsedExport.name))
+      .flatMap((parsedExport) =>
+        applyResolution(parsedExport, declarationsByName.get(parsedExport.name)),
+      );
+  }
+
+  /**
+   * Releases every loaded project so the next run reads files from disk again.
+   */
+  clear(): void {
+    this.projects.clear();
+    this.configPaths.clear();
+  }
+
+  /**
+   * Loads a file into the project of its tsconfig.json.
+   */
+  private getSourceFile(filePath: string): SourceFile {
+    const project = this.getProject(filePath);
+    return project.getSourceFile(filePath) ?? project.addSourceFileAtPath(filePath);
+  }
+
+  /**
+   * Returns the project shared by files of the nearest tsconfig.json, creating it on first use.
+   * Files without a tsconfig.json share a project with the default compiler options.
+   */
+  private getProject(filePath: string): Project {
+    const key = this.findConfigPath(path.dirname(filePath));
+    let project = this.projects.get(key);
+    if (!project) {
+      project = key
+        ? new Project({ tsConfigFilePath: key, skipAddingFilesFromTsConfig: true })
+        : new Project({ compilerOptions: { allowJs: true, noEmit: true, skipLibCheck: true } });
+      this.projects.set(key, project);
+    }
+    return project;
+  }
+
+  /**
+   * Finds the nearest tsconfig.json at or above a directory, caching the result per directory.
+   */
+  private findConfigPath(directoryPath: string): string {
+    let configPath = this.configPaths.get(directoryPath);
+    if (configPath === undefined) {
+      configPath =
+        ts.findConfigFile(directoryPath, (fileName) => ts.sys.fileExists(fileName)) ??
+        DEFAULT_PROJECT_KEY;
+      this.configPaths.set(directoryPath, configPath);
+    }
+    return configPath;
+  }
+}
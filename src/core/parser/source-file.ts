@@ -0,0 +1,62 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { Project, ScriptKind, type SourceFile } from 'ts-morph';
+
+// Script kind mapping for file extensions
+const SCRIPT_KIND_MAP: Record<string, ScriptKind> = {
+  '.tsx': ScriptKind.TSX,
+  '.jsx': ScriptKind.JSX,
+  '.js': ScriptKind.JS,
+  '.mjs': ScriptKind.JS,
+  '.cjs': ScriptKind.JS,
+};
+
+/**
+ * Determines the script kind for a file based on its extension.
+ */
+function getScriptKind(fileName: string): ScriptKind {
+  const ext = Object.keys(SCRIPT_KIND_MAP).find((e) => fileName.endsWith(e));
+  return ext ? SCRIPT_KIND_MAP[ext] : ScriptKind.TS;
+}
+
+/**
+ * Parses content into a temporary source file and hands it to a callback.
+ * The source file is discarded once the callback returns.
+ */
+export function withSourceFile<T>(
+  content: string,
+  fileName: string,
+  callback: (sourceFile: SourceFile) => T,
+): T {
+  // Create a new project instance for each parsing operation to avoid memory accumulation
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { allowJs: true, noEmit: true, skipLibCheck: true },
+  });
+
+  const sourceFile = project.createSourceFile(fileName, content, {
+    overwrite: true,
+    scriptKind: getScriptKind(fileName),
+  });
+
+  try {
+    return callback(sourceFile);
+  } finally {
+    project.removeSourceFile(sourceFile);
+  }
+}
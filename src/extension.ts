@@ -18,14 +18,30 @@
 import * as path from 'node:path';
 
 import { BarrelFileGenerator } from './core/barrel/barrel-file.generator.js';
+import { formatStaleBarrels } from './core/barrel/barrel-verification.js';
 import { OutputChannelLogger } from './logging/output-channel.logger.js';
-import { BarrelGenerationMode, type IBarrelGenerationOptions } from './types/index.js';
+import {
+  BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  type IBarrelFileChange,
+  type IBarrelGenerationOptions,
+  ImportCycleCheck,
+} from './types/index.js';
 import { getErrorMessage } from './utils/index.js';
 import * as vscode from './vscode.js';
+import { ImportCycleDiagnostics } from './workspace/import-cycle.diagnostics.js';
+import { WorkspaceEditSink } from './workspace/workspace-edit.sink.js';
+
+const CONFIGURATION_SECTION = 'barrelRoll';
 
 type CommandDescriptor = {
   id: string;
   options: IBarrelGenerationOptions;
+  /** Whether the changes planned by a dry run are reported as stale barrels instead of previewed. */
+  verifies?: boolean;
   progressTitle: string;
   successMessage: string;
 };
@@ -85,6 +101,9 @@ class BarrelCommandQueue {
 
 const commandQueue = new BarrelCommandQueue();
 
+// Changes of the most recent generation run, kept so "Undo Barrel Roll" can revert them
+let lastRun: WorkspaceEditSink | undefined;
+
 /**
  * Activates the Barrel Roll extension.
  * @param context The extension context provided by VS Code.
@@ -97,7 +116,14 @@ export function activate(context: vscode.ExtensionContext) {
   OutputChannelLogger.configureOutputChannel(outputChannel);
   outputChannel.appendLine('Barrel Roll: logging initialized');
 
-  const generator = new BarrelFileGenerator();
+  const generator = new BarrelFileGenerator(
+    undefined,
+    undefined,
+    undefined,
+    new OutputChannelLogger(),
+  );
+  const diagnostics = new ImportCycleDiagnostics();
+  context.subscriptions.push(diagnostics);
 
   const descriptors: CommandDescriptor[] = [
     {
@@ -118,12 +144,36 @@ export function activate(context: vscode.ExtensionContext) {
       progressTitle: 'Barrel Roll: Updating barrels recursively...',
       successMessage: 'Barrel Roll: index.ts files updated recursively.',
     },
+    {
+      id: 'barrel-roll.previewBarrelRecursive',
+      options: {
+        recursive: true,
+        mode: BarrelGenerationMode.CreateOrUpdate,
+        dryRun: true,
+      },
+      progressTitle: 'Barrel Roll: Planning barrel changes...',
+      successMessage: 'Barrel Roll: Accepted barrel changes applied.',
+    },
+    {
+      id: 'barrel-roll.verifyBarrels',
+      options: {
+        recursive: true,
+        mode: BarrelGenerationMode.CreateOrUpdate,
+        dryRun: true,
+      },
+      verifies: true,
+      progressTitle: 'Barrel Roll: Verifying barrels...',
+      successMessage: 'Barrel Roll: All barrels are up to date.',
+    },
   ];
 
   for (const descriptor of descriptors) {
-    const disposable = registerBarrelCommand(generator, descriptor);
+    const disposable = registerBarrelCommand(generator, descriptor, diagnostics, outputChannel);
     context.subscriptions.push(disposable);
   }
+
+  lastRun = undefined;
+  context.subscriptions.push(registerUndoCommand());
 }
 
 /**
@@ -137,11 +187,15 @@ export function deactivate(): void {
  * Registers a barrel generation command with VS Code.
  * @param generator The barrel file generator instance.
  * @param descriptor The command descriptor containing options and messages.
+ * @param diagnostics Problems panel reporter for import cycles closed by generated barrels.
+ * @param outputChannel Output channel receiving the report of verification commands.
  * @returns A disposable for the registered command.
  */
 function registerBarrelCommand(
   generator: BarrelFileGenerator,
   descriptor: CommandDescriptor,
+  diagnostics: ImportCycleDiagnostics,
+  outputChannel: vscode.OutputChannel,
 ): vscode.Disposable {
   return vscode.commands.registerCommand(descriptor.id, async (uri?: vscode.Uri) => {
     try {
@@ -150,13 +204,28 @@ function registerBarrelCommand(
         return;
       }
 
+      const sink = new WorkspaceEditSink({ needsConfirmation: isPreview(descriptor) });
+      let changes: IBarrelFileChange[] = [];
       await commandQueue.enqueue(async () => {
-        await withProgress(descriptor.progressTitle, async () => {
-          await generator.generateBarrelFile(targetDirectory, descriptor.options);
-        });
+        diagnostics.clear();
+        changes = await withProgress(descriptor.progressTitle, () =>
+          generator.generateBarrelFile(
+            targetDirectory,
+            { ...readGenerationSettings(targetDirectory), ...descriptor.options },
+            sink,
+            diagnostics,
+          ),
+        );
+        if (writesImmediately(descriptor) && !(await applyRun(sink))) {
+          throw new Error('Unable to apply barrel changes to the workspace.');
+        }
       });
 
-      vscode.window.showInformationMessage(descriptor.successMessage);
+      if (descriptor.verifies) {
+        reportVerification(descriptor, changes, targetDirectory, outputChannel);
+        return;
+      }
+      await completeCommand(descriptor, changes, sink);
     } catch (error) {
       const message = getErrorMessage(error);
       vscode.window.showErrorMessage(`Barrel Roll: ${message}`);
@@ -164,6 +233,161 @@ function registerBarrelCommand(
   });
 }
 
+/**
+ * Registers the command that reverts the most recent generation run.
+ * @returns A disposable for the registered command.
+ */
+function registerUndoCommand(): vscode.Disposable {
+  return vscode.commands.registerCommand('barrel-roll.undoLastRun', async () => {
+    try {
+      const run = lastRun;
+      if (!run) {
+        vscode.window.showInformationMessage('Barrel Roll: Nothing to undo.');
+        return;
+      }
+
+      await commandQueue.enqueue(async () => {
+        if (!(await run.revert())) {
+          throw new Error('Unable to undo the last barrel run.');
+        }
+        lastRun = undefined;
+      });
+
+      vscode.window.showInformationMessage('Barrel Roll: Last barrel run undone.');
+    } catch (error) {
+      const message = getErrorMessage(error);
+      vscode.window.showErrorMessage(`Barrel Roll: ${message}`);
+    }
+  });
+}
+
+/**
+ * Checks whether a command applies its changes as soon as they are generated.
+ * Dry runs apply nothing; preview commands apply only the changes accepted afterwards.
+ * @param descriptor The command descriptor.
+ * @returns True if the generated changes are applied right away; otherwise false.
+ */
+function writesImmediately(descriptor: CommandDescriptor): boolean {
+  return descriptor.options.dryRun !== true;
+}
+
+/**
+ * Checks whether a command opens its planned changes in the refactor preview.
+ * @param descriptor The command descriptor.
+ * @returns True for dry runs that are not verifications; otherwise false.
+ */
+function isPreview(descriptor: CommandDescriptor): boolean {
+  return !writesImmediately(descriptor) && descriptor.verifies !== true;
+}
+
+/**
+ * Applies the changes of a generation run as one workspace edit and remembers them for undo.
+ * An applied run replaces the previously remembered one, even when it changed nothing.
+ * @param sink The sink holding the changes of the run.
+ * @returns Promise resolving to true if the edit was applied; otherwise false.
+ */
+async function applyRun(sink: WorkspaceEditSink): Promise<boolean> {
+  if (!(await sink.apply())) {
+    return false;
+  }
+
+  lastRun = sink.hasChanges() ? sink : undefined;
+  return true;
+}
+
+/**
+ * Reports the outcome of a command, opening the refactor preview for preview commands.
+ * @param descriptor The command descriptor containing options and messages.
+ * @param changes The barrel changes produced by the generator.
+ * @param sink The sink used for the run.
+ * @returns Promise that resolves when the outcome has been reported.
+ */
+async function completeCommand(
+  descriptor: CommandDescriptor,
+  changes: IBarrelFileChange[],
+  sink: WorkspaceEditSink,
+): Promise<void> {
+  if (!isPreview(descriptor)) {
+    vscode.window.showInformationMessage(descriptor.successMessage);
+    return;
+  }
+
+  if (changes.length === 0) {
+    vscode.window.showInformationMessage('Barrel Roll: No barrel changes to preview.');
+    return;
+  }
+
+  let applied = false;
+  await commandQueue.enqueue(async () => {
+    for (const change of changes) {
+      await sink.write(change);
+    }
+    applied = (await applyRun(sink)) && sink.hasChanges();
+  });
+  vscode.window.showInformationMessage(
+    applied ? descriptor.successMessage : 'Barrel Roll: Barrel preview discarded.',
+  );
+}
+
+/**
+ * Reports the outcome of a verification command.
+ * Stale and missing barrels are listed with a diff in the output channel, relative to the
+ * workspace folder of the target directory.
+ * @param descriptor The command descriptor containing options and messages.
+ * @param changes The barrels whose content differs from the generated content.
+ * @param targetDirectory The directory that was verified.
+ * @param outputChannel The output channel receiving the report.
+ */
+function reportVerification(
+  descriptor: CommandDescriptor,
+  changes: IBarrelFileChange[],
+  targetDirectory: vscode.Uri,
+  outputChannel: vscode.OutputChannel,
+): void {
+  if (changes.length === 0) {
+    vscode.window.showInformationMessage(descriptor.successMessage);
+    return;
+  }
+
+  const basePath =
+    vscode.workspace.getWorkspaceFolder(targetDirectory)?.uri.fsPath ?? targetDirectory.fsPath;
+  outputChannel.appendLine(formatStaleBarrels(changes, basePath));
+  outputChannel.show(true);
+  vscode.window.showWarningMessage(
+    `Barrel Roll: ${changes.length} barrel(s) are stale or missing. See the Barrel Roll output for details.`,
+  );
+}
+
+/**
+ * Reads the `barrelRoll.*` settings that apply to the given resource.
+ * Settings are resolved per resource so each workspace folder can use its own values,
+ * and glob patterns are matched relative to the folder that contains the resource.
+ * @param uri The target directory URI.
+ * @returns Generation options populated from workspace configuration.
+ */
+function readGenerationSettings(uri: vscode.Uri): IBarrelGenerationOptions {
+  const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION, uri);
+  return {
+    indexFilename: config.get<string>('indexFilename'),
+    exportExtension: config.get<string>('exportExtension'),
+    sourceExtensions: config.get<string[]>('sourceExtensions'),
+    maxDepth: config.get<number>('maxDepth'),
+    concurrencyLimit: config.get<number>('concurrencyLimit'),
+    batchSize: config.get<number>('batchSize'),
+    include: config.get<string[]>('include'),
+    exclude: config.get<string[]>('exclude'),
+    parseMode: config.get<ExportParseMode>('parseMode'),
+    ignoreTags: config.get<string[]>('ignoreTags'),
+    collisionStrategy: config.get<ExportCollisionStrategy>('collisionStrategy'),
+    importCycleCheck: config.get<ImportCycleCheck>('importCycleCheck'),
+    outputStyle: config.get<BarrelOutputStyle>('outputStyle'),
+    grouping: config.get<BarrelGrouping>('grouping'),
+    header: config.get<string>('header'),
+    respectGitignore: config.get<boolean>('respectGitignore'),
+    rootPath: vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath,
+  };
+}
+
 /**
  * Resolves the target directory for barrel generation from the provided URI or user prompt.
  * @param uri Optional URI from the command invocation.
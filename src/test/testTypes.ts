@@ -49,8 +49,9 @@ export function uriFile(fsPath: string): FakeUri {
 export type CommandHandler = (uri?: FakeUri) => unknown;
 
 export type TestWindowApi = {
-  createOutputChannel(name: string): { appendLine(value: string): void };
+  createOutputChannel(name: string): { appendLine(value: string): void; show(): void };
   showInformationMessage(message: string): unknown;
+  showWarningMessage(message: string): unknown;
   showErrorMessage(message: string): unknown;
   showOpenDialog(): Promise<FakeUri[] | undefined>;
   withProgress<T>(options: ProgressOptions, task: () => Promise<T>): Promise<T>;
@@ -60,7 +61,22 @@ export type TestCommandsApi = {
   registerCommand(command: string, handler: CommandHandler): { dispose(): void };
 };
 
-export type TestWorkspaceApi = { fs: { stat(uri: FakeUri): Promise<{ type: number }> } };
+export type TestConfiguration = { get<T>(key: string): T | undefined };
+
+export type TestWorkspaceApi = {
+  fs: { stat(uri: FakeUri): Promise<{ type: number }> };
+  getWorkspaceFolder(uri: FakeUri): { uri: FakeUri } | undefined;
+  getConfiguration(section: string, scope: FakeUri): TestConfiguration;
+  applyEdit(edit: unknown, metadata?: { isRefactoring?: boolean }): Promise<boolean>;
+  openTextDocument(uri: FakeUri): Promise<TestTextDocument>;
+  asRelativePath(filePath: string): string;
+};
+
+export type TestTextDocument = {
+  validateRange<T>(range: T): unknown;
+  getText(): string;
+  save(): Promise<boolean>;
+};
 
 export type ActivateFn = (context: ExtensionContext) => Promise<void> | void;
 export type DeactivateFn = () => void;
@@ -0,0 +1,135 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { CliCommand, parseCliArguments } from '../../../cli/cli-arguments.js';
+import {
+  BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  ImportCycleCheck,
+} from '../../../types/index.js';
+
+describe('parseCliArguments', () => {
+  const cwd = path.resolve('/work');
+
+  it('should show help when no command or the help flag is given', () => {
+    assert.strictEqual(parseCliArguments([], cwd).command, CliCommand.Help);
+    assert.strictEqual(parseCliArguments(['help'], cwd).command, CliCommand.Help);
+    assert.strictEqual(parseCliArguments(['generate', '--help'], cwd).command, CliCommand.Help);
+  });
+
+  it('should resolve the directory and only pass the options that were given', () => {
+    const invocation = parseCliArguments(['generate', 'src', '--recursive'], cwd);
+
+    assert.deepStrictEqual(invocation, {
+      command: CliCommand.Generate,
+      directory: path.join(cwd, 'src'),
+      options: { recursive: true },
+      check: false,
+    });
+  });
+
+  it('should leave the glob root to the runner when no root is given', () => {
+    const invocation = parseCliArguments(['generate', '../pkg/src'], path.join(cwd, 'other'));
+
+    assert.strictEqual(invocation.directory, path.join(cwd, 'pkg', 'src'));
+    assert.strictEqual(invocation.options.rootPath, undefined);
+  });
+
+  it('should map every flag to its generation option', () => {
+    const invocation = parseCliArguments(
+      [
+        'generate',
+        '-r',
+        '--mode',
+        'updateExisting',
+        '--root',
+        'packages/app',
+        '--index-filename',
+        'barrel.ts',
+        '--export-extension',
+        '',
+        '--parse-mode',
+        'semantic',
+        '--collision-strategy',
+        'alias',
+        '--import-cycle-check',
+        'fail',
+        '--output-style',
+        'wildcard',
+        '--grouping',
+        'folder',
+        '--header',
+        '// @generated by barrel-roll',
+        '--no-gitignore',
+      ],
+      cwd,
+    );
+
+    assert.deepStrictEqual(invocation.options, {
+      recursive: true,
+      mode: BarrelGenerationMode.UpdateExisting,
+      indexFilename: 'barrel.ts',
+      exportExtension: '',
+      parseMode: ExportParseMode.Semantic,
+      collisionStrategy: ExportCollisionStrategy.Alias,
+      importCycleCheck: ImportCycleCheck.Fail,
+      outputStyle: BarrelOutputStyle.Wildcard,
+      grouping: BarrelGrouping.Folder,
+      header: '// @generated by barrel-roll',
+      respectGitignore: false,
+      rootPath: path.join(cwd, 'packages', 'app'),
+    });
+    assert.strictEqual(invocation.directory, cwd);
+  });
+
+  it('should map the check and preview flags to a dry run of the selected mode', () => {
+    const check = parseCliArguments(['generate', '--check', '--mode', 'updateExisting'], cwd);
+    const preview = parseCliArguments(['generate', '--preview'], cwd);
+
+    assert.deepStrictEqual(check.options, {
+      recursive: false,
+      mode: BarrelGenerationMode.UpdateExisting,
+      dryRun: true,
+    });
+    assert.strictEqual(check.check, true);
+    assert.deepStrictEqual(preview.options, { recursive: false, dryRun: true });
+    assert.strictEqual(preview.check, false);
+    assert.throws(
+      () => parseCliArguments(['generate', '--check', '--preview'], cwd),
+      /--check cannot be combined with --preview\./,
+    );
+  });
+
+  it('should reject unknown commands, values and extra directories', () => {
+    assert.throws(() => parseCliArguments(['build'], cwd), /Unknown command "build"/);
+    assert.throws(
+      () => parseCliArguments(['generate', '--mode', 'fast'], cwd),
+      /Invalid value for --mode: "fast"\. Expected one of: createOrUpdate, updateExisting\./,
+    );
+    assert.throws(
+      () => parseCliArguments(['generate', 'src', 'lib'], cwd),
+      /Unexpected argument "lib"/,
+    );
+  });
+});
@@ -0,0 +1,167 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { runCli } from '../../../cli/cli.runner.js';
+import { FileSystemService } from '../../../core/io/file-system.service.js';
+import { INDEX_FILENAME } from '../../../types/index.js';
+
+describe('runCli', () => {
+  let tmpDir: string;
+  let fileSystem: FileSystemService;
+  let logs: string[];
+  let errors: string[];
+
+  /**
+   * Runs the CLI in the temporary directory and captures its output.
+   */
+  function run(argv: string[]): Promise<number> {
+    return runCli(argv, {
+      cwd: tmpDir,
+      output: { log: (message) => logs.push(message), error: (message) => errors.push(message) },
+    });
+  }
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-cli-'));
+    logs = [];
+    errors = [];
+    await fileSystem.ensureDirectory(path.join(tmpDir, 'src', 'utils'));
+    await fileSystem.writeFile(path.join(tmpDir, 'src', 'alpha.ts'), 'export const alpha = 1;');
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'src', 'utils', 'beta.ts'),
+      'export function beta() {}',
+    );
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  it('should write barrels and list them relative to the working directory', async () => {
+    const exitCode = await run(['generate', 'src', '--recursive']);
+
+    assert.strictEqual(exitCode, 0);
+    assert.deepStrictEqual(logs, ['Created src/index.ts', 'Created src/utils/index.ts']);
+    assert.strictEqual(
+      await fileSystem.readFile(path.join(tmpDir, 'src', INDEX_FILENAME)),
+      "export { alpha } from './alpha.js';\nexport * from './utils/index.js';\n",
+    );
+  });
+
+  it('should list planned changes without writing in preview mode', async () => {
+    const exitCode = await run(['generate', 'src', '-r', '--preview']);
+
+    assert.strictEqual(exitCode, 0);
+    assert.deepStrictEqual(logs, ['Would create src/index.ts', 'Would create src/utils/index.ts']);
+    assert.strictEqual(
+      await fileSystem.fileExists(path.join(tmpDir, 'src', INDEX_FILENAME)),
+      false,
+    );
+  });
+
+  it('should report when nothing changed', async () => {
+    await run(['generate', 'src', '-r']);
+    logs = [];
+
+    assert.strictEqual(await run(['generate', 'src', '-r']), 0);
+    assert.deepStrictEqual(logs, ['No barrel changes.']);
+  });
+
+  it('should list stale and missing barrels with a diff and exit non-zero in check mode', async () => {
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'src', INDEX_FILENAME),
+      "export { alpha } from './alpha.js';\n",
+    );
+
+    const exitCode = await run(['generate', 'src', '-r', '--check']);
+
+    assert.strictEqual(exitCode, 1);
+    assert.strictEqual(
+      logs[0],
+      [
+        'stale: src/index.ts',
+        '--- a/src/index.ts',
+        '+++ b/src/index.ts',
+        '@@ -1,1 +1,2 @@',
+        " export { alpha } from './alpha.js';",
+        "+export * from './utils/index.js';",
+        '',
+        'missing: src/utils/index.ts',
+        '--- /dev/null',
+        '+++ b/src/utils/index.ts',
+        '@@ -0,0 +1,1 @@',
+        "+export { beta } from './beta.js';",
+      ].join('\n'),
+    );
+    assert.deepStrictEqual(errors, ['barrel-roll: 2 barrel(s) are stale or missing.']);
+    assert.strictEqual(
+      await fileSystem.fileExists(path.join(tmpDir, 'src', 'utils', INDEX_FILENAME)),
+      false,
+    );
+  });
+
+  it('should exit with code 0 in check mode when every barrel is up to date', async () => {
+    await run(['generate', 'src', '-r']);
+    logs = [];
+
+    assert.strictEqual(await run(['generate', 'src', '-r', '--check']), 0);
+    assert.deepStrictEqual(logs, ['All barrels are up to date.']);
+  });
+
+  it('should check against the barrels the selected mode would write', async () => {
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'src', INDEX_FILENAME),
+      "export { alpha } from './alpha.js';\n",
+    );
+
+    const exitCode = await run(['generate', 'src', '-r', '--check', '--mode', 'updateExisting']);
+
+    assert.strictEqual(exitCode, 0);
+    assert.deepStrictEqual(logs, ['All barrels are up to date.']);
+  });
+
+  it('should resolve paths against the project root when run on a subdirectory', async () => {
+    await fileSystem.writeFile(path.join(tmpDir, 'package.json'), '{ "name": "app" }');
+
+    const exitCode = await run(['generate', 'src/utils', '--header', 'Barrel of ${path}']);
+
+    assert.strictEqual(exitCode, 0);
+    assert.strictEqual(
+      await fileSystem.readFile(path.join(tmpDir, 'src', 'utils', INDEX_FILENAME)),
+      "// Barrel of src/utils\nexport { beta } from './beta.js';\n",
+    );
+  });
+
+  it('should print errors and exit with a non-zero code', async () => {
+    const exitCode = await run(['generate', 'missing']);
+
+    assert.strictEqual(exitCode, 1);
+    assert.strictEqual(errors.length, 1);
+    assert.match(errors[0], /^barrel-roll: /);
+  });
+
+  it('should print usage for the help command', async () => {
+    assert.strictEqual(await run(['help']), 0);
+    assert.match(logs[0], /^Usage: barrel-roll generate/);
+  });
+});
@@ -0,0 +1,60 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { findProjectRoot } from '../../../cli/project-root.js';
+import { FileSystemService } from '../../../core/io/file-system.service.js';
+
+describe('findProjectRoot', () => {
+  let tmpDir: string;
+  let packageDir: string;
+  let fileSystem: FileSystemService;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-root-'));
+    packageDir = path.join(tmpDir, 'packages', 'app');
+    await fileSystem.ensureDirectory(path.join(packageDir, 'src'));
+    await fileSystem.writeFile(path.join(packageDir, 'package.json'), '{ "name": "app" }');
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  it('should prefer the nearest folder with a .git entry over a nearer package.json', async () => {
+    await fileSystem.ensureDirectory(path.join(tmpDir, '.git'));
+
+    assert.strictEqual(await findProjectRoot(path.join(packageDir, 'src')), tmpDir);
+  });
+
+  it('should fall back to the nearest folder holding a package.json', async () => {
+    assert.strictEqual(await findProjectRoot(path.join(packageDir, 'src')), packageDir);
+  });
+
+  it('should return the directory itself when no marker exists above it', async () => {
+    await fileSystem.removePath(path.join(packageDir, 'package.json'));
+
+    assert.strictEqual(
+      await findProjectRoot(path.join(packageDir, 'src')),
+      path.join(packageDir, 'src'),
+    );
+  });
+});
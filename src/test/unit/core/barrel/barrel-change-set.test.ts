@@ -0,0 +1,55 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { BarrelChangeSet } from '../../../../core/barrel/barrel-change-set.js';
+
+describe('BarrelChangeSet', () => {
+  it('should report recorded files as planned', () => {
+    const changeSet = new BarrelChangeSet();
+
+    changeSet.add({ filePath: '/src/index.ts', newContent: '\n' });
+
+    assert.strictEqual(changeSet.has('/src/index.ts'), true);
+    assert.strictEqual(changeSet.has('/lib/index.ts'), false);
+  });
+
+  it('should return changes ordered by file path', () => {
+    const changeSet = new BarrelChangeSet();
+
+    changeSet.add({ filePath: '/src/nested/index.ts', newContent: 'b' });
+    changeSet.add({ filePath: '/src/index.ts', newContent: 'a' });
+
+    assert.deepStrictEqual(
+      changeSet.toArray().map((change) => change.filePath),
+      ['/src/index.ts', '/src/nested/index.ts'],
+    );
+  });
+
+  it('should keep the latest change recorded for a file', () => {
+    const changeSet = new BarrelChangeSet();
+
+    changeSet.add({ filePath: '/src/index.ts', newContent: 'first' });
+    changeSet.add({ filePath: '/src/index.ts', newContent: 'second' });
+
+    assert.deepStrictEqual(changeSet.toArray(), [
+      { filePath: '/src/index.ts', newContent: 'second' },
+    ]);
+  });
+});
@@ -19,7 +19,13 @@ import assert from 'node:assert/strict';
 import { beforeEach, describe, it } from 'node:test';
 
 import { BarrelContentBuilder } from '../../../../core/barrel/barrel-content.builder.js';
-import { BarrelEntry, BarrelEntryKind, BarrelExportKind } from '../../../../types/index.js';
+import {
+  BarrelEntry,
+  BarrelEntryKind,
+  BarrelExportKind,
+  BarrelOutputStyle,
+  DEFAULT_BARREL_FORMAT,
+} from '../../../../types/index.js';
 
 describe('BarrelContentBuilder', () => {
   let builder: BarrelContentBuilder;
@@ -141,6 +147,195 @@ describe('BarrelContentBuilder', () => {
       );
     });
 
+    it('should re-export aliased exports under their alias', async () => {
+      const entries = new Map<string, BarrelEntry>();
+      entries.set('user.ts', {
+        kind: BarrelEntryKind.File,
+        exports: [
+          { kind: BarrelExportKind.Value, name: 'Config', alias: 'UserConfig' },
+          { kind: BarrelExportKind.Type, name: 'Options', alias: 'UserOptions' },
+          { kind: BarrelExportKind.Default, alias: 'User' },
+        ],
+      });
+
+      const result = await builder.buildContent(entries, '');
+
+      assert.deepStrictEqual(result.trim().split('\n'), [
+        "export { Config as UserConfig, type Options as UserOptions } from './user';",
+        "export { default as User } from './user';",
+      ]);
+    });
+
+    it('should forward files that re-export other modules with export *', async () => {
+      const entries = new Map<string, BarrelEntry>();
+      entries.set('facade.ts', {
+        kind: BarrelEntryKind.File,
+        exports: [
+          { kind: BarrelExportKind.Value, name: 'createFacade' },
+          { kind: BarrelExportKind.Star, typeOnly: false },
+        ],
+      });
+      entries.set('types.ts', {
+        kind: BarrelEntryKind.File,
+        exports: [{ kind: BarrelExportKind.Star, typeOnly: true }],
+      });
+
+      const result = await builder.buildContent(entries, '');
+
+      assert.deepStrictEqual(result.trim().split('\n'), [
+        "export { createFacade } from './facade';",
+        "export * from './facade';",
+        "export type * from './types';",
+      ]);
+    });
+
+    it('should import augmentation-only files for their side effects', async () => {
+      const entries = new Map<string, BarrelEntry>();
+      entries.set('globals.ts', {
+        kind: BarrelEntryKind.File,
+        exports: [{ kind: BarrelExportKind.SideEffect }],
+      });
+      entries.set('plugin.ts', {
+        kind: BarrelEntryKind.File,
+        exports: [
+          { kind: BarrelExportKind.Value, name: 'install' },
+          { kind: BarrelExportKind.SideEffect },
+        ],
+      });
+
+      const result = await builder.buildContent(entries, '');
+
+      assert.deepStrictEqual(result.trim().split('\n'), [
+        "import './globals';",
+        "export { install } from './plugin';",
+      ]);
+    });
+
+    it('should import module sources by the extension they are emitted with', async () => {
+      const entries = new Map<string, BarrelEntry>();
+      for (const [file, name] of [
+        ['client.mts', 'Client'],
+        ['legacy.cts', 'Legacy'],
+        ['helpers.js', 'helper'],
+        ['view.jsx', 'View'],
+        ['worker.mjs', 'Worker'],
+      ]) {
+        entries.set(file, {
+          kind: BarrelEntryKind.File,
+          exports: [{ kind: BarrelExportKind.Value, name }],
+        });
+      }
+
+      const result = await builder.buildContent(entries, '', '.js');
+
+      assert.deepStrictEqual(result.trim().split('\n'), [
+        "export { Client } from './client.mjs';",
+        "export { helper } from './helpers.js';",
+        "export { Legacy } from './legacy.cjs';",
+        "export { View } from './view.js';",
+        "export { Worker } from './worker.mjs';",
+      ]);
+    });
+
+    it('should re-export whole files with export * in the wildcard style', async () => {
+      const entries = new Map<string, BarrelEntry>();
+      entries
+        .set('alpha.ts', {
+          kind: BarrelEntryKind.File,
+          exports: [
+            { kind: BarrelExportKind.Value, name: 'alpha' },
+            { kind: BarrelExportKind.Type, name: 'Alpha' },
+          ],
+        })
+        .set('Button.vue', {
+          kind: BarrelEntryKind.File,
+          exports: [
+            { kind: BarrelExportKind.Type, name: 'ButtonProps' },
+            { kind: BarrelExportKind.Default, alias: 'Button' },
+          ],
+        })
+        .set('internal.ts', {
+          kind: BarrelEntryKind.File,
+          exports: [{ kind: BarrelExportKind.Value, name: 'visible' }],
+          explicit: true,
+        })
+        .set('user.ts', {
+          kind: BarrelEntryKind.File,
+          exports: [{ kind: BarrelExportKind.Value, name: 'Config', alias: 'UserConfig' }],
+        })
+        .set('nested', { kind: BarrelEntryKind.Directory });
+
+      const result = await builder.buildContent(entries, '', '', {
+        outputStyle: BarrelOutputStyle.Wildcard,
+      });
+
+      assert.deepStrictEqual(result.trim().split('\n'), [
+        "export * from './alpha';",
+        "export * from './Button.vue';",
+        "export { default as Button } from './Button.vue';",
+        "export { visible } from './internal';",
+        "export * from './nested';",
+        "export { Config as UserConfig } from './user';",
+      ]);
+    });
+
+    it('should re-export namespaces and listed directory exports', async () => {
+      const entries = new Map<string, BarrelEntry>();
+      entries
+        .set('string-utils.ts', {
+          kind: BarrelEntryKind.File,
+          exports: [
+            { kind: BarrelExportKind.Value, name: 'trim' },
+            { kind: BarrelExportKind.Default, alias: 'format' },
+          ],
+          namespace: 'stringUtils',
+        })
+        .set('models', {
+          kind: BarrelEntryKind.Directory,
+          exports: [
+            { kind: BarrelExportKind.Type, name: 'User' },
+            { kind: BarrelExportKind.Value, name: 'createUser' },
+          ],
+        })
+        .set('services', { kind: BarrelEntryKind.Directory, namespace: 'services' });
+
+      const result = await builder.buildContent(entries, '', '.js');
+
+      assert.deepStrictEqual(result.trim().split('\n'), [
+        "export { createUser, type User } from './models/index.js';",
+        "export * as services from './services/index.js';",
+        "export * as stringUtils from './string-utils.js';",
+        "export { default as format } from './string-utils.js';",
+      ]);
+    });
+
+    it('should emit the header above the formatted exports', async () => {
+      const entries = new Map<string, BarrelEntry>([
+        [
+          'alpha.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Value, name: 'alpha' }],
+          },
+        ],
+      ]);
+
+      const result = await builder.buildContent(entries, '', '.js', {
+        header: '// @generated by barrel-roll\n// Do not edit.',
+        format: { ...DEFAULT_BARREL_FORMAT, quote: '"' },
+      });
+
+      assert.strictEqual(
+        result,
+        [
+          '// @generated by barrel-roll',
+          '// Do not edit.',
+          'export { alpha } from "./alpha.js";',
+          '',
+        ].join('\n'),
+      );
+    });
+
     const parentDirectoryCases: Array<Map<string, BarrelEntry>> = [
       new Map<string, BarrelEntry>([['../outside', { kind: BarrelEntryKind.Directory }]]),
       new Map<string, BarrelEntry>([
@@ -0,0 +1,135 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  applyBarrelDirectives,
+  isKeepDirective,
+  parseBarrelDirectives,
+} from '../../../../core/barrel/barrel-directives.js';
+import { type BarrelEntry, BarrelEntryKind, BarrelExportKind } from '../../../../types/index.js';
+
+describe('barrel directives', () => {
+  describe('parseBarrelDirectives', () => {
+    it('should read ignore, alias and keep directives', () => {
+      const directives = parseBarrelDirectives(
+        [
+          '// barrel-roll-ignore ./legacy',
+          '//barrel-roll-ignore utils/index.js',
+          '// barrel-roll-alias ./foo.js Foo as FooV1',
+          '// barrel-roll-alias ./foo default as FooDefault',
+          '// barrel-roll-keep',
+          '',
+          "export { shared } from './shared.js';",
+          '// barrel-roll-keep',
+          'export {',
+          '  a,',
+          '  b,',
+          "} from './multi.js';",
+          "export { other } from './other.js';",
+        ].join('\n'),
+      );
+
+      assert.deepStrictEqual([...directives.ignoredPaths], ['./legacy', './utils']);
+      assert.deepStrictEqual([...directives.keptPaths], ['./shared', './multi']);
+      assert.deepStrictEqual(directives.aliases, [
+        { modulePath: './foo', name: 'Foo', alias: 'FooV1' },
+        { modulePath: './foo', name: 'default', alias: 'FooDefault' },
+      ]);
+    });
+
+    it('should not treat the file ignore pragma or malformed directives as directives', () => {
+      const directives = parseBarrelDirectives(
+        [
+          '// barrel-roll-ignore-file',
+          '// barrel-roll-alias ./foo Foo',
+          '// barrel-roll-keep',
+          'export const direct = 1;',
+        ].join('\n'),
+      );
+
+      assert.deepStrictEqual(directives, {
+        ignoredPaths: new Set(),
+        keptPaths: new Set(),
+        aliases: [],
+      });
+    });
+
+    it('should recognize the keep directive', () => {
+      assert.strictEqual(isKeepDirective('// barrel-roll-keep'), true);
+      assert.strictEqual(isKeepDirective('// barrel-roll-keeps'), false);
+    });
+  });
+
+  describe('applyBarrelDirectives', () => {
+    it('should remove ignored and kept modules and alias named exports', () => {
+      const entries = new Map<string, BarrelEntry>([
+        [
+          'legacy.ts',
+          { kind: BarrelEntryKind.File, exports: [{ kind: BarrelExportKind.Value, name: 'old' }] },
+        ],
+        [
+          'shared.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Value, name: 'shared' }],
+          },
+        ],
+        ['utils', { kind: BarrelEntryKind.Directory }],
+        [
+          'foo.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [
+              { kind: BarrelExportKind.Type, name: 'Foo' },
+              { kind: BarrelExportKind.Default },
+            ],
+          },
+        ],
+      ]);
+
+      const unmatched = applyBarrelDirectives(
+        entries,
+        parseBarrelDirectives(
+          [
+            '// barrel-roll-ignore ./legacy',
+            '// barrel-roll-ignore ./utils',
+            '// barrel-roll-alias ./foo Foo as FooV1',
+            '// barrel-roll-alias ./foo default as FooDefault',
+            '// barrel-roll-alias ./foo Missing as Nothing',
+            '// barrel-roll-keep',
+            "export { shared } from './shared.js';",
+          ].join('\n'),
+        ),
+      );
+
+      assert.deepStrictEqual([...entries.keys()], ['foo.ts']);
+      assert.deepStrictEqual(entries.get('foo.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [
+          { kind: BarrelExportKind.Type, name: 'Foo', alias: 'FooV1' },
+          { kind: BarrelExportKind.Default, alias: 'FooDefault' },
+        ],
+      });
+      assert.deepStrictEqual(unmatched, [
+        { modulePath: './foo', name: 'Missing', alias: 'Nothing' },
+      ]);
+    });
+  });
+});
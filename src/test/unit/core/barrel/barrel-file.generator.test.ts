@@ -23,8 +23,17 @@ import type { Uri } from 'vscode';
 
 import { afterEach, beforeEach, describe, it } from 'node:test';
 
-import type { LoggerInstance } from '../../../../types/index.js';
-import { BarrelGenerationMode, INDEX_FILENAME } from '../../../../types/index.js';
+import type { IImportCycle, LoggerInstance } from '../../../../types/index.js';
+import {
+  BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  ImportCycleCheck,
+  INDEX_FILENAME,
+  SUPPORTED_SOURCE_EXTENSIONS,
+} from '../../../../types/index.js';
 import { FileSystemService } from '../../../../core/io/file-system.service.js';
 import { BarrelFileGenerator } from '../../../../core/barrel/barrel-file.generator.js';
 
@@ -683,5 +692,949 @@ export { formatError } from './errors.js';
         'Helper function should be preserved',
       );
     });
+
+    it('should apply configured barrel filename and export extension', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+
+      await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        indexFilename: 'barrel.ts',
+        exportExtension: '',
+      });
+
+      const rootBarrel = await fileSystem.readFile(path.join(tmpDir, 'barrel.ts'));
+      assert.strictEqual(
+        rootBarrel,
+        ["export { alpha } from './alpha';", "export * from './nested';", ''].join('\n'),
+      );
+      assert.strictEqual(await fileSystem.fileExists(path.join(tmpDir, INDEX_FILENAME)), false);
+    });
+
+    it('should derive the export extension from the nearest tsconfig.json', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { module: 'esnext', moduleResolution: 'bundler' } }),
+      );
+      await fileSystem.writeFile(
+        path.join(nestedDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { allowImportingTsExtensions: true, noEmit: true } }),
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+
+      await generator.generateBarrelFile(rootUri, { recursive: true });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      const nestedIndex = await fileSystem.readFile(path.join(nestedDir, INDEX_FILENAME));
+      assert.strictEqual(
+        rootIndex,
+        ["export { alpha } from './alpha';", "export * from './nested';", ''].join('\n'),
+      );
+      assert.strictEqual(nestedIndex, "export { bravo } from './bravo.ts';\n");
+    });
+
+    it('should prefer a configured export extension over tsconfig.json', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { moduleResolution: 'bundler' } }),
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+
+      await generator.generateBarrelFile(rootUri, { exportExtension: '.js' });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(rootIndex, "export { alpha } from './alpha.js';\n");
+    });
+
+    it('should apply a configured export extension to an existing barrel', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(
+        path.join(tmpDir, INDEX_FILENAME),
+        "export { alpha } from './alpha.js';\n",
+      );
+
+      await generator.generateBarrelFile(rootUri, { exportExtension: '' });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(rootIndex, "export { alpha } from './alpha';\n");
+    });
+
+    it('should derive the export extension from tsconfig.json over an existing barrel', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { moduleResolution: 'bundler' } }),
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(
+        path.join(tmpDir, INDEX_FILENAME),
+        "export { alpha } from './alpha.js';\n",
+      );
+
+      await generator.generateBarrelFile(rootUri);
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(rootIndex, "export { alpha } from './alpha';\n");
+    });
+
+    it('should expand subdirectory exports by name in the named output style', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const modelsDir = path.join(tmpDir, 'models');
+
+      await fileSystem.ensureDirectory(modelsDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(
+        path.join(modelsDir, 'user.ts'),
+        'export interface User {}\nexport function createUser() {}\nexport default class Model {}',
+      );
+
+      await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        outputStyle: BarrelOutputStyle.Named,
+      });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export { alpha } from './alpha.js';",
+        "export { createUser, type User } from './models/index.js';",
+      ]);
+    });
+
+    it('should re-export files and subdirectories with export * in the wildcard style', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'alpha.ts'),
+        'export const alpha = 1;\nexport default function main() {}',
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'internal.ts'),
+        'export const visible = 1;\n/** @internal */\nexport const hidden = 2;',
+      );
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+
+      await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        outputStyle: BarrelOutputStyle.Wildcard,
+      });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      const nestedIndex = await fileSystem.readFile(path.join(nestedDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export * from './alpha.js';",
+        "export { default } from './alpha.js';",
+        "export { visible } from './internal.js';",
+        "export * from './nested/index.js';",
+      ]);
+      assert.strictEqual(nestedIndex, "export * from './bravo.js';\n");
+    });
+
+    it('should re-export files and subdirectories as namespaces in the namespace style', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const helpersDir = path.join(tmpDir, 'helpers');
+
+      await fileSystem.ensureDirectory(helpersDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'string-utils.ts'), 'export const trim = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'number-utils.ts'), 'export const trim = 2;');
+      await fileSystem.writeFile(path.join(helpersDir, 'format.ts'), 'export const format = 3;');
+
+      await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        outputStyle: BarrelOutputStyle.Namespace,
+      });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export * as helpers from './helpers/index.js';",
+        "export * as numberUtils from './number-utils.js';",
+        "export * as stringUtils from './string-utils.js';",
+      ]);
+    });
+
+    it('should list colliding files by name in the wildcard style', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'alpha.ts'),
+        'export const shared = 1;\nexport const alpha = 1;',
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'bravo.ts'),
+        'export const shared = 2;\nexport const bravo = 2;',
+      );
+
+      await generator.generateBarrelFile(rootUri, {
+        outputStyle: BarrelOutputStyle.Wildcard,
+        collisionStrategy: ExportCollisionStrategy.KeepFirst,
+      });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export { alpha, shared } from './alpha.js';",
+        "export { bravo } from './bravo.js';",
+      ]);
+    });
+
+    it('should format barrels from the Prettier configuration', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.prettierrc'),
+        JSON.stringify({ printWidth: 50, semi: false }),
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'alpha.ts'),
+        'export const alphaValue = 1;\nexport const betaValue = 2;\nexport const gammaValue = 3;',
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'bravo.ts'), 'export const bravo = 2;');
+
+      await generator.generateBarrelFile(rootUri);
+      const secondRun = await generator.generateBarrelFile(rootUri);
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        'export {',
+        '  alphaValue,',
+        '  betaValue,',
+        '  gammaValue,',
+        '} from "./alpha.js"',
+        'export { bravo } from "./bravo.js"',
+      ]);
+      assert.deepStrictEqual(secondRun, []);
+    });
+
+    it('should keep CRLF line endings of an existing barrel', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'bravo.ts'), 'export const bravo = 2;');
+      await fileSystem.writeFile(
+        path.join(tmpDir, INDEX_FILENAME),
+        "// Public API\r\nexport { alpha } from './alpha.js';\r\n",
+      );
+
+      await generator.generateBarrelFile(rootUri);
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        rootIndex,
+        [
+          '// Public API',
+          "export { alpha } from './alpha.js';",
+          "export { bravo } from './bravo.js';",
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    it('should write the header template above the exports of a new barrel', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(path.join(nestedDir, 'alpha.ts'), 'export const alpha = 1;');
+
+      await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        header: '@generated by barrel-roll - do not edit\nBarrel of ${directory} (${path})',
+      });
+
+      const nestedIndex = await fileSystem.readFile(path.join(nestedDir, INDEX_FILENAME));
+      assert.strictEqual(
+        nestedIndex,
+        [
+          '// @generated by barrel-roll - do not edit',
+          '// Barrel of nested (nested)',
+          "export { alpha } from './alpha.js';",
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should keep the license comment and header date of an existing barrel', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const header = '// @generated by barrel-roll on ${date}';
+
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'bravo.ts'), 'export const bravo = 2;');
+      await fileSystem.writeFile(
+        path.join(tmpDir, INDEX_FILENAME),
+        [
+          '/* Copyright Example Corp. */',
+          '',
+          "export { alpha } from './alpha.js';",
+          '// @generated by barrel-roll on 2024-02-29',
+          "export const version = '1.0.0';",
+          '',
+        ].join('\n'),
+      );
+
+      await generator.generateBarrelFile(rootUri, { header });
+      const secondRun = await generator.generateBarrelFile(rootUri, { header });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        '/* Copyright Example Corp. */',
+        '// @generated by barrel-roll on 2024-02-29',
+        "export const version = '1.0.0';",
+        "export { alpha } from './alpha.js';",
+        "export { bravo } from './bravo.js';",
+      ]);
+      assert.deepStrictEqual(secondRun, []);
+    });
+
+    it('should group a barrel into sections and keep them on update', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'types.ts'), 'export interface Config {}');
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+      await fileSystem.writeFile(
+        path.join(tmpDir, INDEX_FILENAME),
+        "export const version = '1.0.0';\n",
+      );
+
+      const options = { recursive: true, grouping: BarrelGrouping.Kind };
+      await generator.generateBarrelFile(rootUri, options);
+      const secondRun = await generator.generateBarrelFile(rootUri, options);
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.split('\n'), [
+        "export const version = '1.0.0';",
+        '// --- Types ---',
+        "export type { Config } from './types.js';",
+        '',
+        '// --- Values ---',
+        "export { alpha } from './alpha.js';",
+        '',
+        '// --- Subdirectories ---',
+        "export * from './nested/index.js';",
+        '',
+      ]);
+      assert.deepStrictEqual(secondRun, []);
+
+      await generator.generateBarrelFile(rootUri, { recursive: true });
+      const ungroupedIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(ungroupedIndex.trim().split('\n'), [
+        "export const version = '1.0.0';",
+        "export { alpha } from './alpha.js';",
+        "export * from './nested/index.js';",
+        "export type { Config } from './types.js';",
+      ]);
+    });
+
+    it('should leave emitted JavaScript next to TypeScript sources out by default', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.js'), 'export const alpha = 1;');
+
+      await generator.generateBarrelFile(rootUri);
+
+      assert.strictEqual(
+        await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME)),
+        "export { alpha } from './alpha.js';\n",
+      );
+    });
+
+    it('should export module and JavaScript sources next to TypeScript files', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'client.mts'), 'export const client = 2;');
+      await fileSystem.writeFile(path.join(tmpDir, 'legacy.cts'), 'export const legacy = 3;');
+      await fileSystem.writeFile(path.join(tmpDir, 'helper.js'), 'export function helper() {}');
+
+      await generator.generateBarrelFile(rootUri, {
+        sourceExtensions: [...SUPPORTED_SOURCE_EXTENSIONS],
+      });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export { alpha } from './alpha.js';",
+        "export { client } from './client.mjs';",
+        "export { helper } from './helper.js';",
+        "export { legacy } from './legacy.cjs';",
+      ]);
+    });
+
+    it('should export single-file components as defaults named after their files', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'Button.vue'),
+        '<script setup lang="ts">\nexport interface ButtonProps {}\n</script>\n<template />',
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'date-picker.svelte'),
+        '<script lang="ts">export let value: Date;</script>',
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'Layout.astro'), '---\n---\n<slot />');
+
+      await generator.generateBarrelFile(rootUri);
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export type { ButtonProps } from './Button.vue';",
+        "export { default as Button } from './Button.vue';",
+        "export { default as DatePicker } from './date-picker.svelte';",
+        "export { default as Layout } from './Layout.astro';",
+      ]);
+    });
+
+    it('should write a JavaScript barrel for directories holding only JavaScript', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const scriptsDir = path.join(tmpDir, 'scripts');
+      const modulesDir = path.join(tmpDir, 'modules');
+
+      await fileSystem.ensureDirectory(scriptsDir);
+      await fileSystem.ensureDirectory(modulesDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(scriptsDir, 'run.js'), 'export const run = 2;');
+      await fileSystem.writeFile(path.join(modulesDir, 'load.mjs'), 'export const load = 3;');
+
+      await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        sourceExtensions: [...SUPPORTED_SOURCE_EXTENSIONS],
+      });
+
+      assert.strictEqual(
+        await fileSystem.readFile(path.join(scriptsDir, 'index.js')),
+        "export { run } from './run.js';\n",
+      );
+      assert.strictEqual(
+        await fileSystem.readFile(path.join(modulesDir, 'index.mjs')),
+        "export { load } from './load.mjs';\n",
+      );
+      assert.strictEqual(await fileSystem.fileExists(path.join(scriptsDir, INDEX_FILENAME)), false);
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.deepStrictEqual(rootIndex.trim().split('\n'), [
+        "export { alpha } from './alpha.js';",
+        "export * from './modules/index.mjs';",
+        "export * from './scripts/index.js';",
+      ]);
+    });
+
+    it('should traverse directories that are removed from the exclude list', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const libDir = path.join(tmpDir, 'lib');
+
+      await fileSystem.ensureDirectory(libDir);
+      await fileSystem.writeFile(path.join(libDir, 'core.ts'), 'export const core = 1;');
+
+      await generator.generateBarrelFile(rootUri, { recursive: true, exclude: [] });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(rootIndex, "export * from './lib/index.js';\n");
+    });
+
+    it('should stop recursing at the configured maximum depth', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+      const deeperDir = path.join(nestedDir, 'deeper');
+
+      await fileSystem.ensureDirectory(deeperDir);
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+      await fileSystem.writeFile(path.join(deeperDir, 'charlie.ts'), 'export const charlie = 3;');
+
+      await generator.generateBarrelFile(rootUri, { recursive: true, maxDepth: 1 });
+
+      assert.strictEqual(await fileSystem.fileExists(path.join(nestedDir, INDEX_FILENAME)), true);
+      assert.strictEqual(await fileSystem.fileExists(path.join(deeperDir, INDEX_FILENAME)), false);
+    });
+
+    it('should apply .barrelrc.json options with nested files overriding their parents', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ exportExtension: '' }),
+      );
+      await fileSystem.writeFile(
+        path.join(nestedDir, '.barrelrc.json'),
+        JSON.stringify({ exportExtension: '.mjs' }),
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+
+      await generator.generateBarrelFile(rootUri, { recursive: true });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      const nestedIndex = await fileSystem.readFile(path.join(nestedDir, INDEX_FILENAME));
+      assert.strictEqual(
+        rootIndex,
+        ["export { alpha } from './alpha';", "export * from './nested';", ''].join('\n'),
+      );
+      assert.strictEqual(nestedIndex, "export { bravo } from './bravo.mjs';\n");
+    });
+
+    it('should plan changes without writing to disk in preview mode', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+      const rootIndexPath = path.join(tmpDir, INDEX_FILENAME);
+      const existingContent = "export { alpha } from './alpha.js';\n";
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(rootIndexPath, existingContent);
+      await fileSystem.writeFile(path.join(nestedDir, 'bravo.ts'), 'export const bravo = 2;');
+
+      const changes = await generator.generateBarrelFile(rootUri, {
+        recursive: true,
+        dryRun: true,
+      });
+
+      assert.deepStrictEqual(changes, [
+        {
+          filePath: rootIndexPath,
+          originalContent: existingContent,
+          newContent: [
+            "export { alpha } from './alpha.js';",
+            "export * from './nested/index.js';",
+            '',
+          ].join('\n'),
+        },
+        {
+          filePath: path.join(nestedDir, INDEX_FILENAME),
+          originalContent: undefined,
+          newContent: "export { bravo } from './bravo.js';\n",
+        },
+      ]);
+      assert.strictEqual(await fileSystem.readFile(rootIndexPath), existingContent);
+      assert.strictEqual(await fileSystem.fileExists(path.join(nestedDir, INDEX_FILENAME)), false);
+    });
+
+    it('should report only barrels whose content changed', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+
+      const firstRun = await generator.generateBarrelFile(rootUri);
+      const secondRun = await generator.generateBarrelFile(rootUri);
+
+      assert.deepStrictEqual(
+        firstRun.map((change) => change.filePath),
+        [path.join(tmpDir, INDEX_FILENAME)],
+      );
+      assert.deepStrictEqual(secondRun, []);
+    });
+
+    it('should skip files and folders ignored by .gitignore unless disabled', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const generatedDir = path.join(tmpDir, 'generated');
+
+      await fileSystem.ensureDirectory(generatedDir);
+      await fileSystem.writeFile(path.join(tmpDir, '.gitignore'), 'generated/\n*.local.ts\n');
+      await fileSystem.writeFile(path.join(tmpDir, 'alpha.ts'), 'export const alpha = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'env.local.ts'), 'export const env = 1;');
+      await fileSystem.writeFile(path.join(generatedDir, 'api.ts'), 'export const api = 1;');
+
+      await generator.generateBarrelFile(rootUri, { recursive: true });
+
+      const rootIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(rootIndex, "export { alpha } from './alpha.js';\n");
+      assert.strictEqual(
+        await fileSystem.fileExists(path.join(generatedDir, INDEX_FILENAME)),
+        false,
+      );
+
+      await generator.generateBarrelFile(rootUri, { recursive: true, respectGitignore: false });
+
+      const unfilteredIndex = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        unfilteredIndex,
+        [
+          "export { alpha } from './alpha.js';",
+          "export { env } from './env.local.js';",
+          "export * from './generated/index.js';",
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should fail on export name collisions and name both sources', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'a.ts'), 'export const Config = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'b.ts'), 'export interface Config {}');
+
+      await assert.rejects(
+        generator.generateBarrelFile(rootUri),
+        /"Config" is exported by a\.ts and b\.ts/,
+      );
+      assert.strictEqual(await fileSystem.fileExists(path.join(tmpDir, INDEX_FILENAME)), false);
+    });
+
+    it('should detect collisions with names re-exported from subdirectory barrels', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'config.ts'), 'export const load = 1;');
+      await fileSystem.writeFile(path.join(nestedDir, 'loader.ts'), 'export const load = 2;');
+
+      await assert.rejects(
+        generator.generateBarrelFile(rootUri, { recursive: true }),
+        /"load" is exported by config\.ts and nested/,
+      );
+    });
+
+    it('should write no barrel of a run that fails in a later directory', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const nestedDir = path.join(tmpDir, 'nested');
+      const writes: string[] = [];
+
+      await fileSystem.ensureDirectory(nestedDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'config.ts'), 'export const load = 1;');
+      await fileSystem.writeFile(path.join(nestedDir, 'loader.ts'), 'export const load = 2;');
+
+      await assert.rejects(
+        generator.generateBarrelFile(
+          rootUri,
+          { recursive: true },
+          {
+            write: async (change) => {
+              writes.push(change.filePath);
+            },
+          },
+        ),
+        /"load" is exported by config\.ts and nested/,
+      );
+      assert.deepStrictEqual(writes, []);
+    });
+
+    it('should alias colliding exports with a path-derived prefix', async () => {
+      const logger = createMockLogger();
+      const generator = new BarrelFileGenerator(undefined, undefined, undefined, logger);
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(path.join(tmpDir, 'a.ts'), 'export const Config = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'b.ts'), 'export const Config = 2;');
+
+      await generator.generateBarrelFile(rootUri, {
+        collisionStrategy: ExportCollisionStrategy.Alias,
+      });
+
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        content,
+        [
+          "export { Config as AConfig } from './a.js';",
+          "export { Config as BConfig } from './b.js';",
+          '',
+        ].join('\n'),
+      );
+      assert.deepStrictEqual(
+        logger.calls.map((call) => call.level),
+        ['warn'],
+      );
+    });
+
+    it('should re-export each identifier bound by a destructured export', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'settings.ts'),
+        'const config = { host: "", ports: [1, 2] };\nexport const { host, ports: [primary, ...rest] } = config;',
+      );
+
+      await generator.generateBarrelFile(rootUri);
+
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(content, "export { host, primary, rest } from './settings.js';\n");
+    });
+
+    it('should leave out declarations with ignored JSDoc tags and files with the pragma', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'api.ts'),
+        [
+          'export const publicApi = 1;',
+          '/** @internal */',
+          'export const internalApi = 2;',
+          '/** @barrelIgnore */',
+          'export type Ignored = string;',
+          '/** @private */',
+          'export const privateApi = 3;',
+        ].join('\n'),
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'testing.ts'),
+        '/* barrel-roll-ignore-file */\nexport const fixture = 1;',
+      );
+
+      await generator.generateBarrelFile(rootUri);
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(content, "export { privateApi, publicApi } from './api.js';\n");
+
+      await generator.generateBarrelFile(rootUri, { ignoreTags: ['private'] });
+      const overridden = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        overridden,
+        "export { internalApi, publicApi, type Ignored } from './api.js';\n",
+      );
+    });
+
+    it('should honor control comments in the existing barrel on every update', async () => {
+      const logger = createMockLogger();
+      const generator = new BarrelFileGenerator(undefined, undefined, undefined, logger);
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const barrelPath = path.join(tmpDir, INDEX_FILENAME);
+
+      await fileSystem.writeFile(path.join(tmpDir, 'legacy.ts'), 'export const old = 1;');
+      await fileSystem.writeFile(path.join(tmpDir, 'foo.ts'), 'export class Foo {}');
+      await fileSystem.writeFile(path.join(tmpDir, 'bar.ts'), 'export const bar = 1;');
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'pinned.ts'),
+        'export const a = 1;\nexport const b = 2;',
+      );
+      await fileSystem.writeFile(
+        barrelPath,
+        [
+          '// barrel-roll-ignore ./legacy',
+          '// barrel-roll-alias ./foo Foo as FooV1',
+          '// barrel-roll-alias ./foo Missing as Nothing',
+          '// barrel-roll-keep',
+          "export { a } from './pinned.js';",
+          "export { old } from './legacy.js';",
+          "export { Foo } from './foo.js';",
+          '',
+        ].join('\n'),
+      );
+
+      await generator.generateBarrelFile(rootUri);
+      const expected = [
+        '// barrel-roll-ignore ./legacy',
+        '// barrel-roll-alias ./foo Foo as FooV1',
+        '// barrel-roll-alias ./foo Missing as Nothing',
+        '// barrel-roll-keep',
+        "export { a } from './pinned.js';",
+        "export { bar } from './bar.js';",
+        "export { Foo as FooV1 } from './foo.js';",
+        '',
+      ].join('\n');
+      assert.strictEqual(await fileSystem.readFile(barrelPath), expected);
+
+      await generator.generateBarrelFile(rootUri);
+      assert.strictEqual(await fileSystem.readFile(barrelPath), expected);
+      assert.deepStrictEqual(
+        logger.calls.filter((call) => call.level === 'warn').map((call) => call.message),
+        [
+          'index.ts: barrel-roll-alias for Missing in ./foo matches no export.',
+          'index.ts: barrel-roll-alias for Missing in ./foo matches no export.',
+        ],
+      );
+    });
+
+    it('should barrel facade files that only re-export other modules', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'facade.ts'),
+        "export * from './impl/core.js';\nexport type * from './impl/types.js';",
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tools.ts'),
+        "export * as tools from './impl/tools.js';",
+      );
+
+      await generator.generateBarrelFile(rootUri);
+
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        content,
+        ["export * from './facade.js';", "export { tools } from './tools.js';", ''].join('\n'),
+      );
+    });
+
+    it('should barrel export = modules and augmentation files without duplicating them', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'client.ts'),
+        'class Client {}\nexport = Client;',
+      );
+      await fileSystem.writeFile(path.join(tmpDir, 'legacy.ts'), 'export = { retries: 3 };');
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'globals.ts'),
+        'export {};\ndeclare global {\n  interface Window { appVersion: string }\n}',
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'ambient.ts'),
+        "declare module 'untyped-lib' {\n  export function run(): void;\n}",
+      );
+
+      await generator.generateBarrelFile(rootUri);
+      await generator.generateBarrelFile(rootUri);
+
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        content,
+        [
+          "export { default as Client } from './client.js';",
+          "import './globals.js';",
+          "export { default as Legacy } from './legacy.js';",
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should resolve re-exported names through the type checker in semantic mode', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.ensureDirectory(path.join(tmpDir, 'impl'));
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { module: 'nodenext' } }),
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'impl', 'models.ts'),
+        'export interface User {}\nexport const createUser = () => ({});',
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'facade.ts'),
+        "export { User as Member, createUser as create, removed as gone } from './impl/models.js';",
+      );
+
+      await generator.generateBarrelFile(rootUri, {
+        exclude: ['impl'],
+        parseMode: ExportParseMode.Semantic,
+      });
+
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(content, "export { create, type Member } from './facade.js';\n");
+    });
+
+    it('should not report re-exports of sibling files as collisions in semantic mode', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { module: 'nodenext' } }),
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'b.ts'),
+        'export const x = 1;\nexport interface I {}',
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'a.ts'),
+        "export { x, I } from './b.js';\nexport const a = x;",
+      );
+
+      await generator.generateBarrelFile(rootUri, { parseMode: ExportParseMode.Semantic });
+
+      const content = await fileSystem.readFile(path.join(tmpDir, INDEX_FILENAME));
+      assert.strictEqual(
+        content,
+        "export { a } from './a.js';\nexport { x, type I } from './b.js';\n",
+      );
+    });
+
+    it('should report barrels that close an import cycle', async () => {
+      const logger = createMockLogger();
+      const generator = new BarrelFileGenerator(undefined, undefined, undefined, logger);
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+      const utilsDir = path.join(tmpDir, 'utils');
+      const cycles: IImportCycle[] = [];
+
+      await fileSystem.ensureDirectory(utilsDir);
+      await fileSystem.writeFile(path.join(tmpDir, 'bar.ts'), 'export const bar = 1;');
+      await fileSystem.writeFile(
+        path.join(utilsDir, 'foo.ts'),
+        "import { bar } from '../index.js';\nexport const foo = bar;",
+      );
+
+      await generator.generateBarrelFile(rootUri, { recursive: true }, undefined, {
+        report: (cycle) => cycles.push(cycle),
+      });
+
+      const barrelPath = path.join(tmpDir, INDEX_FILENAME);
+      const utilsBarrelPath = path.join(utilsDir, INDEX_FILENAME);
+      assert.deepStrictEqual(cycles, [
+        {
+          barrelPath,
+          path: [barrelPath, utilsBarrelPath, path.join(utilsDir, 'foo.ts'), barrelPath],
+        },
+      ]);
+      assert.deepStrictEqual(logger.calls, [
+        {
+          level: 'warn',
+          message:
+            'index.ts closes an import cycle: index.ts -> utils/index.ts -> utils/foo.ts -> index.ts',
+        },
+      ]);
+      assert.strictEqual(await fileSystem.fileExists(barrelPath), true);
+    });
+
+    it('should refuse to write a barrel that closes an import cycle when set to fail', async () => {
+      const generator = new BarrelFileGenerator();
+      const rootUri = { fsPath: tmpDir } as unknown as Uri;
+
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'foo.ts'),
+        "import './index.js';\nexport const foo = 1;",
+      );
+
+      await assert.rejects(
+        generator.generateBarrelFile(rootUri, { importCycleCheck: ImportCycleCheck.Fail }),
+        /index\.ts closes an import cycle: index\.ts -> foo\.ts -> index\.ts/,
+      );
+      assert.strictEqual(await fileSystem.fileExists(path.join(tmpDir, INDEX_FILENAME)), false);
+    });
   });
 });
@@ -0,0 +1,127 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  type BarrelHeaderValues,
+  findBarrelHeaders,
+  getHeaderDates,
+  renderBarrelHeader,
+} from '../../../../core/barrel/barrel-header.js';
+
+describe('barrel-header', () => {
+  const values: BarrelHeaderValues = {
+    directory: 'utils',
+    path: 'src/utils',
+    date: '2026-03-14',
+    year: '2026',
+  };
+
+  describe('renderBarrelHeader', () => {
+    it('should replace placeholders in a comment template', () => {
+      const template =
+        '/* Copyright ${year} Example Corp. */\n// @generated for ${path} on ${date}';
+
+      assert.strictEqual(
+        renderBarrelHeader(template, values),
+        '/* Copyright 2026 Example Corp. */\n// @generated for src/utils on 2026-03-14',
+      );
+    });
+
+    it('should turn plain text into line comments and drop blank lines', () => {
+      assert.strictEqual(
+        renderBarrelHeader('@generated by barrel-roll\n\nBarrel of ${directory}  \n', values),
+        '// @generated by barrel-roll\n// Barrel of utils',
+      );
+    });
+
+    it('should turn only the lines outside comments into line comments', () => {
+      const template = [
+        '// @generated by barrel-roll',
+        'Licensed under MIT',
+        '/*',
+        ' * Barrel of ${directory}',
+        ' */',
+        'Do not edit',
+      ].join('\n');
+
+      assert.strictEqual(
+        renderBarrelHeader(template, values),
+        [
+          '// @generated by barrel-roll',
+          '// Licensed under MIT',
+          '/*',
+          ' * Barrel of utils',
+          ' */',
+          '// Do not edit',
+        ].join('\n'),
+      );
+    });
+
+    it('should leave unknown placeholders as they are', () => {
+      assert.strictEqual(renderBarrelHeader('// ${author}', values), '// ${author}');
+    });
+  });
+
+  describe('findBarrelHeaders', () => {
+    const template = '// @generated by barrel-roll (${path}, ${date})\n// ${date} (c) ${year}';
+
+    it('should find headers whatever values they were rendered with', () => {
+      const content = [
+        "export const version = '1.0.0';",
+        '// @generated by barrel-roll (src/old, 2025-01-02)',
+        '// 2025-01-02 (c) 2025',
+        "export * from './alpha.js';",
+      ].join('\n');
+
+      const [header, ...others] = findBarrelHeaders(content, template);
+
+      assert.deepStrictEqual(others, []);
+      assert.deepStrictEqual(header.dates, { date: '2025-01-02', year: '2025' });
+      assert.strictEqual(
+        content.slice(header.start, header.end),
+        '// @generated by barrel-roll (src/old, 2025-01-02)\n// 2025-01-02 (c) 2025\n',
+      );
+    });
+
+    it('should require repeated placeholders to have the same value', () => {
+      const content = '// @generated by barrel-roll (src, 2025-01-02)\n// 2025-09-09 (c) 2025\n';
+
+      assert.deepStrictEqual(findBarrelHeaders(content, template), []);
+    });
+
+    it('should match special characters of the template literally', () => {
+      const content = '// (c) [Example] *2025*\n';
+
+      assert.strictEqual(findBarrelHeaders(content, '(c) [Example] *${year}*').length, 1);
+      assert.deepStrictEqual(
+        findBarrelHeaders('// (c) Example 2025\n', '(c) [Example] *${year}*'),
+        [],
+      );
+    });
+  });
+
+  describe('getHeaderDates', () => {
+    it('should format the UTC date and year', () => {
+      assert.deepStrictEqual(getHeaderDates(new Date(Date.UTC(2026, 0, 5, 23, 30))), {
+        date: '2026-01-05',
+        year: '2026',
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  type EntryStatements,
+  findSectionLabels,
+  layoutSections,
+} from '../../../../core/barrel/barrel-sections.js';
+import { BarrelEntryKind, BarrelGrouping } from '../../../../types/index.js';
+
+describe('barrel-sections', () => {
+  const statements: EntryStatements[] = [
+    {
+      relativePath: 'alpha.ts',
+      kind: BarrelEntryKind.File,
+      lines: ["export { alpha } from './alpha.js';", "export type { Alpha } from './alpha.js';"],
+    },
+    {
+      relativePath: 'models',
+      kind: BarrelEntryKind.Directory,
+      lines: ["export * from './models/index.js';"],
+    },
+    {
+      relativePath: 'types.ts',
+      kind: BarrelEntryKind.File,
+      lines: ["export type { Config } from './types.js';"],
+    },
+    {
+      relativePath: 'utils',
+      kind: BarrelEntryKind.Directory,
+      lines: ["export * from './utils/index.js';"],
+    },
+  ];
+
+  describe('layoutSections', () => {
+    it('should list statements in path order without grouping', () => {
+      assert.deepStrictEqual(layoutSections(statements, BarrelGrouping.None), [
+        "export { alpha } from './alpha.js';",
+        "export type { Alpha } from './alpha.js';",
+        "export * from './models/index.js';",
+        "export type { Config } from './types.js';",
+        "export * from './utils/index.js';",
+      ]);
+    });
+
+    it('should group types, then values, then subdirectories', () => {
+      assert.deepStrictEqual(layoutSections(statements, BarrelGrouping.Kind), [
+        '// --- Types ---',
+        "export type { Alpha } from './alpha.js';",
+        "export type { Config } from './types.js';",
+        '',
+        '// --- Values ---',
+        "export { alpha } from './alpha.js';",
+        '',
+        '// --- Subdirectories ---',
+        "export * from './models/index.js';",
+        "export * from './utils/index.js';",
+      ]);
+    });
+
+    it('should group the files, then each subdirectory', () => {
+      assert.deepStrictEqual(layoutSections(statements, BarrelGrouping.Folder), [
+        '// --- Files ---',
+        "export { alpha } from './alpha.js';",
+        "export type { Alpha } from './alpha.js';",
+        "export type { Config } from './types.js';",
+        '',
+        '// --- models/ ---',
+        "export * from './models/index.js';",
+        '',
+        '// --- utils/ ---',
+        "export * from './utils/index.js';",
+      ]);
+    });
+
+    it('should leave out empty sections', () => {
+      assert.deepStrictEqual(layoutSections(statements.slice(1, 2), BarrelGrouping.Kind), [
+        '// --- Subdirectories ---',
+        "export * from './models/index.js';",
+      ]);
+    });
+  });
+
+  describe('findSectionLabels', () => {
+    it('should find label lines with their line breaks', () => {
+      const content = "// --- Types ---\nexport type { A } from './a.js';\n// Types\n// --- b/ ---";
+
+      assert.deepStrictEqual(
+        findSectionLabels(content).map(([start, end]) => content.slice(start, end)),
+        ['// --- Types ---\n', '// --- b/ ---'],
+      );
+    });
+  });
+});
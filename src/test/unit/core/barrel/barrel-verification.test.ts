@@ -0,0 +1,85 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+
+import {
+  formatStaleBarrel,
+  formatStaleBarrels,
+} from '../../../../core/barrel/barrel-verification.js';
+
+describe('barrel verification', () => {
+  const basePath = path.resolve('/project');
+
+  it('should report a barrel that does not exist as missing', () => {
+    const report = formatStaleBarrel(
+      {
+        filePath: path.join(basePath, 'src', 'index.ts'),
+        newContent: "export { a } from './a.js';\n",
+      },
+      basePath,
+    );
+
+    assert.strictEqual(
+      report,
+      [
+        'missing: src/index.ts',
+        '--- /dev/null',
+        '+++ b/src/index.ts',
+        '@@ -0,0 +1,1 @@',
+        "+export { a } from './a.js';",
+      ].join('\n'),
+    );
+  });
+
+  it('should report an outdated barrel as stale with a diff', () => {
+    const report = formatStaleBarrel(
+      {
+        filePath: path.join(basePath, 'index.ts'),
+        originalContent: "export { a } from './a.js';\n",
+        newContent: "export { a } from './a.js';\nexport { b } from './b.js';\n",
+      },
+      basePath,
+    );
+
+    assert.strictEqual(
+      report,
+      [
+        'stale: index.ts',
+        '--- a/index.ts',
+        '+++ b/index.ts',
+        '@@ -1,1 +1,2 @@',
+        " export { a } from './a.js';",
+        "+export { b } from './b.js';",
+      ].join('\n'),
+    );
+  });
+
+  it('should separate the reports of several barrels with a blank line', () => {
+    const report = formatStaleBarrels(
+      [
+        { filePath: path.join(basePath, 'a', 'index.ts'), newContent: 'a\n' },
+        { filePath: path.join(basePath, 'b', 'index.ts'), newContent: 'b\n' },
+      ],
+      basePath,
+    );
+
+    assert.match(report, /^missing: a\/index\.ts\n[\s\S]*\+a\n\nmissing: b\/index\.ts\n/);
+  });
+});
@@ -57,6 +57,126 @@ describe('BarrelContentSanitizer', () => {
     assert.ok(preserved.includes('export const direct = 1;'));
   });
 
+  it('should strip one of several statements sharing a line', () => {
+    const preserved = runSanitize(
+      ['export {a} from "./a"; export {b} from "./b"; // b stays', 'export {c} from "./c";'],
+      ['./a', './c'],
+    );
+
+    assert.strictEqual(preserved, 'export {b} from "./b"; // b stays');
+  });
+
+  it('should keep comments and formatting of preserved regions', () => {
+    const preserved = runSanitize(
+      [
+        '/**',
+        " * Not a re-export: export { fake } from './fake';",
+        ' */',
+        "export const banner = `export { x } from './x'`;",
+        "export * as tools from './tools.js'; // regenerated",
+        '// Helpers',
+        'export function helper(): void {',
+        '  // keep this comment',
+        '}',
+      ],
+      ['./tools', './fake', './x'],
+    );
+
+    assert.strictEqual(
+      preserved,
+      [
+        '/**',
+        " * Not a re-export: export { fake } from './fake';",
+        ' */',
+        "export const banner = `export { x } from './x'`;",
+        '// Helpers',
+        'export function helper(): void {',
+        '  // keep this comment',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it('should keep blank lines inside template literals and function bodies', () => {
+    const lines = [
+      'export const template = `first',
+      '',
+      'last`;',
+      'export function helper(): void {',
+      '  const a = 1;',
+      '',
+      '  console.log(a);',
+      '}',
+    ];
+
+    assert.strictEqual(runSanitize(lines, []), lines.join('\n'));
+  });
+
+  it('should collapse only the blank lines removed statements leave behind', () => {
+    const preserved = runSanitize(
+      [
+        "export { alpha } from './alpha';",
+        '',
+        'export const first = 1;',
+        "export { beta } from './beta';",
+        'export const second = 2;',
+        '',
+        "export { gamma } from './gamma';",
+        '',
+        'export const third = 3;',
+        '',
+        "export { delta } from './delta';",
+        '',
+      ],
+      ['./alpha', './beta', './gamma', './delta'],
+    );
+
+    assert.strictEqual(
+      preserved,
+      ['export const first = 1;', 'export const second = 2;', '', 'export const third = 3;'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should strip regenerated side-effect imports and keep the others', () => {
+    const preserved = runSanitize(
+      ["import './globals.js';", "import 'reflect-metadata';"],
+      ['./globals'],
+    );
+
+    assert.strictEqual(preserved, "import 'reflect-metadata';");
+  });
+
+  it('should preserve the statement that follows a keep directive', () => {
+    const preserved = runSanitize(
+      [
+        '// barrel-roll-keep',
+        '',
+        "export { shared } from '../shared/index.js';",
+        '// barrel-roll-keep',
+        'export {',
+        '  alpha,',
+        "} from './alpha.js';",
+        "export { beta } from './beta.js';",
+      ],
+      ['./alpha', './beta'],
+    );
+
+    assert.strictEqual(
+      preserved,
+      [
+        '// barrel-roll-keep',
+        '',
+        "export { shared } from '../shared/index.js';",
+        '// barrel-roll-keep',
+        'export {',
+        '  alpha,',
+        "} from './alpha.js';",
+      ].join('\n'),
+    );
+  });
+
   it('should handle exports with comments containing closing braces', () => {
     const preserved = runSanitize(
       [
@@ -244,4 +364,101 @@ describe('BarrelContentSanitizer', () => {
     // Should preserve local definition
     assert.ok(preserved.includes('export const LOCAL = true'));
   });
+
+  it('should remove section labels', () => {
+    const preserved = runSanitize(
+      [
+        '// --- Types ---',
+        "export type { Alpha } from './alpha';",
+        '',
+        '// --- Values ---',
+        '// Kept by hand',
+        'export const direct = 1;',
+      ],
+      ['./alpha'],
+    );
+
+    assert.strictEqual(preserved, '// Kept by hand\nexport const direct = 1;');
+  });
+
+  it('should keep the blank line after an opening license comment without a header template', () => {
+    const sanitizer = new BarrelContentSanitizer();
+    const result = sanitizer.preserveDefinitionsAndSanitizeExports(
+      [
+        '/*',
+        ' * Licensed under the MIT License.',
+        ' */',
+        '',
+        '/** Version of the API. */',
+        "export const version = '1.0.0';",
+        "export { alpha } from './alpha';",
+      ].join('\n'),
+      new Set(['./alpha']),
+    );
+
+    assert.deepStrictEqual(result.preservedLines, [
+      '/*',
+      ' * Licensed under the MIT License.',
+      ' */',
+      '',
+      '/** Version of the API. */',
+      "export const version = '1.0.0';",
+    ]);
+    assert.strictEqual(result.headerIndex, 0);
+  });
+
+  describe('headers', () => {
+    const template = '// @generated by barrel-roll from ${path}';
+
+    it('should remove every header rendered from the template and keep its position', () => {
+      const sanitizer = new BarrelContentSanitizer();
+      const result = sanitizer.preserveDefinitionsAndSanitizeExports(
+        [
+          '/* Copyright Example Corp. */',
+          '// @generated by barrel-roll from src/old',
+          'export const direct = 1;',
+          "export { alpha } from './alpha';",
+          '// @generated by barrel-roll from src',
+          '',
+        ].join('\n'),
+        new Set(['./alpha']),
+        template,
+      );
+
+      assert.deepStrictEqual(result.preservedLines, [
+        '/* Copyright Example Corp. */',
+        'export const direct = 1;',
+      ]);
+      assert.strictEqual(result.headerIndex, 1);
+    });
+
+    it('should place a new header after the comments that open the file', () => {
+      const sanitizer = new BarrelContentSanitizer();
+      const result = sanitizer.preserveDefinitionsAndSanitizeExports(
+        [
+          '/*',
+          ' * Licensed under the MIT License.',
+          ' */',
+          '',
+          '/** Version of the API. */',
+          "export const version = '1.0.0';",
+        ].join('\n'),
+        new Set(),
+        template,
+      );
+
+      assert.strictEqual(result.headerIndex, 3);
+    });
+
+    it('should place the header first when the file opens with a declaration comment', () => {
+      const sanitizer = new BarrelContentSanitizer();
+      const result = sanitizer.preserveDefinitionsAndSanitizeExports(
+        ['/** Version of the API. */', "export const version = '1.0.0';"].join('\n'),
+        new Set(),
+        template,
+      );
+
+      assert.strictEqual(result.headerIndex, 0);
+    });
+  });
 });
@@ -0,0 +1,273 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  createCollisionAlias,
+  type DirectoryExportNames,
+  ExportCollisionResolver,
+} from '../../../../core/barrel/export-collision.resolver.js';
+import {
+  type BarrelEntry,
+  BarrelEntryKind,
+  BarrelExportKind,
+  ExportCollisionStrategy,
+} from '../../../../types/index.js';
+
+/**
+ * Creates the entries of a barrel with two files exporting `Config` and a `shared` directory.
+ */
+function createEntries(): Map<string, BarrelEntry> {
+  return new Map<string, BarrelEntry>([
+    [
+      'a.ts',
+      {
+        kind: BarrelEntryKind.File,
+        exports: [
+          { kind: BarrelExportKind.Value, name: 'Config' },
+          { kind: BarrelExportKind.Value, name: 'onlyA' },
+        ],
+      },
+    ],
+    [
+      'b.ts',
+      { kind: BarrelEntryKind.File, exports: [{ kind: BarrelExportKind.Type, name: 'Config' }] },
+    ],
+    ['shared', { kind: BarrelEntryKind.Directory }],
+  ]);
+}
+
+describe('ExportCollisionResolver', () => {
+  const resolver = new ExportCollisionResolver();
+
+  describe('detect', () => {
+    it('should report every source of a colliding name in barrel order', () => {
+      const collisions = resolver.detect(createEntries(), new Map());
+
+      assert.deepStrictEqual(collisions, [{ name: 'Config', sources: ['a.ts', 'b.ts'] }]);
+    });
+
+    it('should include names pulled in through export * from subdirectories', () => {
+      const directoryExports: DirectoryExportNames = new Map([['shared', new Set(['onlyA'])]]);
+
+      const collisions = resolver.detect(createEntries(), directoryExports);
+
+      assert.deepStrictEqual(collisions, [
+        { name: 'Config', sources: ['a.ts', 'b.ts'] },
+        { name: 'onlyA', sources: ['a.ts', 'shared'] },
+      ]);
+    });
+
+    it('should treat default exports of different files as a collision', () => {
+      const entries = new Map<string, BarrelEntry>([
+        ['x.ts', { kind: BarrelEntryKind.File, exports: [{ kind: BarrelExportKind.Default }] }],
+        ['y.ts', { kind: BarrelEntryKind.File, exports: [{ kind: BarrelExportKind.Default }] }],
+      ]);
+
+      assert.deepStrictEqual(resolver.detect(entries, new Map()), [
+        { name: 'default', sources: ['x.ts', 'y.ts'] },
+      ]);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should leave entries untouched with the fail strategy', () => {
+      const entries = createEntries();
+
+      const resolution = resolver.resolve(entries, new Map(), ExportCollisionStrategy.Fail);
+
+      assert.strictEqual(resolution.entries, entries);
+      assert.deepStrictEqual(resolution.unresolved, resolution.collisions);
+    });
+
+    it('should drop the name from every file with the skipBoth strategy', () => {
+      const resolution = resolver.resolve(
+        createEntries(),
+        new Map(),
+        ExportCollisionStrategy.SkipBoth,
+      );
+
+      assert.deepStrictEqual(resolution.entries.get('a.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [{ kind: BarrelExportKind.Value, name: 'onlyA' }],
+        explicit: true,
+      });
+      assert.deepStrictEqual(resolution.entries.get('b.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [],
+        explicit: true,
+      });
+      assert.deepStrictEqual(resolution.unresolved, []);
+    });
+
+    it('should keep export * entries of files when dropping colliding names', () => {
+      const entries = createEntries();
+      entries.set('c.ts', {
+        kind: BarrelEntryKind.File,
+        exports: [
+          { kind: BarrelExportKind.Star, typeOnly: false },
+          { kind: BarrelExportKind.Value, name: 'Config' },
+        ],
+      });
+
+      const resolution = resolver.resolve(entries, new Map(), ExportCollisionStrategy.SkipBoth);
+
+      assert.deepStrictEqual(resolution.collisions[0].sources, ['a.ts', 'b.ts', 'c.ts']);
+      assert.deepStrictEqual(resolution.entries.get('c.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [{ kind: BarrelExportKind.Star, typeOnly: false }],
+        explicit: true,
+      });
+    });
+
+    it('should keep only the first export with the keepFirst strategy', () => {
+      const resolution = resolver.resolve(
+        createEntries(),
+        new Map(),
+        ExportCollisionStrategy.KeepFirst,
+      );
+
+      assert.deepStrictEqual(resolution.entries.get('a.ts'), {
+        ...createEntries().get('a.ts'),
+        explicit: true,
+      });
+      assert.deepStrictEqual(resolution.entries.get('b.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [],
+        explicit: true,
+      });
+    });
+
+    it('should alias every colliding export with the alias strategy', () => {
+      const resolution = resolver.resolve(
+        createEntries(),
+        new Map(),
+        ExportCollisionStrategy.Alias,
+      );
+
+      assert.deepStrictEqual(resolution.entries.get('b.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [{ kind: BarrelExportKind.Type, name: 'Config', alias: 'BConfig' }],
+        explicit: true,
+      });
+      assert.deepStrictEqual(
+        resolver.getExportedNames(resolution.entries, new Map()),
+        new Set(['AConfig', 'onlyA', 'BConfig']),
+      );
+    });
+
+    it('should report collisions between export * entries as unresolved', () => {
+      const entries = new Map<string, BarrelEntry>([
+        ['left', { kind: BarrelEntryKind.Directory }],
+        ['right', { kind: BarrelEntryKind.Directory }],
+      ]);
+      const directoryExports: DirectoryExportNames = new Map([
+        ['left', new Set(['Shared'])],
+        ['right', new Set(['Shared'])],
+      ]);
+
+      const resolution = resolver.resolve(
+        entries,
+        directoryExports,
+        ExportCollisionStrategy.KeepFirst,
+      );
+
+      assert.deepStrictEqual(resolution.unresolved, [
+        { name: 'Shared', sources: ['left', 'right'] },
+      ]);
+    });
+
+    it('should report skipped names a subdirectory still forwards as unresolved', () => {
+      const entries = createEntries();
+      entries.set('shared', { kind: BarrelEntryKind.Directory });
+      const directoryExports: DirectoryExportNames = new Map([['shared', new Set(['Config'])]]);
+
+      const resolution = resolver.resolve(
+        entries,
+        directoryExports,
+        ExportCollisionStrategy.SkipBoth,
+      );
+
+      assert.deepStrictEqual(resolution.unresolved, [
+        { name: 'Config', sources: ['a.ts', 'b.ts', 'shared'] },
+      ]);
+      assert.deepStrictEqual(resolution.entries.get('b.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [],
+        explicit: true,
+      });
+    });
+
+    it('should detect collisions between namespaces and alias or drop them', () => {
+      const createNamespaceEntries = (): Map<string, BarrelEntry> =>
+        new Map<string, BarrelEntry>([
+          [
+            'utils.ts',
+            {
+              kind: BarrelEntryKind.File,
+              exports: [
+                { kind: BarrelExportKind.Value, name: 'trim' },
+                { kind: BarrelExportKind.Default, alias: 'format' },
+              ],
+              namespace: 'utils',
+            },
+          ],
+          ['utils', { kind: BarrelEntryKind.Directory, namespace: 'utils' }],
+        ]);
+
+      const aliased = resolver.resolve(
+        createNamespaceEntries(),
+        new Map(),
+        ExportCollisionStrategy.Alias,
+      );
+      const dropped = resolver.resolve(
+        createNamespaceEntries(),
+        new Map(),
+        ExportCollisionStrategy.SkipBoth,
+      );
+
+      assert.deepStrictEqual(aliased.collisions, [
+        { name: 'utils', sources: ['utils', 'utils.ts'] },
+      ]);
+      assert.strictEqual(aliased.entries.get('utils.ts')?.namespace, 'utilsUtils');
+      assert.deepStrictEqual(dropped.entries.get('utils.ts'), {
+        kind: BarrelEntryKind.File,
+        exports: [{ kind: BarrelExportKind.Default, alias: 'format' }],
+        explicit: true,
+      });
+      assert.deepStrictEqual(
+        resolver.getExportedNames(aliased.entries, new Map()),
+        new Set(['utilsUtils', 'format', 'utils']),
+      );
+    });
+  });
+
+  describe('createCollisionAlias', () => {
+    it('should prefix names with the module path in the casing of the name', () => {
+      assert.strictEqual(
+        createCollisionAlias('Config', 'api/user-config.ts'),
+        'ApiUserConfigConfig',
+      );
+      assert.strictEqual(createCollisionAlias('load', 'api/user.ts'), 'apiUserLoad');
+      assert.strictEqual(createCollisionAlias('API_URL', 'api/user.ts'), 'API_USER_API_URL');
+      assert.strictEqual(createCollisionAlias('default', 'api/user.ts'), 'ApiUser');
+      assert.strictEqual(createCollisionAlias('Config', '1-setup.ts'), '_1SetupConfig');
+    });
+  });
+});
@@ -23,6 +23,8 @@ import {
   extractAllExportPaths,
   extractExtensionFromLine,
   extractExportPath,
+  extractSideEffectImportPath,
+  findBarrelModuleStatements,
 } from '../../../../core/barrel/export-patterns.js';
 
 describe('Export Path Utils', () => {
@@ -52,6 +54,55 @@ describe('Export Path Utils', () => {
     assert.strictEqual(paths.size, 2);
   });
 
+  it('should extract side-effect import paths', () => {
+    assert.strictEqual(extractSideEffectImportPath("import './globals.js';"), './globals.js');
+    assert.strictEqual(extractSideEffectImportPath('import "./augment" // types'), './augment');
+    assert.strictEqual(extractSideEffectImportPath("import { a } from './a';"), null);
+    assert.strictEqual(
+      extractAllExportPaths("import './globals.js';\nexport { a } from './a';").has('./globals'),
+      true,
+    );
+  });
+
+  it('should find every statement when several share a line', () => {
+    const content = 'export {a} from "x"; export {b} from "y"; import "./z";';
+
+    assert.deepStrictEqual(
+      findBarrelModuleStatements(content).map((stmt) => [stmt.modulePath, stmt.sideEffectImport]),
+      [
+        ['x', false],
+        ['y', false],
+        ['./z', true],
+      ],
+    );
+    assert.deepStrictEqual([...extractAllExportPaths(content)], ['x', 'y', './z']);
+  });
+
+  it('should ignore comments and strings that look like exports', () => {
+    const content = [
+      "// export { old } from './old.js';",
+      "/* import './legacy'; */",
+      'export const note = "export { a } from \'./a.js\'";',
+      "export * as ns from './ns';",
+    ].join('\n');
+
+    assert.deepStrictEqual([...extractAllExportPaths(content)], ['./ns']);
+    assert.strictEqual(detectExtensionFromBarrelContent(content), '');
+  });
+
+  it('should locate statements with their trailing and leading comments', () => {
+    const content = "// keep me\nexport * from './a.js'; // note\nexport const b = 1;";
+    const [statement] = findBarrelModuleStatements(content);
+
+    assert.deepStrictEqual(statement, {
+      modulePath: './a.js',
+      sideEffectImport: false,
+      start: content.indexOf('export *'),
+      end: content.indexOf('// note') + '// note'.length,
+      leadingComments: ['// keep me'],
+    });
+  });
+
   it('should detect extension patterns from barrel content', () => {
     assert.strictEqual(detectExtensionFromBarrelContent('const a = 1;'), null);
 
@@ -65,6 +116,35 @@ describe('Export Path Utils', () => {
     assert.strictEqual(detectExtensionFromBarrelContent(noExtContent), '');
   });
 
+  it('should detect the extension from re-exports of sources without a fixed extension', () => {
+    const mixedContent = [
+      "export { client } from './client.mjs';",
+      "export { legacy } from './legacy.cjs';",
+      "export { alpha } from './alpha';",
+    ].join('\n');
+    assert.strictEqual(detectExtensionFromBarrelContent(mixedContent), '');
+
+    const componentContent = [
+      "export { default as Button } from './Button.vue';",
+      "export { alpha } from './alpha.js';",
+    ].join('\n');
+    assert.strictEqual(detectExtensionFromBarrelContent(componentContent), '.js');
+
+    const cjsContent = "export { legacy } from './legacy.cjs';";
+    assert.strictEqual(detectExtensionFromBarrelContent(cjsContent), '.cjs');
+  });
+
+  it('should detect TypeScript extensions from barrel content', () => {
+    const tsContent = [
+      "export { alpha } from './alpha.ts';",
+      "export { View } from './view.tsx';",
+    ].join('\n');
+    assert.strictEqual(detectExtensionFromBarrelContent(tsContent), '.ts');
+
+    const jsonContent = "export { alpha } from './alpha.json.js';";
+    assert.strictEqual(detectExtensionFromBarrelContent(jsonContent), '.js');
+  });
+
   it('should return null for extension checks on non-export lines', () => {
     assert.strictEqual(extractExtensionFromLine('const alpha = 1;'), null);
   });
@@ -0,0 +1,123 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { ImportCycleDetector } from '../../../../core/barrel/import-cycle.detector.js';
+import { FileSystemService } from '../../../../core/io/file-system.service.js';
+import { ImportParser } from '../../../../core/parser/import.parser.js';
+
+describe('ImportCycleDetector', () => {
+  let tmpDir: string;
+  let fileSystem: FileSystemService;
+  let detector: ImportCycleDetector;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    detector = new ImportCycleDetector(fileSystem, new ImportParser());
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-cycles-'));
+    await fileSystem.ensureDirectory(path.join(tmpDir, 'utils'));
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  it('should return the path of the cycle a barrel closes', async () => {
+    const barrelPath = path.join(tmpDir, 'index.ts');
+    const utilsBarrelPath = path.join(tmpDir, 'utils', 'index.ts');
+    const fooPath = path.join(tmpDir, 'utils', 'foo.ts');
+    await fileSystem.writeFile(utilsBarrelPath, "export { foo } from './foo.js';\n");
+    await fileSystem.writeFile(
+      fooPath,
+      "import { bar } from '../index.js';\nexport const foo = bar;",
+    );
+
+    const cycle = await detector.findCycle(
+      barrelPath,
+      "export * from './utils/index.js';\n",
+      tmpDir,
+    );
+
+    assert.deepStrictEqual(cycle, [barrelPath, utilsBarrelPath, fooPath, barrelPath]);
+  });
+
+  it('should follow module and JavaScript specifiers to their source files', async () => {
+    const barrelPath = path.join(tmpDir, 'index.ts');
+    const clientPath = path.join(tmpDir, 'utils', 'client.mts');
+    const helperPath = path.join(tmpDir, 'utils', 'helper.js');
+    await fileSystem.writeFile(clientPath, "import { helper } from './helper.js';\nexport {};");
+    await fileSystem.writeFile(helperPath, "import '../index.js';\nexport const helper = 1;");
+
+    const cycle = await detector.findCycle(
+      barrelPath,
+      "export * from './utils/client.mjs';\n",
+      tmpDir,
+    );
+
+    assert.deepStrictEqual(cycle, [barrelPath, clientPath, helperPath, barrelPath]);
+  });
+
+  it('should return undefined when no member imports the barrel', async () => {
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'utils', 'foo.ts'),
+      "import { helper } from './helper';\nexport const foo = helper;",
+    );
+    await fileSystem.writeFile(path.join(tmpDir, 'utils', 'helper.ts'), 'export const helper = 1;');
+
+    const cycle = await detector.findCycle(
+      path.join(tmpDir, 'index.ts'),
+      "export { foo } from './utils/foo.js';\n",
+      tmpDir,
+    );
+
+    assert.strictEqual(cycle, undefined);
+  });
+
+  it('should analyze planned barrels with their new content', async () => {
+    const barrelPath = path.join(tmpDir, 'index.ts');
+    const utilsBarrelPath = path.join(tmpDir, 'utils', 'index.ts');
+    const fooPath = path.join(tmpDir, 'utils', 'foo.ts');
+    await fileSystem.writeFile(fooPath, "import '../index.js';\nexport const foo = 1;");
+
+    await detector.findCycle(utilsBarrelPath, "export { foo } from './foo.js';\n", tmpDir);
+    const cycle = await detector.findCycle(
+      barrelPath,
+      "export * from './utils/index.js';\n",
+      tmpDir,
+    );
+
+    assert.deepStrictEqual(cycle, [barrelPath, utilsBarrelPath, fooPath, barrelPath]);
+  });
+
+  it('should not follow imports that leave the scope directory', async () => {
+    const scopePath = path.join(tmpDir, 'utils');
+    await fileSystem.writeFile(path.join(scopePath, 'foo.ts'), "import '../outside.js';");
+    await fileSystem.writeFile(path.join(tmpDir, 'outside.ts'), "import './utils/index.js';");
+
+    const cycle = await detector.findCycle(
+      path.join(scopePath, 'index.ts'),
+      "export * from './foo.js';\n",
+      scopePath,
+    );
+
+    assert.strictEqual(cycle, undefined);
+  });
+});
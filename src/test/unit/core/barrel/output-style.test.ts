@@ -0,0 +1,237 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  assignNamespaces,
+  createNamespaceName,
+  listDirectoryExports,
+  listForwardedExports,
+  requiresNamedExports,
+  toForwardedExports,
+} from '../../../../core/barrel/output-style.js';
+import {
+  type BarrelEntry,
+  BarrelEntryKind,
+  BarrelExportKind,
+  ParsedExportKind,
+} from '../../../../types/index.js';
+
+describe('output style', () => {
+  describe('createNamespaceName', () => {
+    const cases: Array<{ relativePath: string; kind: BarrelEntryKind; expected: string }> = [
+      { relativePath: 'string-utils.ts', kind: BarrelEntryKind.File, expected: 'stringUtils' },
+      { relativePath: 'user_service.mts', kind: BarrelEntryKind.File, expected: 'userService' },
+      { relativePath: 'Button.vue', kind: BarrelEntryKind.File, expected: 'Button' },
+      { relativePath: '2d-math.ts', kind: BarrelEntryKind.File, expected: '_2dMath' },
+      { relativePath: 'v1.2', kind: BarrelEntryKind.Directory, expected: 'v12' },
+    ];
+
+    for (const { relativePath, kind, expected } of cases) {
+      it(`should name ${relativePath} ${expected}`, () => {
+        assert.strictEqual(createNamespaceName(relativePath, kind), expected);
+      });
+    }
+  });
+
+  describe('requiresNamedExports', () => {
+    it('should require names for explicit files and files with renamed exports', () => {
+      assert.strictEqual(
+        requiresNamedExports({
+          kind: BarrelEntryKind.File,
+          exports: [{ kind: BarrelExportKind.Value, name: 'alpha' }],
+          explicit: true,
+        }),
+        true,
+      );
+      assert.strictEqual(
+        requiresNamedExports({
+          kind: BarrelEntryKind.File,
+          exports: [{ kind: BarrelExportKind.Type, name: 'Alpha', alias: 'FirstAlpha' }],
+        }),
+        true,
+      );
+      assert.strictEqual(
+        requiresNamedExports({
+          kind: BarrelEntryKind.File,
+          exports: [
+            { kind: BarrelExportKind.Value, name: 'alpha' },
+            { kind: BarrelExportKind.Default, alias: 'Alpha' },
+          ],
+        }),
+        false,
+      );
+      assert.strictEqual(requiresNamedExports({ kind: BarrelEntryKind.Directory }), false);
+    });
+  });
+
+  describe('assignNamespaces', () => {
+    it('should name directories and files that can be wrapped in a namespace', () => {
+      const entries = new Map<string, BarrelEntry>([
+        [
+          'alpha.ts',
+          { kind: BarrelEntryKind.File, exports: [{ kind: BarrelExportKind.Value, name: 'a' }] },
+        ],
+        [
+          'Button.vue',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Default, alias: 'Button' }],
+          },
+        ],
+        [
+          'partial.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Value, name: 'b' }],
+            explicit: true,
+          },
+        ],
+        ['nested', { kind: BarrelEntryKind.Directory }],
+      ]);
+
+      assignNamespaces(entries);
+
+      assert.strictEqual(entries.get('alpha.ts')?.namespace, 'alpha');
+      assert.strictEqual(entries.get('Button.vue')?.namespace, undefined);
+      assert.strictEqual(entries.get('partial.ts')?.namespace, undefined);
+      assert.strictEqual(entries.get('nested')?.namespace, 'nested');
+    });
+  });
+
+  describe('listForwardedExports', () => {
+    it('should list exports under their exported names', () => {
+      const entries = new Map<string, BarrelEntry>([
+        [
+          'alpha.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [
+              { kind: BarrelExportKind.Value, name: 'alpha', alias: 'firstAlpha' },
+              { kind: BarrelExportKind.Type, name: 'Alpha' },
+              { kind: BarrelExportKind.Default },
+              { kind: BarrelExportKind.SideEffect },
+            ],
+          },
+        ],
+        [
+          'Button.vue',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Default, alias: 'Button' }],
+          },
+        ],
+        ['models', { kind: BarrelEntryKind.Directory, namespace: 'models' }],
+      ]);
+
+      assert.deepStrictEqual(listForwardedExports(entries), [
+        { kind: BarrelExportKind.Value, name: 'firstAlpha' },
+        { kind: BarrelExportKind.Type, name: 'Alpha' },
+        { kind: BarrelExportKind.Value, name: 'Button' },
+        { kind: BarrelExportKind.Value, name: 'models' },
+      ]);
+    });
+
+    it('should return undefined when an entry forwards unknown names', () => {
+      const starFile = new Map<string, BarrelEntry>([
+        [
+          'facade.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Star, typeOnly: false }],
+          },
+        ],
+      ]);
+      const wildcardDirectory = new Map<string, BarrelEntry>([
+        ['nested', { kind: BarrelEntryKind.Directory }],
+      ]);
+
+      assert.strictEqual(listForwardedExports(starFile), undefined);
+      assert.strictEqual(listForwardedExports(wildcardDirectory), undefined);
+    });
+  });
+
+  describe('listDirectoryExports', () => {
+    it('should list each name once and keep export * for unknown directories', () => {
+      const entries = new Map<string, BarrelEntry>([
+        [
+          'alpha.ts',
+          {
+            kind: BarrelEntryKind.File,
+            exports: [{ kind: BarrelExportKind.Value, name: 'shared' }],
+          },
+        ],
+        ['first', { kind: BarrelEntryKind.Directory }],
+        ['second', { kind: BarrelEntryKind.Directory }],
+        ['third', { kind: BarrelEntryKind.Directory }],
+      ]);
+
+      listDirectoryExports(
+        entries,
+        new Map([
+          [
+            'first',
+            [
+              { kind: BarrelExportKind.Value, name: 'shared' },
+              { kind: BarrelExportKind.Type, name: 'First' },
+              { kind: BarrelExportKind.Value, name: 'common' },
+            ],
+          ],
+          ['second', [{ kind: BarrelExportKind.Value, name: 'common' }]],
+          ['third', undefined],
+        ]),
+      );
+
+      assert.deepStrictEqual(entries.get('first'), {
+        kind: BarrelEntryKind.Directory,
+        exports: [
+          { kind: BarrelExportKind.Type, name: 'First' },
+          { kind: BarrelExportKind.Value, name: 'common' },
+        ],
+      });
+      assert.deepStrictEqual(entries.get('second'), { kind: BarrelEntryKind.Directory });
+      assert.deepStrictEqual(entries.get('third'), { kind: BarrelEntryKind.Directory });
+    });
+  });
+
+  describe('toForwardedExports', () => {
+    it('should convert parsed barrel exports and skip default exports', () => {
+      assert.deepStrictEqual(
+        toForwardedExports([
+          { name: 'alpha', typeOnly: false },
+          { name: 'Alpha', typeOnly: true },
+          { name: 'default', typeOnly: false },
+          { name: 'utils', typeOnly: false, kind: ParsedExportKind.Namespace },
+        ]),
+        [
+          { kind: BarrelExportKind.Value, name: 'alpha' },
+          { kind: BarrelExportKind.Type, name: 'Alpha' },
+          { kind: BarrelExportKind.Value, name: 'utils' },
+        ],
+      );
+    });
+
+    it('should return undefined for barrels with export * lines', () => {
+      assert.strictEqual(
+        toForwardedExports([{ name: '*', typeOnly: false, kind: ParsedExportKind.Star }]),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { applyEndOfLine, formatStatement } from '../../../../core/barrel/statement-format.js';
+import { DEFAULT_BARREL_FORMAT, type IBarrelFormatOptions } from '../../../../types/index.js';
+
+describe('statement-format', () => {
+  const prettierFormat: IBarrelFormatOptions = {
+    ...DEFAULT_BARREL_FORMAT,
+    quote: '"',
+    printWidth: 40,
+  };
+
+  describe('formatStatement', () => {
+    it('should leave statements unchanged with the default format', () => {
+      const statement = "export { alpha, beta, gamma, delta, epsilon } from './greek.js';";
+
+      assert.strictEqual(formatStatement(statement, DEFAULT_BARREL_FORMAT), statement);
+    });
+
+    it('should use the configured quote and omit semicolons when disabled', () => {
+      const format = { ...prettierFormat, semicolons: false };
+
+      assert.strictEqual(
+        formatStatement("export * from './utils.js';", format),
+        'export * from "./utils.js"',
+      );
+      assert.strictEqual(
+        formatStatement("import './polyfill.js';", format),
+        'import "./polyfill.js"',
+      );
+    });
+
+    it('should wrap export lists longer than the print width', () => {
+      const statement = "export type { Alpha, Beta, Gamma } from './greek.js';";
+
+      assert.strictEqual(
+        formatStatement(statement, prettierFormat),
+        ['export type {', '  Alpha,', '  Beta,', '  Gamma,', '} from "./greek.js";'].join('\n'),
+      );
+    });
+
+    it('should indent wrapped specifiers without a trailing comma when disabled', () => {
+      const format = { ...prettierFormat, indent: '\t', trailingComma: false };
+      const statement = "export { alpha, default as greek } from './greek.js';";
+
+      assert.strictEqual(
+        formatStatement(statement, format),
+        ['export {', '\talpha,', '\tdefault as greek', '} from "./greek.js";'].join('\n'),
+      );
+    });
+
+    it('should not wrap statements without an export list', () => {
+      const statement = "export * as greekLetters from './greek-letters.js';";
+
+      assert.strictEqual(
+        formatStatement(statement, prettierFormat),
+        'export * as greekLetters from "./greek-letters.js";',
+      );
+    });
+  });
+
+  describe('applyEndOfLine', () => {
+    it('should convert line feeds to CRLF', () => {
+      assert.strictEqual(applyEndOfLine('a\nb\n', '\r\n'), 'a\r\nb\r\n');
+    });
+
+    it('should keep line feeds for LF', () => {
+      assert.strictEqual(applyEndOfLine('a\nb\n', '\n'), 'a\nb\n');
+    });
+  });
+});
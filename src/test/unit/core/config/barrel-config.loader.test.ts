@@ -0,0 +1,199 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { BarrelConfigLoader } from '../../../../core/config/barrel-config.loader.js';
+import { FileSystemService } from '../../../../core/io/file-system.service.js';
+
+describe('BarrelConfigLoader', () => {
+  let tmpDir: string;
+  let fileSystem: FileSystemService;
+  let loader: BarrelConfigLoader;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    loader = new BarrelConfigLoader(fileSystem);
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-config-'));
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  describe('resolve', () => {
+    it('should return no options when no configuration files exist', async () => {
+      assert.deepStrictEqual(await loader.resolve(tmpDir), {});
+    });
+
+    it('should read options from .barrelrc.json', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ exportExtension: '', maxDepth: 3 }),
+      );
+
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { exportExtension: '', maxDepth: 3 });
+    });
+
+    it('should read options from the barrelRoll key in package.json', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'package.json'),
+        JSON.stringify({ name: 'pkg', barrelRoll: { indexFilename: 'barrel.ts' } }),
+      );
+
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { indexFilename: 'barrel.ts' });
+    });
+
+    it('should prefer .barrelrc.json over package.json in the same directory', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'package.json'),
+        JSON.stringify({ barrelRoll: { exportExtension: '.mjs', maxDepth: 4 } }),
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ exportExtension: '' }),
+      );
+
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { exportExtension: '', maxDepth: 4 });
+    });
+
+    it('should merge ancestor configuration with the nearest file taking precedence', async () => {
+      const packageDir = path.join(tmpDir, 'packages', 'app');
+      const sourceDir = path.join(packageDir, 'src');
+      await fileSystem.ensureDirectory(sourceDir);
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ exportExtension: '.js', batchSize: 5, exclude: ['**/lib'] }),
+      );
+      await fileSystem.writeFile(
+        path.join(packageDir, '.barrelrc.json'),
+        JSON.stringify({ exportExtension: '', exclude: [] }),
+      );
+
+      assert.deepStrictEqual(await loader.resolve(sourceDir), {
+        exportExtension: '',
+        batchSize: 5,
+        exclude: [],
+      });
+    });
+
+    it('should ignore unrecognized keys', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ recursive: true, comment: 'ignored', maxDepth: 2 }),
+      );
+
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { maxDepth: 2 });
+    });
+
+    it('should throw when a configuration file contains invalid JSON', async () => {
+      const rcPath = path.join(tmpDir, '.barrelrc.json');
+      await fileSystem.writeFile(rcPath, '{ maxDepth: ');
+
+      await assert.rejects(loader.resolve(tmpDir), (error: Error) =>
+        error.message.startsWith(`Invalid barrel configuration in ${rcPath}:`),
+      );
+    });
+
+    it('should throw when an option has an invalid value', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ maxDepth: -1 }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"maxDepth" has an invalid value/);
+    });
+
+    it('should require respectGitignore to be a boolean', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ respectGitignore: 'false' }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"respectGitignore" has an invalid value/);
+    });
+
+    it('should accept a known collision strategy', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ collisionStrategy: 'keepFirst' }),
+      );
+
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { collisionStrategy: 'keepFirst' });
+    });
+
+    it('should reject an unknown collision strategy', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ collisionStrategy: 'rename' }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"collisionStrategy" has an invalid value/);
+    });
+
+    it('should reject an unknown import cycle check', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ importCycleCheck: 'error' }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"importCycleCheck" has an invalid value/);
+    });
+
+    it('should reject an unknown parse mode', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ parseMode: 'typed' }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"parseMode" has an invalid value/);
+    });
+
+    it('should reject ignore tags that are not a list of strings', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ ignoreTags: 'internal' }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"ignoreTags" has an invalid value/);
+    });
+
+    it('should reject source extensions that are not supported', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.barrelrc.json'),
+        JSON.stringify({ sourceExtensions: ['.ts', '.md'] }),
+      );
+
+      await assert.rejects(loader.resolve(tmpDir), /"sourceExtensions" has an invalid value/);
+    });
+
+    it('should reuse cached configuration until the cache is cleared', async () => {
+      const rcPath = path.join(tmpDir, '.barrelrc.json');
+      await fileSystem.writeFile(rcPath, JSON.stringify({ maxDepth: 2 }));
+      await loader.resolve(tmpDir);
+
+      await fileSystem.writeFile(rcPath, JSON.stringify({ maxDepth: 7 }));
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { maxDepth: 2 });
+
+      loader.clearCache();
+      assert.deepStrictEqual(await loader.resolve(tmpDir), { maxDepth: 7 });
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { BarrelFormatResolver } from '../../../../core/config/barrel-format.resolver.js';
+import { FileSystemService } from '../../../../core/io/file-system.service.js';
+import { DEFAULT_BARREL_FORMAT } from '../../../../types/index.js';
+
+describe('BarrelFormatResolver', () => {
+  let tmpDir: string;
+  let barrelPath: string;
+  let fileSystem: FileSystemService;
+  let resolver: BarrelFormatResolver;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    resolver = new BarrelFormatResolver();
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-format-'));
+    barrelPath = path.join(tmpDir, 'src', 'index.ts');
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  describe('resolve', () => {
+    it('should return the default format when no configuration exists', async () => {
+      assert.deepStrictEqual(await resolver.resolve(barrelPath), DEFAULT_BARREL_FORMAT);
+    });
+
+    it('should apply Prettier defaults under the options of a JSON .prettierrc', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.prettierrc'),
+        JSON.stringify({ printWidth: 100, semi: false, trailingComma: 'none', tabWidth: 4 }),
+      );
+
+      assert.deepStrictEqual(await resolver.resolve(barrelPath), {
+        quote: '"',
+        semicolons: false,
+        printWidth: 100,
+        indent: '    ',
+        trailingComma: false,
+        endOfLine: '\n',
+      });
+    });
+
+    it('should read top-level options from a YAML .prettierrc.yaml', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.prettierrc.yaml'),
+        'singleQuote: true # match the style guide\nuseTabs: true\nendOfLine: "crlf"\n',
+      );
+
+      const format = await resolver.resolve(barrelPath);
+
+      assert.strictEqual(format.quote, "'");
+      assert.strictEqual(format.indent, '\t');
+      assert.strictEqual(format.endOfLine, '\r\n');
+    });
+
+    it('should read the prettier key of package.json before .prettierrc', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'package.json'),
+        JSON.stringify({ name: 'app', prettier: { singleQuote: true } }),
+      );
+      await fileSystem.writeFile(path.join(tmpDir, '.prettierrc'), '{ "printWidth": 40 }');
+
+      const format = await resolver.resolve(barrelPath);
+
+      assert.strictEqual(format.quote, "'");
+      assert.strictEqual(format.printWidth, 80);
+    });
+
+    it('should apply overrides whose files match the barrel', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.prettierrc.json'),
+        JSON.stringify({
+          singleQuote: true,
+          overrides: [
+            { files: 'src/**/*.ts', options: { printWidth: 120 } },
+            { files: ['*.ts'], excludeFiles: 'src/index.ts', options: { semi: false } },
+            { files: '*.js', options: { singleQuote: false } },
+          ],
+        }),
+      );
+
+      const format = await resolver.resolve(barrelPath);
+
+      assert.strictEqual(format.quote, "'");
+      assert.strictEqual(format.printWidth, 120);
+      assert.strictEqual(format.semicolons, true);
+    });
+
+    it('should read the nearest Prettier configuration when it is a script', async () => {
+      await fileSystem.ensureDirectory(path.join(tmpDir, 'src'));
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'src', 'prettier.config.cjs'),
+        'module.exports = { singleQuote: true };',
+      );
+      await fileSystem.writeFile(path.join(tmpDir, '.prettierrc'), '{ "semi": false }');
+
+      const format = await resolver.resolve(barrelPath);
+
+      assert.strictEqual(format.quote, "'");
+      assert.strictEqual(format.semicolons, true);
+    });
+
+    it('should read a TOML .prettierrc.toml', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.prettierrc.toml'),
+        'semi = false\ntrailingComma = "none"\n',
+      );
+
+      const format = await resolver.resolve(barrelPath);
+
+      assert.strictEqual(format.semicolons, false);
+      assert.strictEqual(format.trailingComma, false);
+    });
+
+    it('should read matching .editorconfig sections', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.editorconfig'),
+        [
+          'root = true',
+          '',
+          '[*]',
+          'indent_style = space',
+          'indent_size = 4',
+          'end_of_line = crlf',
+          '',
+          '# TypeScript sources',
+          '[*.{ts,tsx}]',
+          'quote_type = double',
+          'max_line_length = 100',
+          '',
+          '[*.md]',
+          'max_line_length = off',
+        ].join('\n'),
+      );
+
+      assert.deepStrictEqual(await resolver.resolve(barrelPath), {
+        ...DEFAULT_BARREL_FORMAT,
+        quote: '"',
+        printWidth: 100,
+        indent: '    ',
+        endOfLine: '\r\n',
+      });
+    });
+
+    it('should let nearer .editorconfig files win and stop at the root file', async () => {
+      const projectPath = path.join(tmpDir, 'project');
+      await fileSystem.ensureDirectory(path.join(projectPath, 'src'));
+      await fileSystem.writeFile(path.join(tmpDir, '.editorconfig'), '[*]\nquote_type = double\n');
+      await fileSystem.writeFile(
+        path.join(projectPath, '.editorconfig'),
+        'root = true\n[*]\nindent_style = tab\nmax_line_length = 60\n',
+      );
+      await fileSystem.writeFile(
+        path.join(projectPath, 'src', '.editorconfig'),
+        '[index.ts]\nmax_line_length = 90\n',
+      );
+
+      const format = await resolver.resolve(path.join(projectPath, 'src', 'index.ts'));
+
+      assert.strictEqual(format.quote, "'");
+      assert.strictEqual(format.indent, '\t');
+      assert.strictEqual(format.printWidth, 90);
+    });
+
+    it('should let Prettier options take precedence over .editorconfig', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, '.editorconfig'),
+        '[*]\nmax_line_length = 120\nquote_type = double\n',
+      );
+      await fileSystem.writeFile(path.join(tmpDir, '.prettierrc'), '{ "printWidth": 100 }');
+
+      const format = await resolver.resolve(barrelPath);
+
+      assert.strictEqual(format.printWidth, 100);
+      assert.strictEqual(format.quote, '"');
+    });
+
+    it('should return the default format when Prettier cannot be loaded', async () => {
+      const unavailable = new BarrelFormatResolver(() =>
+        Promise.reject(new Error("Cannot find module 'prettier'")),
+      );
+      await fileSystem.writeFile(path.join(tmpDir, '.prettierrc'), '{ "semi": false }');
+
+      await unavailable.clearCache();
+
+      assert.deepStrictEqual(await unavailable.resolve(barrelPath), DEFAULT_BARREL_FORMAT);
+    });
+
+    it('should pick up configuration changes after clearCache', async () => {
+      assert.strictEqual((await resolver.resolve(barrelPath)).semicolons, true);
+      await fileSystem.writeFile(path.join(tmpDir, '.prettierrc'), '{ "semi": false }');
+
+      await resolver.clearCache();
+
+      assert.strictEqual((await resolver.resolve(barrelPath)).semicolons, false);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { ts } from 'ts-morph';
+
+import {
+  ExportExtensionResolver,
+  getExportExtensionForCompilerOptions,
+} from '../../../../core/config/export-extension.resolver.js';
+import { FileSystemService } from '../../../../core/io/file-system.service.js';
+
+describe('getExportExtensionForCompilerOptions', () => {
+  const cases: Array<{ name: string; options: ts.CompilerOptions; expected: string }> = [
+    {
+      name: 'node16 resolution',
+      options: { moduleResolution: ts.ModuleResolutionKind.Node16 },
+      expected: '.js',
+    },
+    {
+      name: 'nodenext resolution',
+      options: { moduleResolution: ts.ModuleResolutionKind.NodeNext },
+      expected: '.js',
+    },
+    {
+      name: 'bundler resolution',
+      options: { moduleResolution: ts.ModuleResolutionKind.Bundler },
+      expected: '',
+    },
+    {
+      name: 'node10 resolution',
+      options: { moduleResolution: ts.ModuleResolutionKind.Node10 },
+      expected: '',
+    },
+    {
+      name: 'a nodenext module without an explicit resolution',
+      options: { module: ts.ModuleKind.NodeNext },
+      expected: '.js',
+    },
+    {
+      name: 'an esnext module without an explicit resolution',
+      options: { module: ts.ModuleKind.ESNext },
+      expected: '',
+    },
+    {
+      name: 'allowImportingTsExtensions',
+      options: {
+        allowImportingTsExtensions: true,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+      },
+      expected: '.ts',
+    },
+  ];
+
+  for (const { name, options, expected } of cases) {
+    it(`should return '${expected}' for ${name}`, () => {
+      assert.strictEqual(getExportExtensionForCompilerOptions(options), expected);
+    });
+  }
+});
+
+describe('ExportExtensionResolver', () => {
+  let tmpDir: string;
+  let fileSystem: FileSystemService;
+  let resolver: ExportExtensionResolver;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    resolver = new ExportExtensionResolver();
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-tsconfig-'));
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  describe('resolve', () => {
+    it('should return undefined when no tsconfig.json exists', () => {
+      assert.strictEqual(resolver.resolve(tmpDir), undefined);
+    });
+
+    it('should read the nearest tsconfig.json in a parent directory', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { module: 'esnext', moduleResolution: 'bundler' } }),
+      );
+
+      assert.strictEqual(resolver.resolve(path.join(tmpDir, 'src', 'utils')), '');
+    });
+
+    it('should follow extends to the base configuration', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.base.json'),
+        JSON.stringify({ compilerOptions: { module: 'nodenext', moduleResolution: 'nodenext' } }),
+      );
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        JSON.stringify({ extends: './tsconfig.base.json', compilerOptions: { strict: true } }),
+      );
+
+      assert.strictEqual(resolver.resolve(tmpDir), '.js');
+    });
+
+    it('should accept comments and trailing commas in tsconfig.json', async () => {
+      await fileSystem.writeFile(
+        path.join(tmpDir, 'tsconfig.json'),
+        `{
+  // Deno-style imports
+  "compilerOptions": {
+    "allowImportingTsExtensions": true,
+    "noEmit": true,
+  },
+}`,
+      );
+
+      assert.strictEqual(resolver.resolve(tmpDir), '.ts');
+    });
+
+    it('should return undefined when tsconfig.json cannot be parsed', async () => {
+      await fileSystem.writeFile(path.join(tmpDir, 'tsconfig.json'), '{ "compilerOptions": ');
+
+      assert.strictEqual(resolver.resolve(tmpDir), undefined);
+    });
+
+    it('should cache results until the cache is cleared', async () => {
+      const configPath = path.join(tmpDir, 'tsconfig.json');
+      await fileSystem.writeFile(
+        configPath,
+        JSON.stringify({ compilerOptions: { moduleResolution: 'bundler' } }),
+      );
+      assert.strictEqual(resolver.resolve(tmpDir), '');
+
+      await fileSystem.writeFile(
+        configPath,
+        JSON.stringify({ compilerOptions: { moduleResolution: 'node16', module: 'node16' } }),
+      );
+      assert.strictEqual(resolver.resolve(tmpDir), '');
+
+      resolver.clearCache();
+      assert.strictEqual(resolver.resolve(tmpDir), '.js');
+    });
+  });
+});
@@ -162,9 +162,86 @@ describe('FileSystemService', () => {
       { entry: createFileEntry('component.spec.tsx'), shouldInclude: false },
       { entry: createFileEntry('component.test.tsx'), shouldInclude: false },
       { entry: createFileEntry('main.js'), shouldInclude: false },
+      { entry: createFileEntry('module.mts'), shouldInclude: true },
+      { entry: createFileEntry('legacy.cjs'), shouldInclude: false },
+      { entry: createFileEntry('index.js'), shouldInclude: false },
+      { entry: createFileEntry('types.d.mts'), shouldInclude: false },
+      { entry: createFileEntry('main.test.js'), shouldInclude: false },
+      { entry: createFileEntry('readme.md'), shouldInclude: false },
       { entry: createDirectoryEntry('nested'), shouldInclude: false },
     ];
 
+    it('should filter files with include and exclude patterns', async () => {
+      const mockEntries: Dirent[] = [
+        createFileEntry('Button.tsx'),
+        createFileEntry('Button.stories.tsx'),
+        createFileEntry('button.fixture.ts'),
+        createFileEntry('helpers.ts'),
+      ];
+      mockFs.readdir.mockResolvedValue(mockEntries as never);
+
+      const result = await service.getTypeScriptFiles('/workspace/src/components', {
+        include: ['src/**/*.tsx', 'src/**/helpers.ts'],
+        exclude: ['**/*.{stories,fixture}.{ts,tsx}'],
+        rootPath: '/workspace',
+      });
+
+      assert.deepStrictEqual(result, [
+        path.join('/workspace/src/components', 'Button.tsx'),
+        path.join('/workspace/src/components', 'helpers.ts'),
+      ]);
+    });
+
+    it('should exclude a configured barrel filename instead of index.ts', async () => {
+      const mockEntries: Dirent[] = [
+        createFileEntry(INDEX_FILENAME),
+        createFileEntry('barrel.ts'),
+        createFileEntry('file.ts'),
+      ];
+      mockFs.readdir.mockResolvedValue(mockEntries as never);
+
+      const result = await service.getTypeScriptFiles(directoryPath, {
+        indexFilename: 'barrel.ts',
+      });
+
+      assert.deepStrictEqual(result, [
+        path.join(directoryPath, INDEX_FILENAME),
+        path.join(directoryPath, 'file.ts'),
+      ]);
+    });
+
+    it('should only return files with the configured source extensions', async () => {
+      mockFs.readdir.mockResolvedValue([
+        createFileEntry('api.ts'),
+        createFileEntry('client.mts'),
+        createFileEntry('legacy.js'),
+      ] as never);
+
+      const result = await service.getTypeScriptFiles(directoryPath, {
+        sourceExtensions: ['.ts', '.mts'],
+      });
+
+      assert.deepStrictEqual(result, [
+        path.join(directoryPath, 'api.ts'),
+        path.join(directoryPath, 'client.mts'),
+      ]);
+    });
+
+    it('should skip files rejected by the ignore matcher', async () => {
+      mockFs.readdir.mockResolvedValue([
+        createFileEntry('api.ts'),
+        createFileEntry('api.generated.ts'),
+      ] as never);
+      const ignoreMatcher = {
+        isIgnored: async (targetPath: string, isDirectory: boolean) =>
+          !isDirectory && targetPath.endsWith('.generated.ts'),
+      };
+
+      const result = await service.getTypeScriptFiles(directoryPath, { ignoreMatcher });
+
+      assert.deepStrictEqual(result, [path.join(directoryPath, 'api.ts')]);
+    });
+
     testEntriesFiltering(
       typeScriptEntryCases,
       (path) => service.getTypeScriptFiles(path),
@@ -216,6 +293,63 @@ describe('FileSystemService', () => {
       { entry: createFileEntry('readme.md'), shouldInclude: false },
     ];
 
+    it('should use configured exclude patterns instead of the defaults', async () => {
+      const mockEntries: Dirent[] = [
+        createDirectoryEntry('lib'),
+        createDirectoryEntry('Generated'),
+        createDirectoryEntry('src'),
+      ];
+      mockFs.readdir.mockResolvedValue(mockEntries as never);
+
+      const result = await service.getSubdirectories(directoryPath, {
+        exclude: ['**/generated'],
+      });
+
+      assert.deepStrictEqual(result, [
+        path.join(directoryPath, 'lib'),
+        path.join(directoryPath, 'src'),
+      ]);
+    });
+
+    it('should match exclude patterns against paths relative to the root path', async () => {
+      mockFs.readdir.mockResolvedValue([
+        createDirectoryEntry('generated'),
+        createDirectoryEntry('shared'),
+      ] as never);
+
+      const result = await service.getSubdirectories('/workspace/packages/app', {
+        exclude: ['packages/*/generated'],
+        rootPath: '/workspace',
+      });
+
+      assert.deepStrictEqual(result, [path.join('/workspace/packages/app', 'shared')]);
+    });
+
+    it('should skip paths rejected by the ignore matcher', async () => {
+      mockFs.readdir.mockResolvedValue([
+        createDirectoryEntry('generated'),
+        createDirectoryEntry('shared'),
+      ] as never);
+      const checkedPaths: string[] = [];
+      const ignoreMatcher = {
+        isIgnored: async (targetPath: string, isDirectory: boolean, rootPath: string) => {
+          checkedPaths.push(`${targetPath}|${isDirectory}|${rootPath}`);
+          return targetPath.endsWith('generated');
+        },
+      };
+
+      const result = await service.getSubdirectories('/workspace/src', {
+        rootPath: '/workspace',
+        ignoreMatcher,
+      });
+
+      assert.deepStrictEqual(result, [path.join('/workspace/src', 'shared')]);
+      assert.deepStrictEqual(checkedPaths, [
+        `${path.join('/workspace/src', 'generated')}|true|/workspace`,
+        `${path.join('/workspace/src', 'shared')}|true|/workspace`,
+      ]);
+    });
+
     testEntriesFiltering(
       subdirectoryCases,
       (path) => service.getSubdirectories(path),
@@ -0,0 +1,36 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { FileSystemSink } from '../../../../core/io/file-system.sink.js';
+
+describe('FileSystemSink', () => {
+  it('should write the new content of each change to its file', async () => {
+    const writes: Array<{ filePath: string; content: string }> = [];
+    const sink = new FileSystemSink({
+      writeFile: async (filePath, content) => {
+        writes.push({ filePath, content });
+      },
+    });
+
+    await sink.write({ filePath: '/src/index.ts', originalContent: '', newContent: 'next' });
+
+    assert.deepStrictEqual(writes, [{ filePath: '/src/index.ts', content: 'next' }]);
+  });
+});
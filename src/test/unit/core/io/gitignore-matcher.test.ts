@@ -0,0 +1,127 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FileSystemService } from '../../../../core/io/file-system.service.js';
+import { GitignoreMatcher } from '../../../../core/io/gitignore-matcher.js';
+
+describe('GitignoreMatcher', () => {
+  let tmpDir: string;
+  let fileSystem: FileSystemService;
+  let matcher: GitignoreMatcher;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    matcher = new GitignoreMatcher(fileSystem);
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-gitignore-'));
+    await fileSystem.ensureDirectory(path.join(tmpDir, '.git'));
+  });
+
+  afterEach(async () => {
+    await fileSystem.removePath(tmpDir);
+  });
+
+  /**
+   * Writes a `.gitignore` file into a directory below the temporary repository.
+   */
+  async function writeGitignore(relativeDirectory: string, content: string): Promise<void> {
+    const directory = path.join(tmpDir, relativeDirectory);
+    await fileSystem.ensureDirectory(directory);
+    await fileSystem.writeFile(path.join(directory, '.gitignore'), content);
+  }
+
+  /**
+   * Checks a path relative to the temporary repository.
+   */
+  function isIgnored(relativePath: string, isDirectory = false): Promise<boolean> {
+    return matcher.isIgnored(path.join(tmpDir, relativePath), isDirectory, tmpDir);
+  }
+
+  it('should not ignore anything when no .gitignore exists', async () => {
+    assert.strictEqual(await isIgnored('src/file.ts'), false);
+  });
+
+  it('should ignore files matching the root .gitignore', async () => {
+    await writeGitignore('', '*.generated.ts\n');
+
+    assert.strictEqual(await isIgnored('src/api.generated.ts'), true);
+    assert.strictEqual(await isIgnored('src/api.ts'), false);
+  });
+
+  it('should re-include files matched by a negated pattern', async () => {
+    await writeGitignore('', '*.generated.ts\n!keep.generated.ts\n');
+
+    assert.strictEqual(await isIgnored('src/keep.generated.ts'), false);
+  });
+
+  it('should apply anchored patterns only at the directory of the .gitignore', async () => {
+    await writeGitignore('', '/generated\n');
+
+    assert.strictEqual(await isIgnored('generated', true), true);
+    assert.strictEqual(await isIgnored('src/generated', true), false);
+  });
+
+  it('should apply directory-only patterns to directories but not files', async () => {
+    await writeGitignore('', 'cache/\n');
+
+    assert.strictEqual(await isIgnored('src/cache', true), true);
+    assert.strictEqual(await isIgnored('src/cache'), false);
+  });
+
+  it('should resolve nested .gitignore patterns relative to their own directory', async () => {
+    await writeGitignore('packages/app', '/fixtures\n');
+
+    assert.strictEqual(await isIgnored('packages/app/fixtures', true), true);
+    assert.strictEqual(await isIgnored('fixtures', true), false);
+  });
+
+  it('should let a nested .gitignore override its ancestors', async () => {
+    await writeGitignore('', '*.gen.ts\n');
+    await writeGitignore('packages/app', '!*.gen.ts\n');
+
+    assert.strictEqual(await isIgnored('packages/app/api.gen.ts'), false);
+    assert.strictEqual(await isIgnored('packages/lib/api.gen.ts'), true);
+  });
+
+  it('should apply .gitignore files above a nested workspace folder', async () => {
+    await writeGitignore('', 'generated/\n');
+    const workspaceRoot = path.join(tmpDir, 'packages', 'app');
+
+    const ignored = await matcher.isIgnored(
+      path.join(workspaceRoot, 'src', 'generated'),
+      true,
+      workspaceRoot,
+    );
+
+    assert.strictEqual(ignored, true);
+  });
+
+  it('should pick up edited .gitignore files after the cache is cleared', async () => {
+    await writeGitignore('', 'a.ts\n');
+    assert.strictEqual(await isIgnored('b.ts'), false);
+
+    await writeGitignore('', 'b.ts\n');
+    assert.strictEqual(await isIgnored('b.ts'), false);
+
+    matcher.clearCache();
+    assert.strictEqual(await isIgnored('b.ts'), true);
+  });
+});
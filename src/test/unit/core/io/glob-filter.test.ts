@@ -0,0 +1,106 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { GlobFilter } from '../../../../core/io/glob-filter.js';
+import { DEFAULT_EXCLUDE_PATTERNS, DEFAULT_INCLUDE_PATTERNS } from '../../../../types/index.js';
+
+describe('GlobFilter', () => {
+  describe('isFileIncluded', () => {
+    const defaultFilter = new GlobFilter(DEFAULT_INCLUDE_PATTERNS, DEFAULT_EXCLUDE_PATTERNS);
+    const defaultCases: Array<[string, boolean]> = [
+      ['src/alpha.ts', true],
+      ['src/Component.tsx', true],
+      ['src/types.d.ts', false],
+      ['src/alpha.test.ts', false],
+      ['src/Component.Spec.tsx', false],
+    ];
+
+    for (const [filePath, expected] of defaultCases) {
+      it(`should return ${expected} for ${filePath} with the default patterns`, () => {
+        assert.strictEqual(defaultFilter.isFileIncluded(filePath), expected);
+      });
+    }
+
+    it('should require a matching include pattern', () => {
+      const filter = new GlobFilter(['src/**/*.ts'], []);
+
+      assert.strictEqual(filter.isFileIncluded('src/a/b.ts'), true);
+      assert.strictEqual(filter.isFileIncluded('scripts/b.ts'), false);
+    });
+
+    it('should support brace expansion in exclude patterns', () => {
+      const filter = new GlobFilter(['**/*'], ['**/*.{stories,fixture}.{ts,tsx}']);
+
+      assert.strictEqual(filter.isFileIncluded('src/Button.stories.tsx'), false);
+      assert.strictEqual(filter.isFileIncluded('src/button.fixture.ts'), false);
+      assert.strictEqual(filter.isFileIncluded('src/Button.tsx'), true);
+    });
+
+    it('should let a later negated pattern re-include a file', () => {
+      const filter = new GlobFilter(['**/*'], ['**/*.test.ts', '!src/keep.test.ts']);
+
+      assert.strictEqual(filter.isFileIncluded('src/keep.test.ts'), true);
+      assert.strictEqual(filter.isFileIncluded('src/drop.test.ts'), false);
+    });
+
+    it('should accept Windows path separators', () => {
+      const filter = new GlobFilter(['src/**'], []);
+
+      assert.strictEqual(filter.isFileIncluded(String.raw`src\nested\a.ts`), true);
+    });
+  });
+
+  describe('isDirectoryIncluded', () => {
+    const defaultFilter = new GlobFilter(DEFAULT_INCLUDE_PATTERNS, DEFAULT_EXCLUDE_PATTERNS);
+    const defaultCases: Array<[string, boolean]> = [
+      ['src/components', true],
+      ['node_modules', false],
+      ['packages/app/node_modules', false],
+      ['src/.cache', false],
+      ['src/__tests__', false],
+      ['src/lib', false],
+    ];
+
+    for (const [directoryPath, expected] of defaultCases) {
+      it(`should return ${expected} for ${directoryPath} with the default patterns`, () => {
+        assert.strictEqual(defaultFilter.isDirectoryIncluded(directoryPath), expected);
+      });
+    }
+
+    it('should ignore include patterns for directories', () => {
+      const filter = new GlobFilter(['src/**/*.ts'], []);
+
+      assert.strictEqual(filter.isDirectoryIncluded('src/nested'), true);
+    });
+
+    it('should match directories against patterns ending in /**', () => {
+      const filter = new GlobFilter(['**/*'], ['**/generated/**']);
+
+      assert.strictEqual(filter.isDirectoryIncluded('src/generated'), false);
+    });
+
+    it('should traverse an excluded directory name that is re-included by negation', () => {
+      const filter = new GlobFilter(['**/*'], ['**/lib', '!packages/core/lib']);
+
+      assert.strictEqual(filter.isDirectoryIncluded('packages/core/lib'), true);
+      assert.strictEqual(filter.isDirectoryIncluded('packages/app/lib'), false);
+    });
+  });
+});
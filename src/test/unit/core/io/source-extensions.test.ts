@@ -0,0 +1,77 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  getBarrelFilenames,
+  hasSourceExtension,
+  resolveBarrelFilename,
+  toSpecifierPath,
+} from '../../../../core/io/source-extensions.js';
+
+describe('source extensions', () => {
+  describe('hasSourceExtension', () => {
+    it('should match extensions case-insensitively', () => {
+      assert.strictEqual(hasSourceExtension('Button.TSX', ['.ts', '.tsx']), true);
+      assert.strictEqual(hasSourceExtension('main.js', ['.ts', '.tsx']), false);
+      assert.strictEqual(hasSourceExtension('README', ['.ts']), false);
+    });
+  });
+
+  describe('toSpecifierPath', () => {
+    const cases: Array<{ filePath: string; exportExtension: string; expected: string }> = [
+      { filePath: 'alpha.ts', exportExtension: '.js', expected: 'alpha.js' },
+      { filePath: 'view.tsx', exportExtension: '', expected: 'view' },
+      { filePath: 'helper.js', exportExtension: '', expected: 'helper' },
+      { filePath: 'client.mts', exportExtension: '', expected: 'client.mjs' },
+      { filePath: 'legacy.cts', exportExtension: '.js', expected: 'legacy.cjs' },
+      { filePath: 'worker.mjs', exportExtension: '.js', expected: 'worker.mjs' },
+      { filePath: 'Button.vue', exportExtension: '.js', expected: 'Button.vue' },
+      { filePath: 'nested/index', exportExtension: '.js', expected: 'nested/index.js' },
+      { filePath: 'alpha.ts', exportExtension: '.ts', expected: 'alpha.ts' },
+      { filePath: 'view.tsx', exportExtension: '.ts', expected: 'view.tsx' },
+      { filePath: 'client.mts', exportExtension: '.ts', expected: 'client.mts' },
+    ];
+
+    for (const { filePath, exportExtension, expected } of cases) {
+      it(`should import ${filePath} as ${expected} with "${exportExtension}"`, () => {
+        assert.strictEqual(toSpecifierPath(filePath, exportExtension), expected);
+      });
+    }
+  });
+
+  describe('getBarrelFilenames', () => {
+    it('should add the JavaScript barrels of a TypeScript barrel filename', () => {
+      assert.deepStrictEqual(getBarrelFilenames('index.ts'), ['index.ts', 'index.js', 'index.mjs']);
+      assert.deepStrictEqual(getBarrelFilenames('barrel.js'), ['barrel.js']);
+    });
+  });
+
+  describe('resolveBarrelFilename', () => {
+    it('should keep the configured filename for directories holding TypeScript', () => {
+      assert.strictEqual(resolveBarrelFilename('index.ts', ['a.ts', 'b.js']), 'index.ts');
+      assert.strictEqual(resolveBarrelFilename('index.ts', []), 'index.ts');
+    });
+
+    it('should use a JavaScript barrel for directories holding only JavaScript', () => {
+      assert.strictEqual(resolveBarrelFilename('index.ts', ['a.js', 'b.mjs']), 'index.js');
+      assert.strictEqual(resolveBarrelFilename('barrel.ts', ['a.mjs', 'b.mjs']), 'barrel.mjs');
+      assert.strictEqual(resolveBarrelFilename('index.cjs', ['a.js']), 'index.cjs');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  DEFAULT_SOURCE_FILE_HANDLERS,
+  toComponentName,
+} from '../../../../core/parser/component-file.handler.js';
+
+const findHandler = (extension: string) => {
+  const handler = DEFAULT_SOURCE_FILE_HANDLERS.find((candidate) =>
+    candidate.extensions.includes(extension),
+  );
+  assert.ok(handler, `no handler for ${extension}`);
+  return handler;
+};
+
+describe('ComponentFileHandler', () => {
+  describe('toComponentName', () => {
+    const cases: Array<{ filePath: string; expected: string }> = [
+      { filePath: '/src/Button.vue', expected: 'Button' },
+      { filePath: '/src/date-picker.svelte', expected: 'DatePicker' },
+      { filePath: '/src/user_card.astro', expected: 'UserCard' },
+      { filePath: '/src/404.astro', expected: '_404' },
+      { filePath: '/src/+.svelte', expected: 'Component' },
+    ];
+
+    for (const { filePath, expected } of cases) {
+      it(`should name ${filePath} ${expected}`, () => {
+        assert.strictEqual(toComponentName(filePath), expected);
+      });
+    }
+  });
+
+  describe('extractModule', () => {
+    it('should join every script block of a Vue component', () => {
+      const content = [
+        '<template><div /></template>',
+        '<script lang="ts">',
+        'export const size = 1;',
+        'export default {};',
+        '</script>',
+        '<script setup lang="ts">',
+        'export interface ButtonProps {}',
+        '</script>',
+      ].join('\n');
+
+      const sourceModule = findHandler('.vue').extractModule(content, '/src/Button.vue');
+
+      assert.strictEqual(sourceModule.defaultExportName, 'Button');
+      assert.strictEqual(sourceModule.fileName, '/src/Button.vue.ts');
+      assert.ok(sourceModule.code.includes('export const size = 1;'));
+      assert.ok(sourceModule.code.includes('export interface ButtonProps {}'));
+    });
+
+    it('should parse scripts written with JSX as TSX', () => {
+      const content = '<script lang="tsx">export const icon = <span />;</script>';
+
+      const sourceModule = findHandler('.vue').extractModule(content, '/src/Icon.vue');
+
+      assert.strictEqual(sourceModule.fileName, '/src/Icon.vue.tsx');
+    });
+
+    it('should only read the module scripts of a Svelte component', () => {
+      const content = [
+        '<script context="module" lang="ts">export const preload = 1;</script>',
+        '<script module>export const shared = 2;</script>',
+        '<script lang="ts">export let label: string;</script>',
+        '<script type="module">export const inline = 3;</script>',
+      ].join('\n');
+
+      const sourceModule = findHandler('.svelte').extractModule(content, '/src/Card.svelte');
+
+      assert.ok(sourceModule.code.includes('preload'));
+      assert.ok(sourceModule.code.includes('shared'));
+      assert.ok(!sourceModule.code.includes('label'));
+      assert.ok(!sourceModule.code.includes('inline'));
+    });
+
+    it('should not read the browser scripts of an Astro component', () => {
+      const content = '---\nconst title = 1;\n---\n<script>export const x = 1;</script>';
+
+      const sourceModule = findHandler('.astro').extractModule(content, '/src/Layout.astro');
+
+      assert.strictEqual(sourceModule.code, '');
+      assert.strictEqual(sourceModule.defaultExportName, 'Layout');
+    });
+  });
+});
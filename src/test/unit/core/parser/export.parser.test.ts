@@ -19,6 +19,7 @@ import assert from 'node:assert/strict';
 import { beforeEach, describe, it } from 'node:test';
 
 import { ExportParser } from '../../../../core/parser/export.parser.js';
+import { ParsedExportKind } from '../../../../types/index.js';
 
 describe('ExportParser', () => {
   let parser: ExportParser;
@@ -176,6 +177,222 @@ describe('ExportParser', () => {
       assert.deepStrictEqual(exports, []);
     });
 
+    it('should record star re-exports as a single star export', () => {
+      const source = `
+        export * from './impl';
+        export * from './helpers';
+        export type * from './types';
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: '*', typeOnly: false, kind: ParsedExportKind.Star },
+      ]);
+    });
+
+    it('should record type-only star re-exports as type-only', () => {
+      const exports = parser.extractExports("export type * from './types';");
+      assert.deepStrictEqual(exports, [{ name: '*', typeOnly: true, kind: ParsedExportKind.Star }]);
+    });
+
+    it('should record namespace re-exports under their namespace name', () => {
+      const source = `
+        export * as utils from './utils';
+        export type * as models from './models';
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'utils', typeOnly: false, kind: ParsedExportKind.Namespace },
+        { name: 'models', typeOnly: true, kind: ParsedExportKind.Namespace },
+      ]);
+    });
+
+    it('should record ambient declare statements', () => {
+      const source = `
+        export declare const version: string;
+        export declare function start(): void;
+        export declare abstract class Plugin {}
+        export declare enum Level { Low }
+        export declare type Handler = () => void;
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'version', typeOnly: false },
+        { name: 'start', typeOnly: false },
+        { name: 'Plugin', typeOnly: false },
+        { name: 'Level', typeOnly: false },
+        { name: 'Handler', typeOnly: true },
+      ]);
+    });
+
+    it('should record each identifier bound by destructured variable exports', () => {
+      const source = `
+        export const { alpha, beta: renamed, nested: { gamma, deep: [delta] }, ...others } = config;
+        export let [first, , third = 3, [inner], ...tail] = values;
+        export const plain = 1, { late } = config;
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(
+        exports.map((exp) => exp.name),
+        [
+          'alpha',
+          'renamed',
+          'gamma',
+          'delta',
+          'others',
+          'first',
+          'third',
+          'inner',
+          'tail',
+          'plain',
+          'late',
+        ],
+      );
+      assert.ok(exports.every((exp) => !exp.typeOnly));
+    });
+
+    it('should record namespaces as type-only when they only declare types', () => {
+      const source = `
+        export namespace Models {
+          export interface User {}
+          export namespace Nested { export type Id = string; }
+          import Alias = Nested.Id;
+        }
+        export declare namespace Runtime {
+          export abstract class Base {}
+        }
+        export namespace Outer.Inner {
+          export const value = 1;
+        }
+        namespace Internal {}
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'Models', typeOnly: true },
+        { name: 'Runtime', typeOnly: false },
+        { name: 'Outer', typeOnly: false },
+      ]);
+    });
+
+    it('should merge namespaces with declarations of the same name', () => {
+      const source = `
+        export interface Config {}
+        export namespace Config { export const defaults = {}; }
+      `;
+      assert.deepStrictEqual(parser.extractExports(source), [{ name: 'Config', typeOnly: false }]);
+    });
+
+    it('should record export import aliases by what they alias', () => {
+      const source = `
+        namespace Shapes {
+          export namespace Types { export interface Circle {} }
+          export const unit = 1;
+        }
+        namespace A.B { export type Id = string; }
+        export import Circle = Shapes.Types.Circle;
+        export import ShapeTypes = Shapes.Types;
+        export import Unit = Shapes.unit;
+        export import Id = A.B.Id;
+        export import type All = Shapes;
+        export import Unknown = Elsewhere.Thing;
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'Circle', typeOnly: true },
+        { name: 'ShapeTypes', typeOnly: true },
+        { name: 'Unit', typeOnly: false },
+        { name: 'Id', typeOnly: true },
+        { name: 'All', typeOnly: true },
+        { name: 'Unknown', typeOnly: false },
+      ]);
+    });
+
+    it('should carry the JSDoc tags of exported declarations', () => {
+      const source = `
+        /**
+         * Shared with sibling modules only.
+         * @internal
+         */
+        export function helper() {}
+        /** @barrelIgnore @deprecated */
+        export const legacy = 1;
+        /** @public */
+        export interface Options {}
+        export namespace Options { /** @internal */ export const nested = 1; }
+        export class Plain {}
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'helper', typeOnly: false, tags: ['internal'] },
+        { name: 'legacy', typeOnly: false, tags: ['barrelIgnore', 'deprecated'] },
+        { name: 'Options', typeOnly: false, tags: ['public'] },
+        { name: 'Plain', typeOnly: false },
+      ]);
+    });
+
+    it('should return no exports for files with the ignore pragma in their header', () => {
+      const source = `#!/usr/bin/env node
+        // Copyright notice
+        // barrel-roll-ignore-file
+        export const hidden = 1;
+      `;
+      assert.deepStrictEqual(parser.extractExports(source), []);
+    });
+
+    it('should ignore the pragma outside the file header', () => {
+      const source = `
+        export const visible = 1;
+        // barrel-roll-ignore-file
+      `;
+      assert.deepStrictEqual(parser.extractExports(source), [{ name: 'visible', typeOnly: false }]);
+    });
+
+    it('should record export = assignments under the assigned identifier', () => {
+      const source = `
+        class Client {}
+        export = Client;
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'Client', typeOnly: false, kind: ParsedExportKind.ExportAssignment },
+      ]);
+    });
+
+    it('should record export = of an expression as default', () => {
+      const exports = parser.extractExports('export = { retries: 3 };');
+      assert.deepStrictEqual(exports, [
+        { name: 'default', typeOnly: false, kind: ParsedExportKind.ExportAssignment },
+      ]);
+    });
+
+    it('should record module and global augmentations of a module', () => {
+      const source = `
+        export {};
+        declare module 'express' {
+          interface Request { user?: string }
+        }
+        declare global {
+          interface Window { appVersion: string }
+        }
+        declare namespace Internal {
+          const value: number;
+        }
+      `;
+      const exports = parser.extractExports(source);
+      assert.deepStrictEqual(exports, [
+        { name: 'express', typeOnly: true, kind: ParsedExportKind.Augmentation },
+        { name: 'global', typeOnly: true, kind: ParsedExportKind.Augmentation },
+      ]);
+    });
+
+    it('should ignore ambient module declarations in scripts', () => {
+      const source = `
+        declare module 'untyped-lib' {
+          export function run(): void;
+        }
+      `;
+      assert.deepStrictEqual(parser.extractExports(source), []);
+    });
+
     it('should ignore export statements inside single-quoted strings', () => {
       const source = `
         const example = 'export class FakeClass {}';
@@ -322,5 +539,91 @@ describe('ExportParser', () => {
       const exports = parser.extractExports(source);
       assert.deepStrictEqual(exports, []);
     });
+
+    it('should export a component named after its file next to its script exports', () => {
+      const source = [
+        '<script lang="ts">',
+        'export type Size = "sm" | "lg";',
+        'export const sizes = ["sm", "lg"];',
+        'export default { name: "AppButton" };',
+        '</script>',
+        '<template><button /></template>',
+      ].join('\n');
+
+      const exports = parser.extractExports(source, '/src/app-button.vue');
+
+      assert.deepStrictEqual(exports, [
+        { name: 'Size', typeOnly: true },
+        { name: 'sizes', typeOnly: false },
+        { name: 'AppButton', typeOnly: false, kind: ParsedExportKind.Component },
+      ]);
+    });
+
+    it('should read files through the given source file handlers', () => {
+      const markdownParser = new ExportParser([
+        {
+          extensions: ['.mdx'],
+          extractModule: (content, filePath) => ({
+            code: content.split('\n')[0],
+            fileName: `${filePath}.tsx`,
+            defaultExportName: 'Doc',
+          }),
+        },
+      ]);
+
+      assert.deepStrictEqual(
+        markdownParser.extractExports('export const meta = {};\n# Doc', 'a.mdx'),
+        [
+          { name: 'meta', typeOnly: false },
+          { name: 'Doc', typeOnly: false, kind: ParsedExportKind.Component },
+        ],
+      );
+      assert.strictEqual(markdownParser.hasSourceFileHandler('Button.vue'), false);
+    });
+  });
+
+  describe('extractBarrelExportNames', () => {
+    it('should include unaliased re-exports alongside local exports', () => {
+      const source = `
+        export { alpha, type Beta } from './alpha.js';
+        export { default as Gamma } from './gamma.js';
+        export * from './nested/index.js';
+        export * as ns from './ns.js';
+        export const local = 1;
+        declare global {
+          interface Window { local: number }
+        }
+      `;
+
+      assert.deepStrictEqual(parser.extractBarrelExportNames(source).sort(), [
+        'Beta',
+        'Gamma',
+        'alpha',
+        'local',
+        'ns',
+      ]);
+    });
+  });
+
+  describe('extractBarrelExports', () => {
+    it('should mark type-only re-exports and keep export * lines as star exports', () => {
+      const source = `
+        export { alpha, type Beta } from './alpha.js';
+        export type { Delta } from './delta.js';
+        export * from './nested/index.js';
+      `;
+
+      const exports = parser.extractBarrelExports(source);
+
+      assert.deepStrictEqual(
+        exports.map((exp) => [exp.name, exp.typeOnly, exp.kind ?? null]),
+        [
+          ['*', false, ParsedExportKind.Star],
+          ['alpha', false, null],
+          ['Beta', true, null],
+          ['Delta', true, null],
+        ],
+      );
+    });
   });
 });
@@ -0,0 +1,61 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+
+import { ImportParser } from '../../../../core/parser/import.parser.js';
+
+describe('ImportParser', () => {
+  let parser: ImportParser;
+
+  beforeEach(() => {
+    parser = new ImportParser();
+  });
+
+  describe('extractModuleSpecifiers', () => {
+    it('should capture runtime imports and re-exports once each', () => {
+      const source = `
+        import { alpha } from './alpha.js';
+        import beta, { gamma } from './beta.js';
+        import * as delta from './delta.js';
+        import './side-effect.js';
+        export * from './nested/index.js';
+        export { alpha as first } from './alpha.js';
+      `;
+
+      assert.deepStrictEqual(parser.extractModuleSpecifiers(source), [
+        './alpha.js',
+        './beta.js',
+        './delta.js',
+        './side-effect.js',
+        './nested/index.js',
+      ]);
+    });
+
+    it('should skip imports and exports erased by the compiler', () => {
+      const source = `
+        import type { Alpha } from './alpha.js';
+        import { type Beta } from './beta.js';
+        export type { Gamma } from './gamma.js';
+        export { type Delta } from './delta.js';
+      `;
+
+      assert.deepStrictEqual(parser.extractModuleSpecifiers(source), []);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FileSystemService } from '../../../../core/io/file-system.service.js';
+import { SemanticExportParser } from '../../../../core/parser/semantic-export.parser.js';
+
+describe('SemanticExportParser', () => {
+  let tmpDir: string;
+  let fileSystem: FileSystemService;
+  let parser: SemanticExportParser;
+
+  beforeEach(async () => {
+    fileSystem = new FileSystemService();
+    parser = new SemanticExportParser();
+    tmpDir = await fileSystem.createTempDirectory(path.join(os.tmpdir(), 'barrel-roll-semantic-'));
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true, module: 'nodenext' } }),
+    );
+    await fileSystem.ensureDirectory(path.join(tmpDir, 'impl'));
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'impl', 'models.ts'),
+      [
+        'export interface User { id: string }',
+        'export type UserId = string;',
+        'export class Account {}',
+        'export const createUser = () => ({ id: "1" });',
+      ].join('\n'),
+    );
+    await fileSystem.writeFile(
+      path.join(tmpDir, 'impl', 'index.ts'),
+      "export { User as Member, Account, createUser } from './models.js';",
+    );
+  });
+
+  afterEach(async () => {
+    parser.clear();
+    await fileSystem.removePath(tmpDir);
+  });
+
+  it('should mark re-exported interfaces and type aliases as type-only', async () => {
+    const filePath = path.join(tmpDir, 'facade.ts');
+    await fileSystem.writeFile(
+      filePath,
+      [
+        "import { Member } from './impl/index.js';",
+        'export { Member };',
+        "export { UserId as Id, Account as BankAccount, createUser as create } from './impl/models.js';",
+      ].join('\n'),
+    );
+
+    assert.deepStrictEqual(parser.extractExports(filePath), [
+      { name: 'Member', typeOnly: true },
+      { name: 'Id', typeOnly: true },
+      { name: 'BankAccount', typeOnly: false },
+      { name: 'create', typeOnly: false },
+    ]);
+  });
+
+  it('should keep and resolve unaliased re-exports', async () => {
+    const filePath = path.join(tmpDir, 'facade.ts');
+    await fileSystem.writeFile(
+      filePath,
+      "export { User, createUser, gone } from './impl/models.js';",
+    );
+
+    assert.deepStrictEqual(parser.extractExports(filePath), [
+      { name: 'User', typeOnly: true },
+      { name: 'createUser', typeOnly: false },
+    ]);
+  });
+
+  it('should leave unaliased re-exports of modules in the same directory to the barrel', async () => {
+    const filePath = path.join(tmpDir, 'impl', 'facade.ts');
+    await fileSystem.writeFile(
+      filePath,
+      "export { User, createUser as create } from './models.js';\nexport const local = 1;",
+    );
+
+    assert.deepStrictEqual(parser.extractExports(filePath), [
+      { name: 'create', typeOnly: false },
+      { name: 'local', typeOnly: false },
+    ]);
+  });
+
+  it('should drop re-exported names that no longer resolve', async () => {
+    const filePath = path.join(tmpDir, 'facade.ts');
+    await fileSystem.writeFile(
+      filePath,
+      [
+        "export { Account as BankAccount, removed as gone } from './impl/models.js';",
+        "export { missing as absent } from './impl/deleted.js';",
+        'export const local = 1;',
+      ].join('\n'),
+    );
+
+    assert.deepStrictEqual(parser.extractExports(filePath), [
+      { name: 'BankAccount', typeOnly: false },
+      { name: 'local', typeOnly: false },
+    ]);
+  });
+
+  it('should read files from disk again after being cleared', async () => {
+    const filePath = path.join(tmpDir, 'facade.ts');
+    await fileSystem.writeFile(filePath, 'export const before = 1;');
+    parser.extractExports(filePath);
+
+    await fileSystem.writeFile(filePath, 'export const after = 1;');
+    parser.clear();
+
+    assert.deepStrictEqual(parser.extractExports(filePath), [{ name: 'after', typeOnly: false }]);
+  });
+});
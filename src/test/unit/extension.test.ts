@@ -23,13 +23,27 @@ import type {
   CommandHandler,
   TestWindowApi,
   TestCommandsApi,
+  TestTextDocument,
+  TestWorkspaceApi,
   ActivateFn,
   DeactivateFn,
   ExtensionContext,
   ProgressOptions,
 } from '../testTypes.js';
 import { uriFile } from '../testTypes.js';
-import { BarrelGenerationMode } from '../../types/index.js';
+import {
+  BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  type IBarrelFileChange,
+  type IBarrelGenerationOptions,
+  type IBarrelOutputSink,
+  type IImportCycle,
+  type IImportCycleReporter,
+  ImportCycleCheck,
+} from '../../types/index.js';
 
 /**
  * Creates a mock ExtensionContext for testing.
@@ -47,15 +61,28 @@ describe('Extension', () => {
   let createOutputChannelCalls: string[];
   let createdOutputChannels: Array<{ appendLine: (value: string) => void }>;
   let outputChannelMessages: string[];
+  let outputChannelShown: boolean;
   let informationMessages: string[];
+  let warningMessages: string[];
   let errorMessages: string[];
   let progressCalls: ProgressCall[];
   let showOpenDialogResult: FakeUri[] | undefined;
   let showOpenDialogCalls: number;
   let workspaceStatImpl: (uri: FakeUri) => Promise<{ type: number }>;
+  let configurationValues: Record<string, unknown>;
+  let workspaceFolderPath: string | undefined;
+  let configurationRequests: Array<{ section: string; scope: FakeUri }>;
   let configuredOutputChannel: { appendLine: (value: string) => void } | undefined;
   const generatorInstances: FakeBarrelFileGenerator[] = [];
   let generatorFailure: unknown;
+  let generatorChanges: IBarrelFileChange[];
+  let appliedEdits: Array<{ edit: FakeWorkspaceEdit; isRefactoring?: boolean }>;
+  let applyEditResult: boolean;
+  let declinedPaths: Set<string>;
+  let documentContents: Map<string, string>;
+  let savedDocuments: string[];
+  let generatorCycles: IImportCycle[];
+  let diagnostics: Map<string, FakeDiagnostic[]>;
 
   const FileType = {
     Unknown: 0,
@@ -75,6 +102,9 @@ describe('Extension', () => {
         appendLine(value: string) {
           outputChannelMessages.push(value);
         },
+        show() {
+          outputChannelShown = true;
+        },
       };
       createdOutputChannels.push(channel);
       return channel;
@@ -83,6 +113,10 @@ describe('Extension', () => {
       informationMessages.push(message);
       return undefined;
     },
+    showWarningMessage(message: string) {
+      warningMessages.push(message);
+      return undefined;
+    },
     showErrorMessage(message: string) {
       errorMessages.push(message);
       return undefined;
@@ -114,12 +148,154 @@ describe('Extension', () => {
     },
   };
 
-  const workspaceApi: { fs: { stat(uri: FakeUri): Promise<{ type: number }> } } = {
+  type WorkspaceEditOperation = {
+    kind: 'create' | 'replace' | 'delete';
+    fsPath: string;
+    content?: string;
+    range?: FakeRange;
+    metadata?: { label: string; needsConfirmation: boolean };
+  };
+
+  class FakeRange {
+    /**
+     * Records the range coordinates.
+     */
+    constructor(
+      public readonly startLine: number,
+      public readonly startCharacter: number,
+      public readonly endLine: number,
+      public readonly endCharacter: number,
+    ) {}
+  }
+
+  class FakeWorkspaceEdit {
+    public readonly operations: WorkspaceEditOperation[] = [];
+
+    /**
+     * Records a file creation.
+     */
+    createFile(
+      uri: FakeUri,
+      options: { contents: Uint8Array },
+      metadata: WorkspaceEditOperation['metadata'],
+    ): void {
+      const content = new TextDecoder().decode(options.contents);
+      this.operations.push({ kind: 'create', fsPath: uri.fsPath, content, metadata });
+    }
+
+    /**
+     * Records a text replacement.
+     */
+    replace(
+      uri: FakeUri,
+      range: FakeRange,
+      content: string,
+      metadata?: WorkspaceEditOperation['metadata'],
+    ): void {
+      this.operations.push({ kind: 'replace', fsPath: uri.fsPath, content, range, metadata });
+    }
+
+    /**
+     * Records a file deletion.
+     */
+    deleteFile(uri: FakeUri): void {
+      this.operations.push({ kind: 'delete', fsPath: uri.fsPath });
+    }
+  }
+
+  class FakeDiagnostic {
+    public source?: string;
+
+    /**
+     * Records the diagnostic details.
+     */
+    constructor(
+      public readonly range: FakeRange,
+      public readonly message: string,
+      public readonly severity: number,
+    ) {}
+  }
+
+  const DiagnosticSeverity = {
+    Warning: 1,
+  };
+
+  const languagesApi = {
+    createDiagnosticCollection() {
+      return {
+        get: (uri: FakeUri) => diagnostics.get(uri.fsPath),
+        set: (uri: FakeUri, entries: FakeDiagnostic[]) => diagnostics.set(uri.fsPath, entries),
+        clear: () => diagnostics.clear(),
+        dispose: () => undefined,
+      };
+    },
+  };
+
+  /**
+   * Creates a fake text document whose full range is derived from the stored content.
+   */
+  function createTextDocument(fsPath: string): TestTextDocument {
+    const lines = (documentContents.get(fsPath) ?? '').split('\n');
+    return {
+      validateRange: () => new FakeRange(0, 0, lines.length - 1, lines.at(-1)!.length),
+      getText: () => lines.join('\n'),
+      async save() {
+        savedDocuments.push(fsPath);
+        return true;
+      },
+    };
+  }
+
+  /**
+   * Writes the operations of an accepted workspace edit to the stored document contents,
+   * skipping the files whose changes were declined in the refactor preview.
+   */
+  function applyOperations(edit: FakeWorkspaceEdit): void {
+    for (const operation of edit.operations) {
+      if (declinedPaths.has(operation.fsPath)) {
+        continue;
+      }
+      if (operation.kind === 'delete') {
+        documentContents.delete(operation.fsPath);
+      } else {
+        documentContents.set(operation.fsPath, operation.content!);
+      }
+    }
+  }
+
+  const workspaceApi: TestWorkspaceApi = {
     fs: {
       stat(uri: FakeUri) {
         return workspaceStatImpl(uri);
       },
     },
+    getWorkspaceFolder() {
+      return workspaceFolderPath === undefined ? undefined : { uri: uriFile(workspaceFolderPath) };
+    },
+    getConfiguration(section: string, scope: FakeUri) {
+      configurationRequests.push({ section, scope });
+      return {
+        get<T>(key: string): T | undefined {
+          return configurationValues[key] as T | undefined;
+        },
+      };
+    },
+    async applyEdit(edit: unknown, metadata?: { isRefactoring?: boolean }) {
+      appliedEdits.push({
+        edit: edit as FakeWorkspaceEdit,
+        isRefactoring: metadata?.isRefactoring,
+      });
+      if (applyEditResult) {
+        applyOperations(edit as FakeWorkspaceEdit);
+      }
+      return applyEditResult;
+    },
+    async openTextDocument(uri: FakeUri) {
+      return createTextDocument(uri.fsPath);
+    },
+    asRelativePath(filePath: string) {
+      return path.relative('/workspace', filePath).replaceAll('\\', '/');
+    },
   };
 
   class FakeBarrelFileGenerator {
@@ -135,11 +311,23 @@ describe('Extension', () => {
     /**
      * Fake implementation of generateBarrelFile for testing purposes.
      */
-    async generateBarrelFile(targetDirectory: FakeUri, options: unknown): Promise<void> {
+    async generateBarrelFile(
+      targetDirectory: FakeUri,
+      options: IBarrelGenerationOptions,
+      sink: IBarrelOutputSink,
+      cycleReporter: IImportCycleReporter,
+    ): Promise<IBarrelFileChange[]> {
       this.calls.push({ targetDirectory, options });
+      generatorCycles.forEach((cycle) => cycleReporter.report(cycle));
       if (generatorFailure) {
         throw generatorFailure;
       }
+      if (!options.dryRun) {
+        for (const change of generatorChanges) {
+          await sink.write(change);
+        }
+      }
+      return generatorChanges;
     }
   }
 
@@ -158,6 +346,11 @@ describe('Extension', () => {
     namedExports: {
       Uri: uriApi,
       FileType,
+      Range: FakeRange,
+      Diagnostic: FakeDiagnostic,
+      DiagnosticSeverity,
+      languages: languagesApi,
+      WorkspaceEdit: FakeWorkspaceEdit,
       ProgressLocation,
       window: windowApi,
       commands: commandsApi,
@@ -188,15 +381,28 @@ describe('Extension', () => {
     createOutputChannelCalls = [];
     createdOutputChannels = [];
     outputChannelMessages = [];
+    outputChannelShown = false;
     informationMessages = [];
+    warningMessages = [];
     errorMessages = [];
     progressCalls = [];
     showOpenDialogResult = undefined;
     showOpenDialogCalls = 0;
     workspaceStatImpl = async () => ({ type: FileType.Directory });
+    configurationValues = {};
+    workspaceFolderPath = undefined;
+    configurationRequests = [];
     configuredOutputChannel = undefined;
     generatorInstances.length = 0;
     generatorFailure = undefined;
+    generatorChanges = [];
+    appliedEdits = [];
+    applyEditResult = true;
+    declinedPaths = new Set();
+    documentContents = new Map();
+    savedDocuments = [];
+    generatorCycles = [];
+    diagnostics = new Map();
   }
 
   beforeEach(async () => {
@@ -239,8 +445,11 @@ describe('Extension', () => {
       assert.deepStrictEqual(Array.from(commandHandlers.keys()), [
         'barrel-roll.generateBarrel',
         'barrel-roll.generateBarrelRecursive',
+        'barrel-roll.previewBarrelRecursive',
+        'barrel-roll.verifyBarrels',
+        'barrel-roll.undoLastRun',
       ]);
-      assert.strictEqual(context.subscriptions.length, 3);
+      assert.strictEqual(context.subscriptions.length, 7);
       assert.strictEqual(context.subscriptions[0], createdOutputChannels[0]);
 
       deactivate();
@@ -258,6 +467,23 @@ describe('Extension', () => {
       assert.deepStrictEqual(call, {
         targetDirectory: uri,
         options: {
+          indexFilename: undefined,
+          exportExtension: undefined,
+          sourceExtensions: undefined,
+          maxDepth: undefined,
+          concurrencyLimit: undefined,
+          batchSize: undefined,
+          include: undefined,
+          exclude: undefined,
+          parseMode: undefined,
+          ignoreTags: undefined,
+          collisionStrategy: undefined,
+          importCycleCheck: undefined,
+          outputStyle: undefined,
+          grouping: undefined,
+          header: undefined,
+          respectGitignore: undefined,
+          rootPath: undefined,
           recursive: false,
           mode: BarrelGenerationMode.CreateOrUpdate,
         },
@@ -270,6 +496,326 @@ describe('Extension', () => {
       assert.deepStrictEqual(errorMessages, []);
     });
 
+    it('should pass workspace settings for the target folder to the generator', async () => {
+      await activate(createContext());
+
+      configurationValues = {
+        indexFilename: 'barrel.ts',
+        exportExtension: '',
+        sourceExtensions: ['.ts', '.mts'],
+        maxDepth: 5,
+        concurrencyLimit: 2,
+        batchSize: 8,
+        include: ['src/**'],
+        exclude: ['**/generated'],
+        parseMode: ExportParseMode.Semantic,
+        ignoreTags: ['private'],
+        collisionStrategy: ExportCollisionStrategy.Alias,
+        importCycleCheck: ImportCycleCheck.Fail,
+        outputStyle: BarrelOutputStyle.Named,
+        grouping: BarrelGrouping.Kind,
+        header: '// @generated by barrel-roll',
+        respectGitignore: false,
+      };
+      workspaceFolderPath = 'C:/workspace';
+      const command = getCommand('barrel-roll.generateBarrelRecursive');
+      const uri = uriApi.file('C:/workspace/packages/app');
+
+      await command(uri);
+
+      assert.deepStrictEqual(configurationRequests, [{ section: 'barrelRoll', scope: uri }]);
+      assert.deepStrictEqual(lastGeneratorCall().options, {
+        indexFilename: 'barrel.ts',
+        exportExtension: '',
+        sourceExtensions: ['.ts', '.mts'],
+        maxDepth: 5,
+        concurrencyLimit: 2,
+        batchSize: 8,
+        include: ['src/**'],
+        exclude: ['**/generated'],
+        parseMode: ExportParseMode.Semantic,
+        ignoreTags: ['private'],
+        collisionStrategy: ExportCollisionStrategy.Alias,
+        importCycleCheck: ImportCycleCheck.Fail,
+        outputStyle: BarrelOutputStyle.Named,
+        grouping: BarrelGrouping.Kind,
+        header: '// @generated by barrel-roll',
+        respectGitignore: false,
+        rootPath: path.normalize('C:/workspace'),
+        recursive: true,
+        mode: BarrelGenerationMode.CreateOrUpdate,
+      });
+    });
+
+    it('should show import cycles in the Problems panel and clear them on the next run', async () => {
+      await activate(createContext());
+      const barrelPath = path.normalize('/workspace/src/index.ts');
+      const memberPath = path.normalize('/workspace/src/utils/foo.ts');
+      generatorCycles = [{ barrelPath, path: [barrelPath, memberPath, barrelPath] }];
+      const command = getCommand('barrel-roll.generateBarrelRecursive');
+
+      await command(uriApi.file('/workspace/src'));
+
+      const reported = diagnostics.get(barrelPath);
+      assert.strictEqual(reported?.length, 1);
+      assert.strictEqual(
+        reported[0].message,
+        'Import cycle: src/index.ts -> src/utils/foo.ts -> src/index.ts',
+      );
+      assert.strictEqual(reported[0].severity, DiagnosticSeverity.Warning);
+      assert.strictEqual(reported[0].source, 'Barrel Roll');
+
+      generatorCycles = [];
+      await command(uriApi.file('/workspace/src'));
+
+      assert.strictEqual(diagnostics.size, 0);
+    });
+
+    it('should open planned changes in the refactor preview', async () => {
+      await activate(createContext());
+
+      generatorChanges = [
+        {
+          filePath: path.normalize('C:/workspace/src/index.ts'),
+          originalContent: "export { a } from './a.js';\n",
+          newContent: "export { a } from './a.js';\nexport { b } from './b.js';\n",
+        },
+        {
+          filePath: path.normalize('C:/workspace/src/nested/index.ts'),
+          newContent: "export { c } from './c.js';\n",
+        },
+      ];
+      documentContents.set(
+        path.normalize('C:/workspace/src/index.ts'),
+        "export { a } from './a.js';\n",
+      );
+      const command = getCommand('barrel-roll.previewBarrelRecursive');
+      const uri = uriApi.file('C:/workspace/src');
+
+      await command(uri);
+
+      const options = lastGeneratorCall().options as IBarrelGenerationOptions;
+      assert.strictEqual(options.recursive, true);
+      assert.strictEqual(options.mode, BarrelGenerationMode.CreateOrUpdate);
+      assert.strictEqual(options.dryRun, true);
+      assert.strictEqual(appliedEdits.length, 1);
+      assert.strictEqual(appliedEdits[0].isRefactoring, true);
+      assert.deepStrictEqual(appliedEdits[0].edit.operations, [
+        {
+          kind: 'replace',
+          fsPath: path.normalize('C:/workspace/src/index.ts'),
+          content: "export { a } from './a.js';\nexport { b } from './b.js';\n",
+          range: new FakeRange(0, 0, 1, 0),
+          metadata: { label: 'Update barrel', needsConfirmation: true },
+        },
+        {
+          kind: 'create',
+          fsPath: path.normalize('C:/workspace/src/nested/index.ts'),
+          content: "export { c } from './c.js';\n",
+          metadata: { label: 'Create barrel', needsConfirmation: true },
+        },
+      ]);
+      assert.deepStrictEqual(informationMessages, [
+        'Barrel Roll: Accepted barrel changes applied.',
+      ]);
+    });
+
+    it('should report when the barrel preview is discarded', async () => {
+      await activate(createContext());
+
+      generatorChanges = [{ filePath: path.normalize('C:/repo/index.ts'), newContent: '\n' }];
+      applyEditResult = false;
+
+      await getCommand('barrel-roll.previewBarrelRecursive')(uriApi.file('C:/repo'));
+
+      assert.deepStrictEqual(informationMessages, ['Barrel Roll: Barrel preview discarded.']);
+    });
+
+    it('should skip the refactor preview when there are no planned changes', async () => {
+      await activate(createContext());
+
+      await getCommand('barrel-roll.previewBarrelRecursive')(uriApi.file('C:/repo'));
+
+      assert.deepStrictEqual(appliedEdits, []);
+      assert.deepStrictEqual(informationMessages, ['Barrel Roll: No barrel changes to preview.']);
+    });
+
+    it('should list stale barrels in the output channel without writing when verifying', async () => {
+      await activate(createContext());
+      workspaceFolderPath = '/workspace';
+      generatorChanges = [
+        {
+          filePath: path.normalize('/workspace/src/index.ts'),
+          originalContent: "export { a } from './a.js';\n",
+          newContent: "export { a } from './a.js';\nexport { b } from './b.js';\n",
+        },
+      ];
+
+      await getCommand('barrel-roll.verifyBarrels')(uriApi.file('/workspace/src'));
+
+      const { options } = lastGeneratorCall() as { options: IBarrelGenerationOptions };
+      assert.strictEqual(options.recursive, true);
+      assert.strictEqual(options.mode, BarrelGenerationMode.CreateOrUpdate);
+      assert.strictEqual(options.dryRun, true);
+      assert.deepStrictEqual(appliedEdits, []);
+      assert.strictEqual(
+        outputChannelMessages.at(-1),
+        [
+          'stale: src/index.ts',
+          '--- a/src/index.ts',
+          '+++ b/src/index.ts',
+          '@@ -1,1 +1,2 @@',
+          " export { a } from './a.js';",
+          "+export { b } from './b.js';",
+        ].join('\n'),
+      );
+      assert.strictEqual(outputChannelShown, true);
+      assert.deepStrictEqual(warningMessages, [
+        'Barrel Roll: 1 barrel(s) are stale or missing. See the Barrel Roll output for details.',
+      ]);
+    });
+
+    it('should confirm when every barrel is up to date', async () => {
+      await activate(createContext());
+
+      await getCommand('barrel-roll.verifyBarrels')(uriApi.file('C:/repo'));
+
+      assert.deepStrictEqual(warningMessages, []);
+      assert.deepStrictEqual(informationMessages, ['Barrel Roll: All barrels are up to date.']);
+    });
+
+    it('should apply generated barrels as a single workspace edit and save updated files', async () => {
+      await activate(createContext());
+
+      const indexPath = path.normalize('C:/workspace/src/index.ts');
+      const nestedIndexPath = path.normalize('C:/workspace/src/nested/index.ts');
+      generatorChanges = [
+        { filePath: indexPath, originalContent: '\n', newContent: "export * from './nested';\n" },
+        { filePath: nestedIndexPath, newContent: "export { c } from './c';\n" },
+      ];
+      documentContents.set(indexPath, '\n');
+
+      await getCommand('barrel-roll.generateBarrelRecursive')(uriApi.file('C:/workspace/src'));
+
+      assert.strictEqual(appliedEdits.length, 1);
+      assert.strictEqual(appliedEdits[0].isRefactoring, false);
+      assert.deepStrictEqual(appliedEdits[0].edit.operations, [
+        {
+          kind: 'replace',
+          fsPath: indexPath,
+          content: "export * from './nested';\n",
+          range: new FakeRange(0, 0, 1, 0),
+          metadata: { label: 'Update barrel', needsConfirmation: false },
+        },
+        {
+          kind: 'create',
+          fsPath: nestedIndexPath,
+          content: "export { c } from './c';\n",
+          metadata: { label: 'Create barrel', needsConfirmation: false },
+        },
+      ]);
+      assert.deepStrictEqual(savedDocuments, [indexPath]);
+      assert.deepStrictEqual(informationMessages, [
+        'Barrel Roll: index.ts files updated recursively.',
+      ]);
+    });
+
+    it('should surface an error when the workspace edit is rejected', async () => {
+      await activate(createContext());
+
+      generatorChanges = [{ filePath: path.normalize('C:/repo/index.ts'), newContent: '\n' }];
+      applyEditResult = false;
+
+      await getCommand('barrel-roll.generateBarrel')(uriApi.file('C:/repo'));
+
+      assert.deepStrictEqual(errorMessages, [
+        'Barrel Roll: Unable to apply barrel changes to the workspace.',
+      ]);
+      assert.deepStrictEqual(informationMessages, []);
+    });
+
+    it('should revert the last generation run when undo is invoked', async () => {
+      await activate(createContext());
+
+      const indexPath = path.normalize('C:/workspace/src/index.ts');
+      const nestedIndexPath = path.normalize('C:/workspace/src/nested/index.ts');
+      generatorChanges = [
+        { filePath: indexPath, originalContent: '\n', newContent: "export * from './nested';\n" },
+        { filePath: nestedIndexPath, newContent: "export { c } from './c';\n" },
+      ];
+      await getCommand('barrel-roll.generateBarrelRecursive')(uriApi.file('C:/workspace/src'));
+      documentContents.set(indexPath, "export * from './nested';\n");
+
+      await getCommand('barrel-roll.undoLastRun')();
+
+      assert.strictEqual(appliedEdits.length, 2);
+      assert.deepStrictEqual(appliedEdits[1].edit.operations, [
+        {
+          kind: 'replace',
+          fsPath: indexPath,
+          content: '\n',
+          range: new FakeRange(0, 0, 1, 0),
+          metadata: undefined,
+        },
+        { kind: 'delete', fsPath: nestedIndexPath },
+      ]);
+      assert.deepStrictEqual(informationMessages.at(-1), 'Barrel Roll: Last barrel run undone.');
+
+      await getCommand('barrel-roll.undoLastRun')();
+
+      assert.strictEqual(appliedEdits.length, 2);
+      assert.deepStrictEqual(informationMessages.at(-1), 'Barrel Roll: Nothing to undo.');
+    });
+
+    it('should undo only the accepted changes of a preview applied after another run', async () => {
+      await activate(createContext());
+
+      const indexPath = path.normalize('C:/workspace/src/index.ts');
+      const nestedIndexPath = path.normalize('C:/workspace/src/nested/index.ts');
+      const otherIndexPath = path.normalize('C:/workspace/src/other/index.ts');
+      documentContents.set(indexPath, '\n');
+      generatorChanges = [
+        { filePath: indexPath, originalContent: '\n', newContent: "export * from './nested';\n" },
+        { filePath: nestedIndexPath, newContent: "export { c } from './c';\n" },
+      ];
+      await getCommand('barrel-roll.generateBarrelRecursive')(uriApi.file('C:/workspace/src'));
+      generatorChanges = [
+        {
+          filePath: indexPath,
+          originalContent: "export * from './nested';\n",
+          newContent: "export * from './nested';\nexport * from './other';\n",
+        },
+        { filePath: otherIndexPath, newContent: "export { d } from './d';\n" },
+      ];
+      declinedPaths.add(otherIndexPath);
+      await getCommand('barrel-roll.previewBarrelRecursive')(uriApi.file('C:/workspace/src'));
+
+      await getCommand('barrel-roll.undoLastRun')();
+
+      assert.strictEqual(appliedEdits.length, 3);
+      assert.deepStrictEqual(appliedEdits[2].edit.operations, [
+        {
+          kind: 'replace',
+          fsPath: indexPath,
+          content: "export * from './nested';\n",
+          range: new FakeRange(0, 0, 2, 0),
+          metadata: undefined,
+        },
+      ]);
+      assert.strictEqual(documentContents.get(nestedIndexPath), "export { c } from './c';\n");
+      assert.deepStrictEqual(informationMessages.at(-1), 'Barrel Roll: Last barrel run undone.');
+    });
+
+    it('should not offer undo for runs that changed nothing', async () => {
+      await activate(createContext());
+
+      await getCommand('barrel-roll.generateBarrel')(uriApi.file('C:/repo'));
+      await getCommand('barrel-roll.undoLastRun')();
+
+      assert.deepStrictEqual(appliedEdits, []);
+      assert.deepStrictEqual(informationMessages.at(-1), 'Barrel Roll: Nothing to undo.');
+    });
+
     it('should use the folder picker when no URI is provided', async () => {
       await activate(createContext());
 
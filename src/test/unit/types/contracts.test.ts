@@ -30,7 +30,13 @@ import {
 import {
   BarrelEntryKind,
   BarrelExportKind,
+  ParsedExportKind,
   BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  ImportCycleCheck,
   DEFAULT_EXPORT_NAME,
   INDEX_FILENAME,
   NEWLINE,
@@ -48,18 +54,40 @@ import {
 describe('Contract Validation', () => {
   describe('Enum Contracts', () => {
     describe('BarrelExportKind', () => {
-      it('should have exactly three values', () => {
+      it('should have exactly five values', () => {
         const values = Object.values(BarrelExportKind) as string[];
-        assert.strictEqual(values.length, 3);
+        assert.strictEqual(values.length, 5);
         assert.ok(values.includes(BarrelExportKind.Value));
         assert.ok(values.includes(BarrelExportKind.Type));
         assert.ok(values.includes(BarrelExportKind.Default));
+        assert.ok(values.includes(BarrelExportKind.Star));
+        assert.ok(values.includes(BarrelExportKind.SideEffect));
       });
 
       it('should have string values matching enum names', () => {
         assert.strictEqual(BarrelExportKind.Value, 'value');
         assert.strictEqual(BarrelExportKind.Type, 'type');
         assert.strictEqual(BarrelExportKind.Default, 'default');
+        assert.strictEqual(BarrelExportKind.Star, 'star');
+        assert.strictEqual(BarrelExportKind.SideEffect, 'sideEffect');
+      });
+    });
+
+    describe('ExportParseMode', () => {
+      it('should have string values matching enum names', () => {
+        assert.deepStrictEqual(Object.values(ExportParseMode), ['syntactic', 'semantic']);
+      });
+    });
+
+    describe('ParsedExportKind', () => {
+      it('should have string values matching enum names', () => {
+        assert.deepStrictEqual(Object.values(ParsedExportKind), [
+          'star',
+          'namespace',
+          'exportAssignment',
+          'augmentation',
+          'component',
+        ]);
       });
     });
 
@@ -90,6 +118,39 @@ describe('Contract Validation', () => {
         assert.strictEqual(BarrelGenerationMode.UpdateExisting, 'updateExisting');
       });
     });
+    describe('ExportCollisionStrategy', () => {
+      it('should have string values matching enum names', () => {
+        assert.deepStrictEqual(Object.values(ExportCollisionStrategy), [
+          'fail',
+          'skipBoth',
+          'keepFirst',
+          'alias',
+        ]);
+      });
+    });
+
+    describe('ImportCycleCheck', () => {
+      it('should have string values matching enum names', () => {
+        assert.deepStrictEqual(Object.values(ImportCycleCheck), ['off', 'warn', 'fail']);
+      });
+    });
+
+    describe('BarrelOutputStyle', () => {
+      it('should have string values matching enum names', () => {
+        assert.deepStrictEqual(Object.values(BarrelOutputStyle), [
+          'mixed',
+          'named',
+          'wildcard',
+          'namespace',
+        ]);
+      });
+    });
+
+    describe('BarrelGrouping', () => {
+      it('should have string values matching enum names', () => {
+        assert.deepStrictEqual(Object.values(BarrelGrouping), ['none', 'kind', 'folder']);
+      });
+    });
   });
 
   describe('Constant Contracts', () => {
@@ -242,6 +303,24 @@ describe('Contract Validation', () => {
         const normalizedOptions: NormalizedBarrelGenerationOptions = {
           recursive: true,
           mode: BarrelGenerationMode.CreateOrUpdate,
+          dryRun: false,
+          indexFilename: INDEX_FILENAME,
+          exportExtension: '.js',
+          sourceExtensions: ['.ts'],
+          maxDepth: 20,
+          concurrencyLimit: 10,
+          batchSize: 50,
+          include: ['**/*'],
+          exclude: [],
+          parseMode: ExportParseMode.Syntactic,
+          ignoreTags: ['internal'],
+          collisionStrategy: ExportCollisionStrategy.Fail,
+          importCycleCheck: ImportCycleCheck.Warn,
+          outputStyle: BarrelOutputStyle.Mixed,
+          grouping: BarrelGrouping.None,
+          header: '',
+          respectGitignore: true,
+          rootPath: '/workspace',
         };
         assert.ok('recursive' in normalizedOptions);
         assert.ok('mode' in normalizedOptions);
@@ -254,6 +333,7 @@ describe('Contract Validation', () => {
   describe('Behavioral Contracts', () => {
     describe('Enum Exhaustiveness', () => {
       it('should handle all BarrelExportKind values in switch', () => {
+        // eslint-disable-next-line complexity -- One case per enum value is the point of this test
         const testAllKinds = (kind: BarrelExportKind): string => {
           switch (kind) {
             case BarrelExportKind.Value:
@@ -262,6 +342,10 @@ describe('Contract Validation', () => {
               return 'type';
             case BarrelExportKind.Default:
               return 'default';
+            case BarrelExportKind.Star:
+              return 'star';
+            case BarrelExportKind.SideEffect:
+              return 'sideEffect';
             default:
               throw new Error(`Unexpected BarrelExportKind: ${kind}`);
           }
@@ -270,6 +354,8 @@ describe('Contract Validation', () => {
         assert.strictEqual(testAllKinds(BarrelExportKind.Value), 'value');
         assert.strictEqual(testAllKinds(BarrelExportKind.Type), 'type');
         assert.strictEqual(testAllKinds(BarrelExportKind.Default), 'default');
+        assert.strictEqual(testAllKinds(BarrelExportKind.Star), 'star');
+        assert.strictEqual(testAllKinds(BarrelExportKind.SideEffect), 'sideEffect');
       });
 
       it('should handle all BarrelEntryKind values in switch', () => {
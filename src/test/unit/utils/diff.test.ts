@@ -0,0 +1,87 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createUnifiedDiff } from '../../../utils/diff.js';
+
+describe('diff utils', () => {
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string when the contents are identical', () => {
+      assert.strictEqual(createUnifiedDiff('index.ts', 'a\nb\n', 'a\nb\n'), '');
+    });
+
+    it('should diff a missing file against /dev/null', () => {
+      const diff = createUnifiedDiff('src/index.ts', undefined, "export { a } from './a.js';\n");
+
+      assert.strictEqual(
+        diff,
+        [
+          '--- /dev/null',
+          '+++ b/src/index.ts',
+          '@@ -0,0 +1,1 @@',
+          "+export { a } from './a.js';",
+        ].join('\n'),
+      );
+    });
+
+    it('should show changed lines with surrounding context', () => {
+      const oldContent = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+      const newContent = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h'].join('\n');
+
+      const diff = createUnifiedDiff('index.ts', oldContent, newContent);
+
+      assert.strictEqual(
+        diff,
+        [
+          '--- a/index.ts',
+          '+++ b/index.ts',
+          '@@ -2,7 +2,7 @@',
+          ' b',
+          ' c',
+          ' d',
+          '-e',
+          '+E',
+          ' f',
+          ' g',
+          ' h',
+        ].join('\n'),
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, index) => `line ${index}`);
+      const newLines = [...oldLines];
+      newLines[1] = 'changed 1';
+      newLines[18] = 'changed 18';
+
+      const diff = createUnifiedDiff('index.ts', oldLines.join('\n'), newLines.join('\n'), 1);
+
+      assert.deepStrictEqual(
+        diff.split('\n').filter((line) => line.startsWith('@@')),
+        ['@@ -1,3 +1,3 @@', '@@ -18,3 +18,3 @@'],
+      );
+    });
+
+    it('should report added and removed lines', () => {
+      const diff = createUnifiedDiff('index.ts', 'a\nb\n', 'b\nc\n');
+
+      assert.deepStrictEqual(diff.split('\n').slice(2), ['@@ -1,2 +1,2 @@', '-a', ' b', '+c']);
+    });
+  });
+});
@@ -17,7 +17,13 @@
 
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { isObject, isString, isError } from '../../../utils/guards.js';
+import {
+  isBoolean,
+  isObject,
+  isPositiveInteger,
+  isString,
+  isError,
+} from '../../../utils/guards.js';
 
 describe('guards utils', () => {
   describe('isObject', () => {
@@ -88,6 +94,34 @@ describe('guards utils', () => {
     });
   });
 
+  describe('isBoolean', () => {
+    it('should return true for boolean primitives', () => {
+      assert.equal(isBoolean(true), true);
+      assert.equal(isBoolean(false), true);
+    });
+
+    it('should return false for truthy and falsy non-booleans', () => {
+      assert.equal(isBoolean('true'), false);
+      assert.equal(isBoolean(0), false);
+      assert.equal(isBoolean(null), false);
+      assert.equal(isBoolean(undefined), false);
+    });
+  });
+
+  describe('isPositiveInteger', () => {
+    it('should return true for integers above zero', () => {
+      assert.equal(isPositiveInteger(1), true);
+      assert.equal(isPositiveInteger(120), true);
+    });
+
+    it('should return false for zero, fractions and non-numbers', () => {
+      assert.equal(isPositiveInteger(0), false);
+      assert.equal(isPositiveInteger(-4), false);
+      assert.equal(isPositiveInteger(1.5), false);
+      assert.equal(isPositiveInteger('80'), false);
+    });
+  });
+
   describe('isError', () => {
     it('should return true for Error instances', () => {
       assert.equal(isError(new Error('oops')), true);
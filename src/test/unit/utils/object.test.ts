@@ -0,0 +1,45 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { withDefaults } from '../../../utils/object.js';
+
+describe('object utils', () => {
+  describe('withDefaults', () => {
+    const defaults = { name: 'index.ts', depth: 20, enabled: true };
+
+    it('should return a copy of the defaults when no overrides are provided', () => {
+      const result = withDefaults(defaults);
+
+      assert.deepStrictEqual(result, defaults);
+      assert.notStrictEqual(result, defaults);
+    });
+
+    it('should apply defined override values', () => {
+      const result = withDefaults(defaults, { depth: 3, enabled: false });
+
+      assert.deepStrictEqual(result, { name: 'index.ts', depth: 3, enabled: false });
+    });
+
+    it('should keep defaults for undefined override values', () => {
+      const result = withDefaults(defaults, { name: undefined, depth: 0 });
+
+      assert.deepStrictEqual(result, { name: 'index.ts', depth: 0, enabled: true });
+    });
+  });
+});
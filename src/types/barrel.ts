@@ -22,6 +22,26 @@ export enum BarrelExportKind {
   Value = 'value',
   Type = 'type',
   Default = 'default',
+  /** `export * from` the module, forwarding every named export it has. */
+  Star = 'star',
+  /** A side-effect `import` of a module that only augments other modules or the global scope. */
+  SideEffect = 'sideEffect',
+}
+
+/**
+ * Defines the kinds of re-exports the parser models apart from named exports.
+ */
+export enum ParsedExportKind {
+  /** `export * from './module'`, which forwards every named export of another module. */
+  Star = 'star',
+  /** `export * as ns from './module'`, which exports another module as one namespace binding. */
+  Namespace = 'namespace',
+  /** `export = value`, a CommonJS-style export that consumers import as the default export. */
+  ExportAssignment = 'exportAssignment',
+  /** `declare module 'x' { ... }` or `declare global { ... }` inside a module. */
+  Augmentation = 'augmentation',
+  /** The component of a single-file component, imported as the default export of the file. */
+  Component = 'component',
 }
 
 /**
@@ -32,6 +52,68 @@ export enum BarrelGenerationMode {
   UpdateExisting = 'updateExisting',
 }
 
+/**
+ * Defines how export names exported by more than one module of a barrel are handled.
+ */
+export enum ExportCollisionStrategy {
+  /** Stop generation and report every collision. */
+  Fail = 'fail',
+  /** Export none of the colliding names from files. */
+  SkipBoth = 'skipBoth',
+  /** Keep the export of the first module in barrel order and drop the rest. */
+  KeepFirst = 'keepFirst',
+  /** Re-export each colliding file export under an alias prefixed with its module path. */
+  Alias = 'alias',
+}
+
+/**
+ * Defines how import cycles closed by a generated barrel are handled.
+ */
+export enum ImportCycleCheck {
+  /** Do not analyze imports. */
+  Off = 'off',
+  /** Report cycles and write the barrel anyway. */
+  Warn = 'warn',
+  /** Report cycles and stop generation before the barrel is written. */
+  Fail = 'fail',
+}
+
+/**
+ * Defines how the exports of a file are parsed.
+ */
+export enum ExportParseMode {
+  /** Parse each file on its own; fast, but re-exported names are taken at face value. */
+  Syntactic = 'syntactic',
+  /** Resolve re-exported names through the type checker of the nearest tsconfig.json. */
+  Semantic = 'semantic',
+}
+
+/**
+ * Defines how the entries of a barrel are re-exported.
+ */
+export enum BarrelOutputStyle {
+  /** Named export lists for files and `export *` for subdirectories. */
+  Mixed = 'mixed',
+  /** Named export lists for files and subdirectories. */
+  Named = 'named',
+  /** `export *` for files and subdirectories. */
+  Wildcard = 'wildcard',
+  /** `export * as name` for files and subdirectories, named after their paths. */
+  Namespace = 'namespace',
+}
+
+/**
+ * Defines how the statements of a barrel are grouped into labelled sections.
+ */
+export enum BarrelGrouping {
+  /** One list ordered by path, without sections. */
+  None = 'none',
+  /** Type-only exports, then value exports, then subdirectories. */
+  Kind = 'kind',
+  /** The barrel's own files, then one section per subdirectory. */
+  Folder = 'folder',
+}
+
 /**
  * Defines the kinds of entries that can exist within a barrel.
  */
@@ -46,6 +128,183 @@ export enum BarrelEntryKind {
 export interface IBarrelGenerationOptions {
   recursive?: boolean;
   mode?: BarrelGenerationMode;
+  /**
+   * Plans the changes of the mode without handing them to the output sink, so they can be
+   * previewed or verified against the barrels on disk.
+   */
+  dryRun?: boolean;
+  /** Name of the barrel file written to each directory (e.g., 'index.ts'). */
+  indexFilename?: string;
+  /**
+   * Extension used in export specifiers when no existing barrel indicates one, or `auto` to
+   * derive it from the nearest `tsconfig.json`.
+   */
+  exportExtension?: string;
+  /** Extensions, including the leading dot, of the files that become barrel members. */
+  sourceExtensions?: string[];
+  /** Maximum directory depth processed during recursive generation. */
+  maxDepth?: number;
+  /** Maximum number of files parsed concurrently. */
+  concurrencyLimit?: number;
+  /** Number of files handed to the parser per batch. */
+  batchSize?: number;
+  /** Glob patterns a file must match to be exported. */
+  include?: string[];
+  /** Glob patterns for files and directories that are never traversed or exported. */
+  exclude?: string[];
+  /** Whether re-exported names are resolved through the type checker. */
+  parseMode?: ExportParseMode;
+  /** JSDoc tag names, without `@`, that keep a declaration out of the barrel. */
+  ignoreTags?: string[];
+  /** How export names exported by more than one module of a barrel are handled. */
+  collisionStrategy?: ExportCollisionStrategy;
+  /** How import cycles closed by a generated barrel are handled. */
+  importCycleCheck?: ImportCycleCheck;
+  /** How files and subdirectories are re-exported. */
+  outputStyle?: BarrelOutputStyle;
+  /** How statements are grouped into sections separated by blank lines. */
+  grouping?: BarrelGrouping;
+  /**
+   * Header template written at the top of every barrel, with `${directory}`, `${path}`,
+   * `${date}` and `${year}` placeholders; empty for no header.
+   */
+  header?: string;
+  /** Whether files and directories ignored by `.gitignore` files are skipped. */
+  respectGitignore?: boolean;
+  /** Directory that glob patterns are matched against, usually the workspace folder. */
+  rootPath?: string;
+}
+
+/**
+ * Location of the directory a generation run starts from.
+ * `vscode.Uri` satisfies this shape, so the core runs both inside and outside VS Code.
+ */
+export interface IDirectoryLocation {
+  /** Absolute file system path of the directory. */
+  fsPath: string;
+}
+
+/**
+ * Generation options that can be set per directory through configuration files.
+ * Command-level choices (recursion, mode, dry run and root path) are not configurable per
+ * directory.
+ */
+export type BarrelDirectoryOptions = Omit<
+  IBarrelGenerationOptions,
+  'recursive' | 'mode' | 'dryRun' | 'rootPath'
+>;
+
+/**
+ * Options controlling which files and directories are discovered in a directory.
+ */
+export interface IFileDiscoveryOptions {
+  indexFilename?: string;
+  sourceExtensions?: readonly string[];
+  include?: readonly string[];
+  exclude?: readonly string[];
+  rootPath?: string;
+  ignoreMatcher?: IIgnoreMatcher;
+}
+
+/**
+ * Script module extracted from a file that is not a script itself.
+ */
+export interface ISourceModule {
+  /** Script code whose exports become the named exports of the file; empty when it has none. */
+  code: string;
+  /** File name the code is parsed as, which selects the script kind. */
+  fileName: string;
+  /** Name the default export of the file is re-exported as, e.g. the component name. */
+  defaultExportName: string;
+}
+
+/**
+ * Reads files that need more than a script parser, such as single-file components.
+ */
+export interface ISourceFileHandler {
+  /** Extensions, including the leading dot, of the files the handler reads. */
+  readonly extensions: readonly string[];
+  extractModule(content: string, filePath: string): ISourceModule;
+}
+
+/**
+ * Decides whether a path is ignored by version-control ignore rules.
+ */
+export interface IIgnoreMatcher {
+  isIgnored(targetPath: string, isDirectory: boolean, rootPath: string): Promise<boolean>;
+}
+
+/**
+ * Describes a barrel file that a generation run created, updated, or plans to.
+ */
+export interface IBarrelFileChange {
+  /** Absolute path of the barrel file. */
+  filePath: string;
+  /** Content on disk before the run, or undefined when the file is new. */
+  originalContent?: string;
+  /** Content produced by the run. */
+  newContent: string;
+}
+
+/**
+ * Destination for the barrel changes produced by a generation run.
+ */
+export interface IBarrelOutputSink {
+  write(change: IBarrelFileChange): Promise<void>;
+}
+
+/**
+ * Describes an import cycle that a generated barrel closes.
+ */
+export interface IImportCycle {
+  /** Absolute path of the barrel closing the cycle. */
+  barrelPath: string;
+  /** Absolute file paths along the cycle, starting and ending with the barrel. */
+  path: string[];
+}
+
+/**
+ * Receives the import cycles detected during a generation run.
+ */
+export interface IImportCycleReporter {
+  report(cycle: IImportCycle): void;
+}
+
+/**
+ * Options controlling how barrel content is built.
+ */
+export interface IBarrelContentOptions {
+  indexFilename?: string;
+  outputStyle?: BarrelOutputStyle;
+  grouping?: BarrelGrouping;
+  format?: IBarrelFormatOptions;
+  /** Rendered header comment emitted above the exports. */
+  header?: string;
+}
+
+/** Quote character around module specifiers in generated barrels. */
+export type BarrelQuote = "'" | '"';
+
+/** Line ending of generated barrels. */
+export type BarrelEndOfLine = '\n' | '\r\n';
+
+/**
+ * Formatting of generated barrel statements, read from the project's Prettier configuration
+ * and `.editorconfig` files.
+ */
+export interface IBarrelFormatOptions {
+  /** Quote character around module specifiers. */
+  quote: BarrelQuote;
+  /** Whether statements end with a semicolon. */
+  semicolons: boolean;
+  /** Line length above which an export list is wrapped with one specifier per line. */
+  printWidth: number;
+  /** Indentation of the specifiers of a wrapped export list. */
+  indent: string;
+  /** Whether the last specifier of a wrapped export list is followed by a comma. */
+  trailingComma: boolean;
+  /** Line ending of generated barrels; existing barrels that use CRLF keep it. */
+  endOfLine: BarrelEndOfLine;
 }
 
 /**
@@ -54,6 +313,10 @@ export interface IBarrelGenerationOptions {
 export interface IParsedExport {
   name: string;
   typeOnly: boolean;
+  /** Set for star and namespace re-exports; omitted for exports declared or named in the file. */
+  kind?: ParsedExportKind;
+  /** Names of the JSDoc block tags on the exported declaration, without `@`; omitted when none. */
+  tags?: string[];
 }
 
 /**
@@ -63,9 +326,19 @@ export type BarrelEntry =
   | {
       kind: BarrelEntryKind.File;
       exports: BarrelExport[];
+      /** Set when the exports must be listed by name, because some of them are left out or collide. */
+      explicit?: boolean;
+      /** Name of the `export * as` binding the file is re-exported under, if any. */
+      namespace?: string;
     }
   | {
       kind: BarrelEntryKind.Directory;
+      /** Barrel filename of the directory when it is not the configured one. */
+      barrelFilename?: string;
+      /** Exports of the directory barrel, set when they are listed by name instead of `export *`. */
+      exports?: BarrelExport[];
+      /** Name of the `export * as` binding the directory is re-exported under, if any. */
+      namespace?: string;
     };
 
 /**
@@ -75,15 +348,44 @@ export type BarrelExport =
   | {
       kind: BarrelExportKind.Value;
       name: string;
+      alias?: string;
     }
   | {
       kind: BarrelExportKind.Type;
       name: string;
+      alias?: string;
     }
   | {
       kind: BarrelExportKind.Default;
+      alias?: string;
+    }
+  | {
+      kind: BarrelExportKind.Star;
+      typeOnly: boolean;
+    }
+  | {
+      kind: BarrelExportKind.SideEffect;
     };
 
+/**
+ * Represents a barrel export that makes a single binding available, as opposed to `export *`
+ * and side-effect imports.
+ */
+export type NamedBarrelExport = Exclude<
+  BarrelExport,
+  { kind: BarrelExportKind.Star | BarrelExportKind.SideEffect }
+>;
+
+/**
+ * Describes an export name that more than one module of a barrel exports.
+ */
+export interface IExportCollision {
+  /** The colliding export name. */
+  name: string;
+  /** Barrel-relative paths of the modules exporting the name, in barrel order. */
+  sources: string[];
+}
+
 /**
  * Normalized options for generating barrel files, with all properties required.
  */
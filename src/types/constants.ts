@@ -15,7 +15,100 @@
  *
  */
 
+import type { IBarrelFormatOptions } from './barrel.js';
+
 export const DEFAULT_EXPORT_NAME = 'default';
+export const STAR_EXPORT_NAME = '*';
 export const INDEX_FILENAME = 'index.ts';
 export const NEWLINE = '\n';
+export const CRLF = '\r\n';
 export const PARENT_DIRECTORY_SEGMENT = '..';
+export const DEFAULT_EXPORT_EXTENSION = '.js';
+/** Export extension that derives the specifier style from the nearest `tsconfig.json`. */
+export const AUTO_EXPORT_EXTENSION = 'auto';
+/** Export extension that keeps the TypeScript extension of each source in its specifier. */
+export const TYPESCRIPT_EXPORT_EXTENSION = '.ts';
+/** Formatting of generated barrels when the project has no Prettier or EditorConfig settings. */
+export const DEFAULT_BARREL_FORMAT: Readonly<IBarrelFormatOptions> = {
+  quote: "'",
+  semicolons: true,
+  printWidth: Number.POSITIVE_INFINITY,
+  indent: '  ',
+  trailingComma: true,
+  endOfLine: NEWLINE,
+};
+export const DEFAULT_MAX_DEPTH = 20;
+export const DEFAULT_CONCURRENCY_LIMIT = 10;
+export const DEFAULT_BATCH_SIZE = 50;
+
+export const DEFAULT_INCLUDE_PATTERNS: readonly string[] = ['**/*'];
+
+/** Extensions of single-file components, which are always imported with their extension. */
+export const COMPONENT_EXTENSIONS: readonly string[] = ['.vue', '.svelte', '.astro'];
+
+/**
+ * Extensions of the source files that become barrel members unless overridden.
+ * JavaScript is left out because TypeScript projects often keep emitted `.js` files next to
+ * their sources.
+ */
+export const DEFAULT_SOURCE_EXTENSIONS: readonly string[] = [
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  ...COMPONENT_EXTENSIONS,
+];
+
+/** Extensions accepted by the `sourceExtensions` setting: the defaults plus JavaScript. */
+export const SUPPORTED_SOURCE_EXTENSIONS: readonly string[] = [
+  ...DEFAULT_SOURCE_EXTENSIONS,
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+];
+
+/** JSDoc tags, without `@`, that keep a declaration out of the barrel unless overridden. */
+export const DEFAULT_IGNORE_TAGS: readonly string[] = ['internal', 'barrelIgnore'];
+
+/** Comment that keeps a whole file out of the barrel when it appears in the file header. */
+export const IGNORE_FILE_PRAGMA = 'barrel-roll-ignore-file';
+
+/**
+ * Glob patterns, relative to the workspace root, excluded from traversal and barrel exports
+ * unless overridden by configuration. Directory patterns match folders and everything below them.
+ */
+export const DEFAULT_EXCLUDE_PATTERNS: readonly string[] = [
+  // Dependencies
+  '**/node_modules',
+  '**/bower_components',
+  // Hidden directories (version control, IDE settings, caches)
+  '**/.*/',
+  // Build output
+  '**/dist',
+  '**/build',
+  '**/out',
+  '**/lib',
+  // Test directories
+  '**/__tests__',
+  '**/__mocks__',
+  '**/__fixtures__',
+  '**/__snapshots__',
+  // Coverage
+  '**/coverage',
+  // Storybook
+  '**/storybook-static',
+  // Docs
+  '**/docs',
+  // Temp
+  '**/tmp',
+  '**/temp',
+  // Vendor/public assets
+  '**/vendor',
+  '**/public',
+  '**/static',
+  '**/assets',
+  // Declaration and test files
+  '**/*.d.{ts,mts,cts}',
+  '**/*.{spec,test}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}',
+];
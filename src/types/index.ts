@@ -21,20 +21,58 @@
  */
 
 export {
+  type BarrelDirectoryOptions,
+  type BarrelEndOfLine,
   type BarrelEntry,
   BarrelEntryKind,
   type BarrelExport,
   BarrelExportKind,
   BarrelGenerationMode,
+  BarrelGrouping,
+  BarrelOutputStyle,
+  type BarrelQuote,
+  ExportCollisionStrategy,
+  ExportParseMode,
+  type IBarrelContentOptions,
+  type IBarrelFileChange,
+  type IBarrelFormatOptions,
   type IBarrelGenerationOptions,
+  type IBarrelOutputSink,
+  type IDirectoryLocation,
+  type IExportCollision,
+  type IFileDiscoveryOptions,
+  type IIgnoreMatcher,
+  type IImportCycle,
+  type IImportCycleReporter,
+  ImportCycleCheck,
   type IParsedExport,
+  type ISourceFileHandler,
+  type ISourceModule,
+  type NamedBarrelExport,
   type NormalizedBarrelGenerationOptions,
+  ParsedExportKind,
 } from './barrel.js';
 export {
+  AUTO_EXPORT_EXTENSION,
+  COMPONENT_EXTENSIONS,
+  CRLF,
+  DEFAULT_BARREL_FORMAT,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_CONCURRENCY_LIMIT,
+  DEFAULT_EXCLUDE_PATTERNS,
+  DEFAULT_EXPORT_EXTENSION,
   DEFAULT_EXPORT_NAME,
+  DEFAULT_IGNORE_TAGS,
+  DEFAULT_INCLUDE_PATTERNS,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_SOURCE_EXTENSIONS,
+  IGNORE_FILE_PRAGMA,
   INDEX_FILENAME,
   NEWLINE,
   PARENT_DIRECTORY_SEGMENT,
+  STAR_EXPORT_NAME,
+  SUPPORTED_SOURCE_EXTENSIONS,
+  TYPESCRIPT_EXPORT_EXTENSION,
 } from './constants.js';
 export type { IEnvironmentVariables } from './env.js';
 export type { LoggerConstructor, LoggerInstance, OutputChannel } from './logger.js';
@@ -0,0 +1,176 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+/** Number of unchanged lines shown around each change. */
+const DEFAULT_CONTEXT_LINES = 3;
+
+/** Prefix marking a diff line as unchanged, removed or added. */
+type DiffPrefix = ' ' | '-' | '+';
+
+/**
+ * A single line of a line-based diff.
+ */
+interface DiffLine {
+  prefix: DiffPrefix;
+  text: string;
+}
+
+/**
+ * A contiguous range of diff lines, as indexes into the full diff.
+ */
+interface DiffRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits content into lines, ignoring the empty line after a trailing newline.
+ * @param content The content, or undefined for a file that does not exist.
+ * @returns The lines.
+ */
+function splitLines(content: string | undefined): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split('\n');
+  if (lines.at(-1) === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Computes the longest common subsequence length for every pair of suffixes.
+ * @param oldLines The original lines.
+ * @param newLines The updated lines.
+ * @returns A table where `[i][j]` is the LCS length of `oldLines[i..]` and `newLines[j..]`.
+ */
+function computeCommonLengths(oldLines: string[], newLines: string[]): number[][] {
+  const lengths = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array<number>(newLines.length + 1).fill(0),
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  return lengths;
+}
+
+/**
+ * Computes a minimal line diff from the longest common subsequence of both sides.
+ * @param oldLines The original lines.
+ * @param newLines The updated lines.
+ * @returns Every line of both sides, marked as unchanged, removed or added.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const lengths = computeCommonLengths(oldLines, newLines);
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ prefix: ' ', text: oldLines[i++] });
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ prefix: '-', text: oldLines[i++] });
+    } else {
+      lines.push({ prefix: '+', text: newLines[j++] });
+    }
+  }
+  oldLines.slice(i).forEach((text) => lines.push({ prefix: '-', text }));
+  newLines.slice(j).forEach((text) => lines.push({ prefix: '+', text }));
+  return lines;
+}
+
+/**
+ * Groups changed lines and their surrounding context into ranges, merging ranges that touch.
+ * @param lines The full diff.
+ * @param contextLines Number of unchanged lines kept around each change.
+ * @returns The ranges of the hunks.
+ */
+function groupHunks(lines: DiffLine[], contextLines: number): DiffRange[] {
+  const ranges: DiffRange[] = [];
+  lines.forEach((line, index) => {
+    if (line.prefix === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges.at(-1);
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Formats a hunk header and its lines.
+ * @param lines The full diff.
+ * @param range The range of the hunk.
+ * @returns The formatted hunk.
+ */
+function formatHunk(lines: DiffLine[], range: DiffRange): string[] {
+  const before = lines.slice(0, range.start);
+  const hunk = lines.slice(range.start, range.end + 1);
+  const oldBefore = before.filter((line) => line.prefix !== '+').length;
+  const newBefore = before.filter((line) => line.prefix !== '-').length;
+  const oldLength = hunk.filter((line) => line.prefix !== '+').length;
+  const newLength = hunk.filter((line) => line.prefix !== '-').length;
+  const oldStart = oldLength === 0 ? oldBefore : oldBefore + 1;
+  const newStart = newLength === 0 ? newBefore : newBefore + 1;
+
+  return [
+    `@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`,
+    ...hunk.map((line) => `${line.prefix}${line.text}`),
+  ];
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param filePath - Path shown in the diff headers.
+ * @param oldContent - The original content, or undefined when the file does not exist yet.
+ * @param newContent - The updated content.
+ * @param contextLines - Number of unchanged lines shown around each change.
+ * @returns The unified diff, or an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldContent: string | undefined,
+  newContent: string,
+  contextLines = DEFAULT_CONTEXT_LINES,
+): string {
+  const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+  const hunks = groupHunks(lines, contextLines);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const oldHeader = oldContent === undefined ? '/dev/null' : `a/${filePath}`;
+  return [
+    `--- ${oldHeader}`,
+    `+++ b/${filePath}`,
+    ...hunks.flatMap((range) => formatHunk(lines, range)),
+  ].join('\n');
+}
@@ -33,6 +33,24 @@ export function isString(value: unknown): value is string {
   return typeof value === 'string';
 }
 
+/**
+ * Returns true when the provided value is a boolean primitive.
+ * @param value The value to check
+ * @returns True when the value is a boolean; otherwise false.
+ */
+export function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+/**
+ * Returns true when the provided value is a positive integer.
+ * @param value The value to check
+ * @returns True when the value is a positive integer; otherwise false.
+ */
+export function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
 /**
  * Returns true if the value looks like an Error (has a message string or is an Error instance).
  * @param value The value to check
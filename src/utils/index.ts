@@ -28,8 +28,10 @@ export {
   assertString,
   assertThrows,
 } from './assert.js';
+export { createUnifiedDiff } from './diff.js';
 export { formatErrorForLog, getErrorMessage } from './errors.js';
 export { safeStringify } from './format.js';
-export { isError, isObject, isString } from './guards.js';
+export { isBoolean, isError, isObject, isPositiveInteger, isString } from './guards.js';
+export { withDefaults } from './object.js';
 export { processConcurrently, Semaphore } from './semaphore.js';
 export { sortAlphabetically, splitAndClean } from './string.js';
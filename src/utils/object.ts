@@ -0,0 +1,35 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+/**
+ * Returns a copy of the defaults with every defined value from the overrides applied.
+ * Unlike object spread, keys whose override value is `undefined` keep their default.
+ * @param defaults The complete set of default values.
+ * @param overrides Optional partial values that take precedence when defined.
+ * @returns A new object containing the merged values.
+ */
+export function withDefaults<T extends object>(defaults: T, overrides?: Partial<T>): T {
+  const merged = { ...defaults };
+
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) {
+      Object.assign(merged, { [key]: value });
+    }
+  }
+
+  return merged;
+}
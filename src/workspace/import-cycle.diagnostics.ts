@@ -0,0 +1,68 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { IImportCycle, IImportCycleReporter } from '../types/index.js';
+import * as vscode from '../vscode.js';
+
+/** Name of the diagnostic collection shown in the Problems panel. */
+const DIAGNOSTIC_COLLECTION_NAME = 'barrel-roll';
+
+/**
+ * Import cycle reporter that shows each cycle as a warning on its barrel in the Problems panel.
+ */
+export class ImportCycleDiagnostics implements IImportCycleReporter {
+  private readonly collection: vscode.DiagnosticCollection;
+
+  /**
+   * Creates a new ImportCycleDiagnostics instance.
+   * @param collection Optional diagnostic collection; one is created when omitted.
+   */
+  constructor(collection?: vscode.DiagnosticCollection) {
+    this.collection =
+      collection ?? vscode.languages.createDiagnosticCollection(DIAGNOSTIC_COLLECTION_NAME);
+  }
+
+  /**
+   * Adds a warning describing the cycle to the barrel that closes it.
+   * @param cycle The import cycle.
+   */
+  report(cycle: IImportCycle): void {
+    const uri = vscode.Uri.file(cycle.barrelPath);
+    const cyclePath = cycle.path.map((filePath) => vscode.workspace.asRelativePath(filePath));
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(0, 0, 0, 0),
+      `Import cycle: ${cyclePath.join(' -> ')}`,
+      vscode.DiagnosticSeverity.Warning,
+    );
+    diagnostic.source = 'Barrel Roll';
+    this.collection.set(uri, [...(this.collection.get(uri) ?? []), diagnostic]);
+  }
+
+  /**
+   * Removes every reported cycle.
+   */
+  clear(): void {
+    this.collection.clear();
+  }
+
+  /**
+   * Disposes the diagnostic collection.
+   */
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
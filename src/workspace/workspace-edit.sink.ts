@@ -0,0 +1,214 @@
+/*
+ * Copyright 2025 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { IBarrelFileChange, IBarrelOutputSink } from '../types/index.js';
+import * as vscode from '../vscode.js';
+
+/**
+ * Options for a WorkspaceEditSink.
+ */
+export interface WorkspaceEditSinkOptions {
+  /** Whether each change must be confirmed in the refactor preview before it is applied. */
+  needsConfirmation?: boolean;
+}
+
+/**
+ * Output sink that collects barrel changes into a single VS Code `WorkspaceEdit`.
+ * Applying the edit is atomic and lands on the undo stack, so one undo reverts the whole run,
+ * and open editors see the new content immediately.
+ */
+export class WorkspaceEditSink implements IBarrelOutputSink {
+  private changes: IBarrelFileChange[] = [];
+  private readonly needsConfirmation: boolean;
+
+  /**
+   * Creates a new WorkspaceEditSink instance.
+   * @param options Optional sink options.
+   */
+  constructor(options: WorkspaceEditSinkOptions = {}) {
+    this.needsConfirmation = options.needsConfirmation === true;
+  }
+
+  /**
+   * Collects a barrel change to be applied later.
+   * @param change The barrel change.
+   * @returns Promise that resolves once the change has been collected.
+   */
+  write(change: IBarrelFileChange): Promise<void> {
+    this.changes.push(change);
+    return Promise.resolve();
+  }
+
+  /**
+   * Checks whether any changes have been collected.
+   * @returns True if at least one change has been collected; otherwise false.
+   */
+  hasChanges(): boolean {
+    return this.changes.length > 0;
+  }
+
+  /**
+   * Applies every collected change as one workspace edit and saves the updated documents.
+   * When changes need confirmation, the changes declined in the refactor preview are dropped
+   * afterwards, so a later revert only touches what was actually applied.
+   * @returns Promise resolving to true if the edit was applied; otherwise false.
+   */
+  async apply(): Promise<boolean> {
+    if (!this.hasChanges()) {
+      return true;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of this.changes) {
+      await this.addChange(edit, change);
+    }
+
+    return this.applyAndSave(edit, this.needsConfirmation);
+  }
+
+  /**
+   * Restores every collected change to its original content, deleting files the run created.
+   * @returns Promise resolving to true if the revert was applied; otherwise false.
+   */
+  async revert(): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of this.changes) {
+      await this.addRevert(edit, change);
+    }
+
+    return this.applyAndSave(edit, false);
+  }
+
+  /**
+   * Adds the edit entry that applies a change.
+   * @param edit The workspace edit to add to.
+   * @param change The barrel change.
+   * @returns Promise that resolves when the entry has been added.
+   */
+  private async addChange(edit: vscode.WorkspaceEdit, change: IBarrelFileChange): Promise<void> {
+    const uri = vscode.Uri.file(change.filePath);
+    if (change.originalContent === undefined) {
+      edit.createFile(
+        uri,
+        { contents: new TextEncoder().encode(change.newContent) },
+        { label: 'Create barrel', needsConfirmation: this.needsConfirmation },
+      );
+      return;
+    }
+
+    edit.replace(uri, await this.getDocumentRange(uri), change.newContent, {
+      label: 'Update barrel',
+      needsConfirmation: this.needsConfirmation,
+    });
+  }
+
+  /**
+   * Adds the edit entry that reverts a change.
+   * @param edit The workspace edit to add to.
+   * @param change The barrel change.
+   * @returns Promise that resolves when the entry has been added.
+   */
+  private async addRevert(edit: vscode.WorkspaceEdit, change: IBarrelFileChange): Promise<void> {
+    const uri = vscode.Uri.file(change.filePath);
+    if (change.originalContent === undefined) {
+      edit.deleteFile(uri, { ignoreIfNotExists: true });
+      return;
+    }
+
+    edit.replace(uri, await this.getDocumentRange(uri), change.originalContent);
+  }
+
+  /**
+   * Applies a workspace edit and saves the documents it updated in place.
+   * @param edit The workspace edit.
+   * @param isRefactoring Whether to open the edit in the refactor preview.
+   * @returns Promise resolving to true if the edit was applied; otherwise false.
+   */
+  private async applyAndSave(edit: vscode.WorkspaceEdit, isRefactoring: boolean): Promise<boolean> {
+    const applied = await vscode.workspace.applyEdit(edit, { isRefactoring });
+    if (!applied) {
+      return false;
+    }
+
+    if (isRefactoring) {
+      await this.dropDeclinedChanges();
+    }
+
+    for (const change of this.changes) {
+      await this.saveIfUpdated(change);
+    }
+
+    return true;
+  }
+
+  /**
+   * Drops the collected changes whose new content did not land in the workspace.
+   * @returns Promise that resolves when the declined changes have been dropped.
+   */
+  private async dropDeclinedChanges(): Promise<void> {
+    const accepted: IBarrelFileChange[] = [];
+    for (const change of this.changes) {
+      if (await this.isApplied(change)) {
+        accepted.push(change);
+      }
+    }
+
+    this.changes = accepted;
+  }
+
+  /**
+   * Checks whether the file of a change holds the new content of the change.
+   * @param change The barrel change.
+   * @returns Promise resolving to true if the change is in place; otherwise false.
+   */
+  private async isApplied(change: IBarrelFileChange): Promise<boolean> {
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(change.filePath));
+      return document.getText() === change.newContent;
+    } catch {
+      // A declined file creation leaves nothing to open
+      return false;
+    }
+  }
+
+  /**
+   * Saves the document of a change that updated an existing file.
+   * Created files are written by the edit itself and need no save.
+   * @param change The barrel change.
+   * @returns Promise that resolves when the document has been saved.
+   */
+  private async saveIfUpdated(change: IBarrelFileChange): Promise<void> {
+    if (change.originalContent === undefined) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(change.filePath));
+    await document.save();
+  }
+
+  /**
+   * Gets the range covering the whole of a document.
+   * @param uri The document URI.
+   * @returns Promise resolving to the full document range.
+   */
+  private async getDocumentRange(uri: vscode.Uri): Promise<vscode.Range> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    return document.validateRange(
+      new vscode.Range(0, 0, Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER),
+    );
+  }
+}
@@ -4,6 +4,8 @@
 
 const path = require('node:path');
 
+const { BannerPlugin } = require('webpack');
+
 /**@type {import('webpack').Configuration}*/
 const config = {
   target: 'node',
@@ -20,6 +22,7 @@ const config = {
     {
       vscode: 'commonjs vscode',
       typescript: 'commonjs typescript', // Required for ts-morph to work properly
+      prettier: 'commonjs prettier', // Loads its parsers and config files at runtime
     },
   ],
   ignoreWarnings: [
@@ -48,4 +51,24 @@ const config = {
     ],
   },
 };
-module.exports = config;
+/**
+ * Standalone command line interface that runs the same core without VS Code.
+ * @type {import('webpack').Configuration}
+ */
+const cliConfig = {
+  ...config,
+  entry: './src/cli.ts',
+  output: {
+    ...config.output,
+    filename: 'cli.js',
+  },
+  externals: [
+    {
+      typescript: 'commonjs typescript', // Required for ts-morph to work properly
+      prettier: 'commonjs prettier', // Loads its parsers and config files at runtime
+    },
+  ],
+  plugins: [new BannerPlugin({ banner: '#!/usr/bin/env node', raw: true })],
+};
+
+module.exports = [config, cliConfig];